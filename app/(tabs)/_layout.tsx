@@ -1,11 +1,13 @@
 import { Tabs } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
+import { useUser } from '@/hooks/useUser';
 import { Platform } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 export default function TabLayout() {
   const { theme } = useTheme();
+  const { can } = useUser();
   const insets = useSafeAreaInsets();
 
   const tabBarStyle = {
@@ -69,6 +71,8 @@ export default function TabLayout() {
         name="financial"
         options={{
           title: 'Financial',
+          // Hidden from staff whose role does not cover finances.
+          href: can('financial.view') ? undefined : null,
           tabBarIcon: ({ color, size }) => (
             <MaterialIcons name="account-balance-wallet" size={size} color={color} />
           ),
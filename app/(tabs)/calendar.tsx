@@ -1,5 +1,5 @@
-import React, { useState, useMemo, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -15,6 +15,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
+import { useUser } from '@/hooks/useUser';
 import { AppointmentForm } from '@/components/AppointmentForm';
 import { AppointmentCard } from '@/components/AppointmentCard';
 import { TouchableOpacity } from 'react-native';
@@ -23,6 +24,7 @@ export default function CalendarScreen() {
   const { theme } = useTheme();
   const { appointments, loading } = useData();
   const { activeClinic } = useClinic();
+  const { can } = useUser();
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [viewMode, setViewMode] = useState('calendar');
@@ -254,12 +256,14 @@ export default function CalendarScreen() {
           )}
         </ScrollView>
 
-        <FAB
-          icon="plus"
-          style={[styles.fab, { backgroundColor: theme.colors.primary }]}
-          onPress={() => setShowAddForm(true)}
-          label="Add Appointment"
-        />
+        {can('appointments.manage') && (
+          <FAB
+            icon="plus"
+            style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+            onPress={() => setShowAddForm(true)}
+            label="Add Appointment"
+          />
+        )}
       </SafeAreaView>
 
       {/* Add Appointment Modal */}
@@ -15,17 +15,26 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
+import { useUser } from '@/hooks/useUser';
 import { ExpenseForm } from '@/components/ExpenseForm';
+import { RecordHistoryModal } from '@/components/RecordHistoryModal';
 import { TouchableOpacity } from 'react-native';
 
 export default function FinancialScreen() {
   const { theme } = useTheme();
-  const { incomeRecords, expenseRecords, loading } = useData();
+  const { incomeRecords, expenseRecords, loading, deleteExpense } = useData();
   const { activeClinic } = useClinic();
+  const { can } = useUser();
+  const canEdit = can('financial.edit');
   const [viewMode, setViewMode] = useState('overview');
   const [showAddExpense, setShowAddExpense] = useState(false);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
+  const [historyTarget, setHistoryTarget] = useState<{
+    title: string;
+    entityType: 'incomeRecords' | 'expenseRecords';
+    entityId: string;
+  } | null>(null);
 
   const clinicIncomeRecords = useMemo(() => {
     return incomeRecords.filter(record => record.clinicId === activeClinic?.id);
@@ -93,6 +102,18 @@ export default function FinancialScreen() {
     );
   }
 
+  // The tab is hidden without this permission, but the active user can change while it is open.
+  if (!can('financial.view')) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={styles.centered}>
+          <MaterialIcons name="lock" size={48} color={theme.colors.onSurfaceVariant} />
+          <Text style={{ marginTop: 16 }}>Your role does not have access to financial records.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <>
       <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
@@ -256,6 +277,15 @@ export default function FinancialScreen() {
                       <Text variant="titleMedium" style={{ color: theme.colors.primary, fontWeight: 'bold' }}>
                         +${record.amount.toFixed(2)}
                       </Text>
+                      <IconButton
+                        icon="history"
+                        size={18}
+                        onPress={() => setHistoryTarget({
+                          title: record.description,
+                          entityType: 'incomeRecords',
+                          entityId: record.id,
+                        })}
+                      />
                     </View>
                   ))
                 ) : (
@@ -289,6 +319,26 @@ export default function FinancialScreen() {
                       <Text variant="titleMedium" style={{ color: theme.colors.error, fontWeight: 'bold' }}>
                         -${record.amount.toFixed(2)}
                       </Text>
+                      <IconButton
+                        icon="history"
+                        size={18}
+                        onPress={() => setHistoryTarget({
+                          title: record.description,
+                          entityType: 'expenseRecords',
+                          entityId: record.id,
+                        })}
+                      />
+                      {canEdit && (
+                        <IconButton
+                          icon="delete"
+                          size={18}
+                          iconColor={theme.colors.error}
+                          onPress={() => {
+                            // Undo is offered from the snackbar.
+                            deleteExpense(record.id).catch(error => console.error('Error deleting expense:', error));
+                          }}
+                        />
+                      )}
                     </View>
                   ))
                 ) : (
@@ -299,12 +349,14 @@ export default function FinancialScreen() {
           )}
         </ScrollView>
 
-        <FAB
-          icon="plus"
-          style={[styles.fab, { backgroundColor: theme.colors.primary }]}
-          onPress={() => setShowAddExpense(true)}
-          label="Add Expense"
-        />
+        {canEdit && (
+          <FAB
+            icon="plus"
+            style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+            onPress={() => setShowAddExpense(true)}
+            label="Add Expense"
+          />
+        )}
       </SafeAreaView>
 
       {/* Add Expense Modal */}
@@ -314,6 +366,18 @@ export default function FinancialScreen() {
           onSave={() => setShowAddExpense(false)}
         />
       </Modal>
+
+      {/* Change History Modal */}
+      <Modal visible={!!historyTarget} animationType="slide" presentationStyle="pageSheet">
+        {historyTarget && (
+          <RecordHistoryModal
+            title={historyTarget.title}
+            entityType={historyTarget.entityType}
+            entityId={historyTarget.entityId}
+            onClose={() => setHistoryTarget(null)}
+          />
+        )}
+      </Modal>
     </>
   );
 }
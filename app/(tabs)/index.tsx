@@ -8,6 +8,7 @@ import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
 import { AppointmentCard } from '@/components/AppointmentCard';
 import { Patient } from '@/types';
+import { formatAge } from '@/utils/age';
 
 export default function DashboardScreen() {
   const { theme } = useTheme();
@@ -24,7 +25,8 @@ export default function DashboardScreen() {
     if (!searchQuery) return [];
     return patients.filter(patient =>
       patient.name.toLowerCase().includes(searchQuery.toLowerCase()) &&
-      patient.clinicId === activeClinic?.id
+      patient.clinicId === activeClinic?.id &&
+      !patient.archivedAt
     );
   }, [searchQuery, patients, activeClinic]);
 
@@ -164,7 +166,7 @@ export default function DashboardScreen() {
                       <Card.Content>
                         <Text variant="titleMedium">{patient.name}</Text>
                         <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                          {patient.age} years • {patient.sex} • {patient.phoneNumber}
+                          {formatAge(patient)} • {patient.sex} • {patient.phoneNumber}
                         </Text>
                       </Card.Content>
                     </Card>
@@ -15,31 +15,40 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
+import { useUser } from '@/hooks/useUser';
 import { PatientForm } from '@/components/PatientForm';
 import { PatientDetailsModal } from '@/components/PatientDetailsModal';
 import { Patient } from '@/types';
+import { formatAge } from '@/utils/age';
 import { TouchableOpacity } from 'react-native';
 
 export default function PatientsScreen() {
   const { theme } = useTheme();
   const { patients, visits, loading } = useData();
   const { activeClinic } = useClinic();
+  const { can } = useUser();
   const [searchQuery, setSearchQuery] = useState('');
   const [showAddForm, setShowAddForm] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [showPatientDetails, setShowPatientDetails] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
 
   const clinicPatients = useMemo(() => {
-    return patients.filter(patient => patient.clinicId === activeClinic?.id);
+    return patients.filter(patient => patient.clinicId === activeClinic?.id && !patient.archivedAt);
+  }, [patients, activeClinic]);
+
+  const archivedPatients = useMemo(() => {
+    return patients.filter(patient => patient.clinicId === activeClinic?.id && patient.archivedAt);
   }, [patients, activeClinic]);
 
   const filteredPatients = useMemo(() => {
-    if (!searchQuery) return clinicPatients;
-    return clinicPatients.filter(patient =>
+    const listedPatients = showArchived ? archivedPatients : clinicPatients;
+    if (!searchQuery) return listedPatients;
+    return listedPatients.filter(patient =>
       patient.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
       patient.phoneNumber.includes(searchQuery)
     );
-  }, [searchQuery, clinicPatients]);
+  }, [searchQuery, clinicPatients, archivedPatients, showArchived]);
 
   const getPatientVisitCount = (patientId: string) => {
     return visits.filter(visit => visit.patientId === patientId).length;
@@ -90,6 +99,19 @@ export default function PatientsScreen() {
         style={styles.searchbar}
       />
 
+      {(archivedPatients.length > 0 || showArchived) && (
+        <View style={styles.filterRow}>
+          <Chip
+            icon="archive"
+            compact
+            selected={showArchived}
+            onPress={() => setShowArchived(!showArchived)}
+          >
+            {showArchived ? 'Showing archived' : `Archived (${archivedPatients.length})`}
+          </Chip>
+        </View>
+      )}
+
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {filteredPatients.length > 0 ? (
           filteredPatients.map((patient) => {
@@ -110,7 +132,7 @@ export default function PatientsScreen() {
                       </Text>
                       <View style={styles.patientMeta}>
                         <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                          {patient.age} years • {patient.sex}
+                          {formatAge(patient)} • {patient.sex}
                         </Text>
                         <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
                           {patient.phoneNumber}
@@ -163,21 +185,27 @@ export default function PatientsScreen() {
               color={theme.colors.onSurfaceVariant} 
             />
             <Text variant="titleMedium" style={{ marginTop: 16, color: theme.colors.onSurfaceVariant }}>
-              {searchQuery ? 'No patients found' : 'No patients yet'}
+              {searchQuery ? 'No patients found' : showArchived ? 'No archived patients' : 'No patients yet'}
             </Text>
             <Text variant="bodyMedium" style={{ marginTop: 8, color: theme.colors.onSurfaceVariant }}>
-              {searchQuery ? 'Try adjusting your search' : 'Add your first patient to get started'}
+              {searchQuery
+                ? 'Try adjusting your search'
+                : showArchived
+                  ? 'Archived patients will appear here'
+                  : 'Add your first patient to get started'}
             </Text>
           </View>
         )}
       </ScrollView>
 
-      <FAB
-        icon="plus"
-        style={[styles.fab, { backgroundColor: theme.colors.primary }]}
-        onPress={() => setShowAddForm(true)}
-        label="Add Patient"
-      />
+      {can('patients.edit') && (
+        <FAB
+          icon="plus"
+          style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+          onPress={() => setShowAddForm(true)}
+          label="Add Patient"
+        />
+      )}
 
       {/* Add Patient Modal */}
       <Modal visible={showAddForm} animationType="slide" presentationStyle="pageSheet">
@@ -224,6 +252,11 @@ const styles = StyleSheet.create({
     marginHorizontal: 16,
     marginBottom: 16,
   },
+  filterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+  },
   scrollView: {
     flex: 1,
     paddingHorizontal: 16,
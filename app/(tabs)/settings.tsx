@@ -1,5 +1,5 @@
-import React, { useState, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -9,21 +9,66 @@ import {
   List,
   Divider,
   ActivityIndicator,
-  IconButton
+  IconButton,
+  Checkbox,
+  SegmentedButtons
 } from 'react-native-paper';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
+import { useUser } from '@/hooks/useUser';
 import { ClinicForm } from '@/components/ClinicForm';
+import { BackupRestoreModal } from '@/components/BackupRestoreModal';
+import { ConflictReviewModal } from '@/components/ConflictReviewModal';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ImportPreviewModal } from '@/components/ImportPreviewModal';
+import { PinSetupModal, PinSetupMode } from '@/components/PinSetupModal';
+import { StaffUserForm } from '@/components/StaffUserForm';
+import { VisitTemplateForm } from '@/components/VisitTemplateForm';
+import { UserSwitchModal } from '@/components/UserSwitchModal';
+import { useAppLock } from '@/hooks/useAppLock';
+import { IDLE_TIMEOUT_OPTIONS } from '@/services/appLock';
+import { ROLE_LABELS } from '@/constants/permissions';
+import { writeExport, shareExport, ExportFileFormat } from '@/services/export';
+import {
+  loadBackupSettings,
+  saveBackupSettings,
+  BackupSettings,
+  DEFAULT_BACKUP_SETTINGS,
+  BACKUP_RETENTION_OPTIONS,
+} from '@/services/backup';
+import { buildImportPreview, planImport, ImportPreview } from '@/services/import';
+import * as DocumentPicker from 'expo-document-picker';
+import { getSyncStatus, SyncStatus } from '@/services/sync';
+import { RecordChange } from '@/services/database';
+import { StaffUser, VisitTemplate } from '@/types';
 import { TouchableOpacity } from 'react-native';
 
 export default function SettingsScreen() {
   const { theme, isDark, toggleTheme } = useTheme();
-  const { syncData } = useData();
-  const { clinics, activeClinic, setActiveClinic } = useClinic();
+  const { syncData, importData, visitTemplates } = useData();
+  const { clinics, activeClinic, setActiveClinic, reloadClinics } = useClinic();
+  const { users, activeUser, can, reloadUsers } = useUser();
+  const { settings: lockSettings, biometricAvailable, updateSettings: updateLockSettings, lock } = useAppLock();
+  const [pinSetupMode, setPinSetupMode] = useState<PinSetupMode | null>(null);
   const [showAddClinic, setShowAddClinic] = useState(false);
+  const [showUserSwitch, setShowUserSwitch] = useState(false);
+  // A user being edited, or true when adding one.
+  const [staffFormTarget, setStaffFormTarget] = useState<StaffUser | true | null>(null);
+  // A template being edited, or true when adding one.
+  const [templateFormTarget, setTemplateFormTarget] = useState<VisitTemplate | true | null>(null);
   const [syncing, setSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFileFormat>('json');
+  const [exportActiveClinicOnly, setExportActiveClinicOnly] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>(DEFAULT_BACKUP_SETTINGS);
+  const [showBackups, setShowBackups] = useState(false);
   const [alertConfig, setAlertConfig] = useState<{
     visible: boolean;
     title: string;
@@ -39,16 +84,173 @@ export default function SettingsScreen() {
     }
   };
 
+  useEffect(() => {
+    refreshSyncStatus();
+    loadBackupSettings()
+      .then(setBackupSettings)
+      .catch(error => console.error('Error loading backup settings:', error));
+  }, []);
+
+  const clinicTemplates = useMemo(
+    () => visitTemplates
+      .filter(template => template.clinicId === activeClinic?.id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [visitTemplates, activeClinic]
+  );
+
+  const describeTemplate = (template: VisitTemplate) => {
+    const details = [
+      template.diagnosis,
+      template.fee !== undefined ? `$${template.fee.toFixed(2)}` : '',
+      template.followUpDays ? `Follow-up in ${template.followUpDays} day(s)` : '',
+    ].filter(Boolean);
+    return details.length > 0 ? details.join(' • ') : undefined;
+  };
+
+  const refreshSyncStatus = async () => {
+    try {
+      setSyncStatus(await getSyncStatus());
+    } catch (error) {
+      console.error('Error loading sync status:', error);
+    }
+  };
+
+  // Clinics and staff users live outside the data store, so reload them when they change.
+  const reloadChangedCollections = async (changes: RecordChange[]) => {
+    if (changes.some(change => change.collection === 'clinics')) {
+      await reloadClinics();
+    }
+    if (changes.some(change => change.collection === 'staffUsers')) {
+      await reloadUsers();
+    }
+  };
+
   const handleSync = async () => {
     setSyncing(true);
     try {
-      await syncData();
-      showWebAlert('Sync Successful', 'Your data has been synced to Google Drive successfully.');
+      const result = await syncData();
+      await reloadChangedCollections(result.applied);
+      const summary = `Sent ${result.pushed} and received ${result.pulled} change(s).`;
+      if (result.conflicts > 0) {
+        showWebAlert(
+          'Sync Needs Review',
+          `${summary}\n\n${result.conflicts} record(s) were edited differently on another device. Review them to choose which version to keep.`,
+          () => setShowConflicts(true)
+        );
+      } else {
+        showWebAlert('Sync Successful', summary);
+      }
     } catch (error) {
-      showWebAlert('Sync Failed', 'Failed to sync data to Google Drive. Please check your connection and try again.');
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Sync Failed', `Your changes are still saved on this device and will be sent next time.\n\n${reason}`);
     } finally {
       setSyncing(false);
+      refreshSyncStatus();
+    }
+  };
+
+  const handleConflictResolved = async (change: RecordChange | null) => {
+    if (change) {
+      await reloadChangedCollections([change]);
     }
+    refreshSyncStatus();
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const clinicId = exportActiveClinicOnly ? activeClinic?.id ?? null : null;
+      const result = await writeExport(exportFormat, clinicId);
+      setShowExport(false);
+
+      const shared = await shareExport(result);
+      if (!shared) {
+        showWebAlert(
+          'Export Saved',
+          `Exported ${result.recordCount} record(s) to:\n\n${result.fileUris.join('\n')}`
+        );
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Export Failed', `Failed to export data. ${reason}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePickImportFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+      if (!activeClinic) {
+        showWebAlert('Import Failed', 'Please select a clinic first.');
+        return;
+      }
+
+      const file = result.assets[0];
+      setImportPreview(await buildImportPreview(file.uri, file.name, activeClinic.id, can('users.manage')));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Import Failed', `Could not read the file. ${reason}`);
+    }
+  };
+
+  const handleImport = async (includeDuplicates: boolean) => {
+    if (!importPreview) return;
+
+    setImporting(true);
+    try {
+      const changes = planImport(importPreview, includeDuplicates);
+      await importData(changes);
+      await reloadChangedCollections(changes);
+      setImportPreview(null);
+      showWebAlert('Import Complete', `Imported ${changes.length} record(s).`);
+      refreshSyncStatus();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Import Failed', `No data was changed. ${reason}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const updateBackupSettings = async (updates: Partial<BackupSettings>) => {
+    const newSettings = { ...backupSettings, ...updates };
+    setBackupSettings(newSettings);
+    try {
+      await saveBackupSettings(newSettings);
+    } catch (error) {
+      console.error('Error saving backup settings:', error);
+    }
+  };
+
+  const handleRestored = async (changes: RecordChange[]) => {
+    setShowBackups(false);
+    await reloadChangedCollections(changes);
+    refreshSyncStatus();
+    showWebAlert('Restore Complete', `Restored the backup with ${changes.length} change(s).`);
+  };
+
+  const handlePinSetupDone = () => {
+    const messages: Record<PinSetupMode, string> = {
+      enable: 'The app will ask for your PIN when it opens and after a period of inactivity.',
+      change: 'Your PIN has been changed.',
+      disable: 'App lock has been turned off.',
+    };
+    showWebAlert('App Lock', messages[pinSetupMode!]);
+    setPinSetupMode(null);
+  };
+
+  const getSyncDescription = () => {
+    if (!syncStatus) return 'Checking sync status...';
+
+    const lastSynced = syncStatus.lastSyncedAt
+      ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}`
+      : 'Never synced';
+    return `${syncStatus.backendName} • ${lastSynced} • ${syncStatus.pendingChanges} pending`;
   };
 
   const handleClinicSwitch = async (clinicId: string) => {
@@ -100,6 +302,137 @@ export default function SettingsScreen() {
             </Card.Content>
           </Card>
 
+          {/* Staff */}
+          <Card style={styles.card}>
+            <Card.Content>
+              <View style={styles.sectionHeader}>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Staff
+                </Text>
+                {can('users.manage') && (
+                  <Button 
+                    mode="outlined" 
+                    compact 
+                    onPress={() => setStaffFormTarget(true)}
+                    icon="plus"
+                  >
+                    Add User
+                  </Button>
+                )}
+              </View>
+
+              <List.Item
+                title={activeUser?.name ?? 'No user selected'}
+                description={activeUser ? `Signed in as ${ROLE_LABELS[activeUser.role]}` : undefined}
+                left={props => <List.Icon {...props} icon="account-circle" />}
+              />
+              <List.Item
+                title="Switch User"
+                description="New records are attributed to the active user"
+                left={props => <List.Icon {...props} icon="account-switch" />}
+                right={props => <List.Icon {...props} icon="chevron-right" />}
+                onPress={() => setShowUserSwitch(true)}
+              />
+
+              {can('users.manage') && (
+                <>
+                  <Divider style={styles.divider} />
+                  {users.filter(user => !user.archivedAt).map(user => (
+                    <List.Item
+                      key={user.id}
+                      title={user.name}
+                      description={ROLE_LABELS[user.role]}
+                      left={props => <List.Icon {...props} icon={user.pinHash ? 'account-lock' : 'account'} />}
+                      right={props => <List.Icon {...props} icon="pencil" />}
+                      onPress={() => setStaffFormTarget(user)}
+                    />
+                  ))}
+                </>
+              )}
+            </Card.Content>
+          </Card>
+
+          {/* Security */}
+          {can('users.manage') && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Security
+                </Text>
+
+                <View style={styles.settingItem}>
+                  <View style={styles.settingInfo}>
+                    <MaterialIcons 
+                      name="lock" 
+                      size={24} 
+                      color={theme.colors.onSurface} 
+                    />
+                    <View style={styles.settingText}>
+                      <Text variant="bodyLarge">App Lock</Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        Require a PIN to open the app
+                      </Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={lockSettings.enabled}
+                    onValueChange={enabled => setPinSetupMode(enabled ? 'enable' : 'disable')}
+                  />
+                </View>
+
+                {lockSettings.enabled && (
+                  <>
+                    {biometricAvailable && (
+                      <View style={styles.settingItem}>
+                        <View style={styles.settingInfo}>
+                          <MaterialIcons 
+                            name="fingerprint" 
+                            size={24} 
+                            color={theme.colors.onSurface} 
+                          />
+                          <View style={styles.settingText}>
+                            <Text variant="bodyLarge">Unlock with Biometrics</Text>
+                            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                              Use fingerprint or face recognition instead of the PIN
+                            </Text>
+                          </View>
+                        </View>
+                        <Switch
+                          value={lockSettings.biometricEnabled}
+                          onValueChange={biometricEnabled => updateLockSettings({ biometricEnabled })}
+                        />
+                      </View>
+                    )}
+
+                    <Text variant="bodyLarge" style={styles.optionLabel}>
+                      Lock after inactivity
+                    </Text>
+                    <SegmentedButtons
+                      value={String(lockSettings.idleTimeoutMinutes)}
+                      onValueChange={value => updateLockSettings({ idleTimeoutMinutes: Number(value) })}
+                      buttons={IDLE_TIMEOUT_OPTIONS.map(minutes => ({
+                        value: String(minutes),
+                        label: `${minutes} min`,
+                      }))}
+                    />
+
+                    <List.Item
+                      title="Change PIN"
+                      left={props => <List.Icon {...props} icon="form-textbox-password" />}
+                      right={props => <List.Icon {...props} icon="chevron-right" />}
+                      onPress={() => setPinSetupMode('change')}
+                    />
+                    <List.Item
+                      title="Lock Now"
+                      left={props => <List.Icon {...props} icon="lock" />}
+                      onPress={lock}
+                    />
+                  </>
+                )}
+              </Card.Content>
+            </Card>
+          )}
+
           {/* Clinic Management */}
           <Card style={styles.card}>
             <Card.Content>
@@ -158,57 +491,149 @@ export default function SettingsScreen() {
             </Card.Content>
           </Card>
 
-          {/* Data Management */}
-          <Card style={styles.card}>
-            <Card.Content>
-              <Text variant="titleMedium" style={styles.sectionTitle}>
-                Data Management
-              </Text>
+          {/* Visit Templates */}
+          {can('visits.record') && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <View style={styles.sectionHeader}>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    Visit Templates
+                  </Text>
+                  <Button 
+                    mode="outlined" 
+                    compact 
+                    onPress={() => setTemplateFormTarget(true)}
+                    icon="plus"
+                    disabled={!activeClinic}
+                  >
+                    Add Template
+                  </Button>
+                </View>
 
-              <View style={styles.settingItem}>
-                <View style={styles.settingInfo}>
-                  <MaterialIcons 
-                    name="cloud-sync" 
-                    size={24} 
-                    color={theme.colors.onSurface} 
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  Prefill common visits at {activeClinic?.name ?? 'the active clinic'} in one tap
+                </Text>
+
+                {clinicTemplates.map(template => (
+                  <List.Item
+                    key={template.id}
+                    title={template.name}
+                    description={describeTemplate(template)}
+                    descriptionNumberOfLines={1}
+                    left={props => <List.Icon {...props} icon="text-box-outline" />}
+                    right={props => <List.Icon {...props} icon="pencil" />}
+                    onPress={() => setTemplateFormTarget(template)}
                   />
-                  <View style={styles.settingText}>
-                    <Text variant="bodyLarge">Google Drive Sync</Text>
-                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                      Backup and sync your data to Google Drive
-                    </Text>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+
+          {/* Data Management */}
+          {can('data.manage') && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Data Management
+                </Text>
+
+                <View style={styles.settingItem}>
+                  <View style={styles.settingInfo}>
+                    <MaterialIcons 
+                      name="cloud-sync" 
+                      size={24} 
+                      color={theme.colors.onSurface} 
+                    />
+                    <View style={styles.settingText}>
+                      <Text variant="bodyLarge">Sync</Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        {getSyncDescription()}
+                      </Text>
+                    </View>
                   </View>
+                  <Button 
+                    mode="contained" 
+                    onPress={handleSync}
+                    loading={syncing}
+                    disabled={syncing}
+                    icon="cloud-upload"
+                  >
+                    {syncing ? 'Syncing...' : 'Sync Now'}
+                  </Button>
                 </View>
-                <Button 
-                  mode="contained" 
-                  onPress={handleSync}
-                  loading={syncing}
-                  disabled={syncing}
-                  icon="cloud-upload"
-                >
-                  {syncing ? 'Syncing...' : 'Sync Now'}
-                </Button>
-              </View>
 
-              <Divider style={styles.divider} />
+                {syncStatus && syncStatus.conflicts > 0 && (
+                  <List.Item
+                    title="Review Conflicts"
+                    description={`${syncStatus.conflicts} record(s) edited on two devices need a decision`}
+                    left={props => <List.Icon {...props} icon="call-split" color={theme.colors.error} />}
+                    right={props => <List.Icon {...props} icon="chevron-right" />}
+                    onPress={() => setShowConflicts(true)}
+                  />
+                )}
 
-              <List.Item
-                title="Export Data"
-                description="Export all your clinic data to a file"
-                left={props => <List.Icon {...props} icon="download" />}
-                right={props => <List.Icon {...props} icon="chevron-right" />}
-                onPress={() => showWebAlert('Export Data', 'Data export feature will be implemented soon.')}
-              />
+                <Divider style={styles.divider} />
 
-              <List.Item
-                title="Import Data"
-                description="Import data from a backup file"
-                left={props => <List.Icon {...props} icon="upload" />}
-                right={props => <List.Icon {...props} icon="chevron-right" />}
-                onPress={() => showWebAlert('Import Data', 'Data import feature will be implemented soon.')}
-              />
-            </Card.Content>
-          </Card>
+                <List.Item
+                  title="Export Data"
+                  description="Export your clinic data as JSON or CSV files"
+                  left={props => <List.Icon {...props} icon="download" />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={() => setShowExport(true)}
+                />
+
+                <List.Item
+                  title="Import Data"
+                  description="Import a JSON export or a CSV of patients"
+                  left={props => <List.Icon {...props} icon="upload" />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={handlePickImportFile}
+                />
+
+                <Divider style={styles.divider} />
+
+                <View style={styles.settingItem}>
+                  <View style={styles.settingInfo}>
+                    <MaterialIcons 
+                      name="backup" 
+                      size={24} 
+                      color={theme.colors.onSurface} 
+                    />
+                    <View style={styles.settingText}>
+                      <Text variant="bodyLarge">Automatic Backups</Text>
+                      <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                        Save a daily snapshot of all data on this device
+                      </Text>
+                    </View>
+                  </View>
+                  <Switch
+                    value={backupSettings.enabled}
+                    onValueChange={enabled => updateBackupSettings({ enabled })}
+                  />
+                </View>
+
+                <Text variant="bodyLarge" style={styles.optionLabel}>
+                  Backups to keep of each kind
+                </Text>
+                <SegmentedButtons
+                  value={String(backupSettings.retentionCount)}
+                  onValueChange={value => updateBackupSettings({ retentionCount: Number(value) })}
+                  buttons={BACKUP_RETENTION_OPTIONS.map(count => ({
+                    value: String(count),
+                    label: String(count),
+                  }))}
+                />
+
+                <List.Item
+                  title="Restore from Backup"
+                  description="View backups, back up now or restore a snapshot"
+                  left={props => <List.Icon {...props} icon="backup-restore" />}
+                  right={props => <List.Icon {...props} icon="chevron-right" />}
+                  onPress={() => setShowBackups(true)}
+                />
+              </Card.Content>
+            </Card>
+          )}
 
           {/* App Information */}
           <Card style={styles.card}>
@@ -261,6 +686,104 @@ export default function SettingsScreen() {
         </ScrollView>
       </SafeAreaView>
 
+      <ConfirmDialog
+        visible={showExport}
+        title="Export Data"
+        message="JSON keeps everything in one file that can be imported again. CSV writes one file per record type for spreadsheets."
+        confirmLabel="Export"
+        loading={exporting}
+        onConfirm={handleExport}
+        onCancel={() => setShowExport(false)}
+      >
+        <SegmentedButtons
+          value={exportFormat}
+          onValueChange={value => setExportFormat(value as ExportFileFormat)}
+          buttons={[
+            { value: 'json', label: 'JSON' },
+            { value: 'csv', label: 'CSV' },
+          ]}
+          style={styles.exportFormat}
+        />
+        <Checkbox.Item
+          label={`Only ${activeClinic?.name ?? 'the active clinic'}`}
+          status={exportActiveClinicOnly ? 'checked' : 'unchecked'}
+          onPress={() => setExportActiveClinicOnly(!exportActiveClinicOnly)}
+          style={styles.checkboxItem}
+        />
+      </ConfirmDialog>
+
+      {/* PIN Setup Modal */}
+      <Modal visible={pinSetupMode !== null} animationType="slide" presentationStyle="pageSheet">
+        {pinSetupMode && (
+          <PinSetupModal
+            mode={pinSetupMode}
+            onClose={() => setPinSetupMode(null)}
+            onDone={handlePinSetupDone}
+          />
+        )}
+      </Modal>
+
+      {/* Switch User Modal */}
+      <Modal visible={showUserSwitch} animationType="slide" presentationStyle="pageSheet">
+        <UserSwitchModal
+          onClose={() => setShowUserSwitch(false)}
+          onSwitched={user => {
+            setShowUserSwitch(false);
+            showWebAlert('User Switched', `Now signed in as ${user.name}.`);
+          }}
+        />
+      </Modal>
+
+      {/* Staff User Modal */}
+      <Modal visible={staffFormTarget !== null} animationType="slide" presentationStyle="pageSheet">
+        {staffFormTarget !== null && (
+          <StaffUserForm
+            user={staffFormTarget === true ? undefined : staffFormTarget}
+            onClose={() => setStaffFormTarget(null)}
+            onSave={() => setStaffFormTarget(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Visit Template Modal */}
+      <Modal visible={templateFormTarget !== null} animationType="slide" presentationStyle="pageSheet">
+        {templateFormTarget !== null && (
+          <VisitTemplateForm
+            template={templateFormTarget === true ? undefined : templateFormTarget}
+            onClose={() => setTemplateFormTarget(null)}
+            onSave={() => setTemplateFormTarget(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Import Preview Modal */}
+      <Modal visible={importPreview !== null} animationType="slide" presentationStyle="pageSheet">
+        {importPreview && (
+          <ImportPreviewModal
+            preview={importPreview}
+            importing={importing}
+            onCancel={() => setImportPreview(null)}
+            onConfirm={handleImport}
+          />
+        )}
+      </Modal>
+
+      {/* Backups Modal */}
+      <Modal visible={showBackups} animationType="slide" presentationStyle="pageSheet">
+        <BackupRestoreModal
+          onClose={() => setShowBackups(false)}
+          onRestored={handleRestored}
+        />
+      </Modal>
+
+      {/* Sync Conflicts Modal */}
+      <Modal visible={showConflicts} animationType="slide" presentationStyle="pageSheet">
+        <ConflictReviewModal
+          onClose={() => setShowConflicts(false)}
+          onResolved={handleConflictResolved}
+        />
+      </Modal>
+
       {/* Add Clinic Modal */}
       <Modal visible={showAddClinic} animationType="slide" presentationStyle="pageSheet">
         <ClinicForm 
@@ -366,6 +889,17 @@ const styles = StyleSheet.create({
   divider: {
     marginVertical: 12,
   },
+  exportFormat: {
+    marginBottom: 8,
+  },
+  optionLabel: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+    marginBottom: 12,
+  },
   footer: {
     paddingVertical: 24,
     paddingHorizontal: 16,
@@ -6,22 +6,36 @@ import { StatusBar } from 'expo-status-bar';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { DataProvider } from '@/contexts/DataContext';
 import { ClinicProvider } from '@/contexts/ClinicContext';
+import { UserProvider } from '@/contexts/UserContext';
+import { AppLockProvider } from '@/contexts/AppLockContext';
+import { AppLockGate } from '@/components/AppLockGate';
+import { StorageGate } from '@/components/StorageGate';
+import { UndoSnackbar } from '@/components/UndoSnackbar';
 
 export default function RootLayout() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
         <ThemeProvider>
-          <ClinicProvider>
-            <DataProvider>
-              <PaperProvider>
-                <StatusBar style="auto" />
-                <Stack screenOptions={{ headerShown: false }}>
-                  <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-                </Stack>
-              </PaperProvider>
-            </DataProvider>
-          </ClinicProvider>
+          <AppLockProvider>
+            <AppLockGate>
+              <StorageGate>
+                <ClinicProvider>
+                  <UserProvider>
+                    <DataProvider>
+                      <PaperProvider>
+                        <StatusBar style="auto" />
+                        <Stack screenOptions={{ headerShown: false }}>
+                          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                        </Stack>
+                        <UndoSnackbar />
+                      </PaperProvider>
+                    </DataProvider>
+                  </UserProvider>
+                </ClinicProvider>
+              </StorageGate>
+            </AppLockGate>
+          </AppLockProvider>
         </ThemeProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, IconButton, SegmentedButtons } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { Allergy, AllergySeverity } from '@/types';
+import { generateId } from '@/utils/ids';
+import { ALLERGY_SEVERITY_LABELS } from '@/utils/medicalLists';
+
+interface AllergyListEditorProps {
+  value: Allergy[];
+  onChange: (allergies: Allergy[]) => void;
+}
+
+// 'unknown' is not offered; it only appears on allergies migrated from free text.
+const SEVERITY_OPTIONS: AllergySeverity[] = ['mild', 'moderate', 'severe'];
+
+export function AllergyListEditor({ value, onChange }: AllergyListEditorProps) {
+  const { theme } = useTheme();
+
+  const updateAllergy = (id: string, updates: Partial<Allergy>) => {
+    onChange(value.map(allergy => (allergy.id === id ? { ...allergy, ...updates } : allergy)));
+  };
+
+  const addAllergy = () => {
+    onChange([...value, { id: generateId(), substance: '', reaction: '', severity: 'moderate' }]);
+  };
+
+  return (
+    <View>
+      {value.map(allergy => (
+        <View key={allergy.id} style={[styles.entry, { borderColor: theme.colors.outlineVariant }]}>
+          <View style={styles.entryHeader}>
+            <TextInput
+              label="Substance *"
+              value={allergy.substance}
+              onChangeText={(text) => updateAllergy(allergy.id, { substance: text })}
+              style={styles.substanceInput}
+              mode="outlined"
+              dense
+            />
+            <IconButton
+              icon="close"
+              onPress={() => onChange(value.filter(other => other.id !== allergy.id))}
+              accessibilityLabel="Remove allergy"
+            />
+          </View>
+          <TextInput
+            label="Reaction"
+            value={allergy.reaction}
+            onChangeText={(text) => updateAllergy(allergy.id, { reaction: text })}
+            style={styles.input}
+            mode="outlined"
+            dense
+            placeholder="e.g. rash, anaphylaxis"
+          />
+          <Text variant="labelMedium" style={styles.label}>
+            Severity
+          </Text>
+          <SegmentedButtons
+            value={allergy.severity}
+            onValueChange={(severity) => updateAllergy(allergy.id, { severity: severity as AllergySeverity })}
+            buttons={SEVERITY_OPTIONS.map(severity => ({ value: severity, label: ALLERGY_SEVERITY_LABELS[severity] }))}
+            density="small"
+          />
+        </View>
+      ))}
+
+      {value.length === 0 && (
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          No known allergies
+        </Text>
+      )}
+
+      <Button mode="outlined" icon="plus" onPress={addAllergy} style={styles.addButton}>
+        Add Allergy
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  substanceInput: {
+    flex: 1,
+  },
+  input: {
+    marginTop: 8,
+  },
+  label: {
+    marginTop: 12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  addButton: {
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,59 @@
+import React, { useState, useEffect, ReactNode } from 'react';
+import { View, StyleSheet, Modal } from 'react-native';
+import { ActivityIndicator } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useAppLock } from '@/hooks/useAppLock';
+import { LockScreen } from './LockScreen';
+
+interface AppLockGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Requires unlocking before the app is shown. Until the first unlock nothing
+ * behind the gate is mounted, so no data is even loaded; later locks cover
+ * the app without unmounting it, keeping unsaved work in open forms.
+ */
+export function AppLockGate({ children }: AppLockGateProps) {
+  const { theme } = useTheme();
+  const { loading, locked, recordActivity } = useAppLock();
+  const [unlockedOnce, setUnlockedOnce] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !locked) {
+      setUnlockedOnce(true);
+    }
+  }, [loading, locked]);
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  if (!unlockedOnce && locked) {
+    return <LockScreen />;
+  }
+
+  return (
+    <View style={styles.container} onTouchStart={recordActivity}>
+      {children}
+      <Modal visible={locked} animationType="fade" onRequestClose={() => {}}>
+        <LockScreen />
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
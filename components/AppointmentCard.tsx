@@ -1,9 +1,10 @@
-import React, { useState, Platform } from 'react';
-import { View, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { Card, Text, Button, IconButton } from 'react-native-paper';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
+import { useUser } from '@/hooks/useUser';
 import { Appointment } from '@/types';
 import { TouchableOpacity } from 'react-native';
 
@@ -15,6 +16,8 @@ interface AppointmentCardProps {
 export function AppointmentCard({ appointment, showReschedule = false }: AppointmentCardProps) {
   const { theme } = useTheme();
   const { updateAppointment } = useData();
+  const { can } = useUser();
+  const canManage = can('appointments.manage');
   const [alertConfig, setAlertConfig] = useState<{
     visible: boolean;
     title: string;
@@ -47,8 +50,12 @@ export function AppointmentCard({ appointment, showReschedule = false }: Appoint
   };
 
   const handleMarkCompleted = async () => {
-    await updateAppointment(appointment.id, { status: 'completed' });
-    showWebAlert('Success', 'Appointment marked as completed');
+    try {
+      // The undo snackbar confirms the change.
+      await updateAppointment(appointment.id, { status: 'completed' });
+    } catch (error) {
+      showWebAlert('Error', 'Failed to update appointment');
+    }
   };
 
   const getStatusColor = () => {
@@ -97,26 +104,30 @@ export function AppointmentCard({ appointment, showReschedule = false }: Appoint
           <View style={styles.actions}>
             {appointment.status === 'scheduled' && (
               <>
-                <Button 
-                  mode="outlined" 
-                  compact 
-                  onPress={handleAddVisit}
-                  icon="medical-bag"
-                >
-                  Add Visit
-                </Button>
-                <Button 
-                  mode="contained" 
-                  compact 
-                  onPress={handleMarkCompleted}
-                  icon="check"
-                >
-                  Complete
-                </Button>
+                {can('visits.record') && (
+                  <Button 
+                    mode="outlined" 
+                    compact 
+                    onPress={handleAddVisit}
+                    icon="medical-bag"
+                  >
+                    Add Visit
+                  </Button>
+                )}
+                {canManage && (
+                  <Button 
+                    mode="contained" 
+                    compact 
+                    onPress={handleMarkCompleted}
+                    icon="check"
+                  >
+                    Complete
+                  </Button>
+                )}
               </>
             )}
             
-            {(showReschedule || appointment.status === 'failed') && (
+            {canManage && (showReschedule || appointment.status === 'failed') && (
               <Button 
                 mode="outlined" 
                 compact 
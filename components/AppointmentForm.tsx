@@ -1,5 +1,5 @@
-import React, { useState, useMemo, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -14,6 +14,7 @@ import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
 import { Appointment, Patient } from '@/types';
+import { formatAge } from '@/utils/age';
 import { TouchableOpacity } from 'react-native';
 
 interface AppointmentFormProps {
@@ -55,7 +56,7 @@ export function AppointmentForm({ appointment, initialDate, onClose, onSave }: A
   };
 
   const clinicPatients = useMemo(() => {
-    return patients.filter(patient => patient.clinicId === activeClinic?.id);
+    return patients.filter(patient => patient.clinicId === activeClinic?.id && !patient.archivedAt);
   }, [patients, activeClinic]);
 
   const filteredPatients = useMemo(() => {
@@ -146,7 +147,7 @@ export function AppointmentForm({ appointment, initialDate, onClose, onSave }: A
                           {selectedPatient.name}
                         </Text>
                         <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
-                          {selectedPatient.age} years • {selectedPatient.sex}
+                          {formatAge(selectedPatient)} • {selectedPatient.sex}
                         </Text>
                         <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
                           {selectedPatient.phoneNumber}
@@ -186,7 +187,7 @@ export function AppointmentForm({ appointment, initialDate, onClose, onSave }: A
                             <Card.Content>
                               <Text variant="titleMedium">{patient.name}</Text>
                               <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
-                                {patient.age} years • {patient.sex} • {patient.phoneNumber}
+                                {formatAge(patient)} • {patient.sex} • {patient.phoneNumber}
                               </Text>
                             </Card.Content>
                           </Card>
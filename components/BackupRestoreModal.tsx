@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Appbar, ActivityIndicator, Button, Chip } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useData } from '@/hooks/useData';
+import { listBackups, createBackup, planRestore, BackupSummary, BackupTrigger } from '@/services/backup';
+import { RecordChange } from '@/services/database';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface BackupRestoreModalProps {
+  onClose: () => void;
+  // Called with the changes applied to storage after a restore.
+  onRestored: (changes: RecordChange[]) => void;
+}
+
+const TRIGGER_LABELS: Record<BackupTrigger, string> = {
+  automatic: 'Automatic',
+  manual: 'Manual',
+  beforeRestore: 'Before restore',
+};
+
+// "12 patients • 30 visits • ..." for the collections shown to users.
+function describeCounts(backup: BackupSummary) {
+  const { patients, visits, appointments, incomeRecords, expenseRecords, clinics } = backup.recordCounts;
+  return [
+    `${patients} patients`,
+    `${visits} visits`,
+    `${appointments} appointments`,
+    `${(incomeRecords ?? 0) + (expenseRecords ?? 0)} financial records`,
+    `${clinics} clinics`,
+  ].join(' • ');
+}
+
+export function BackupRestoreModal({ onClose, onRestored }: BackupRestoreModalProps) {
+  const { theme } = useTheme();
+  const { importData } = useData();
+  const [backups, setBackups] = useState<BackupSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [backingUp, setBackingUp] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<BackupSummary | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+  }>({ visible: false, title: '', message: '' });
+
+  const showWebAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      setAlertConfig({ visible: true, title, message });
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  useEffect(() => {
+    refreshBackups();
+  }, []);
+
+  const refreshBackups = async () => {
+    try {
+      setBackups(await listBackups());
+    } catch (error) {
+      console.error('Error loading backups:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    setBackingUp(true);
+    try {
+      await createBackup('manual');
+      await refreshBackups();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Backup Failed', `Failed to create a backup. ${reason}`);
+    } finally {
+      setBackingUp(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setRestoring(true);
+    try {
+      const changes = await planRestore(restoreTarget.fileUri);
+      // The chosen backup is kept even if it is the oldest of its kind.
+      await createBackup('beforeRestore', restoreTarget.fileUri);
+      await importData(changes);
+      setRestoreTarget(null);
+      onRestored(changes);
+    } catch (error) {
+      setRestoreTarget(null);
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Restore Failed', `No data was changed. ${reason}`);
+    } finally {
+      setRestoring(false);
+      refreshBackups();
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={onClose} />
+        <Appbar.Content title="Backups" subtitle="Stored on this device" />
+        <Appbar.Action icon="content-save" onPress={handleBackUpNow} disabled={backingUp || restoring} />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {backingUp && <ActivityIndicator style={styles.progress} />}
+
+          {backups.length > 0 ? (
+            backups.map(backup => (
+              <Card key={backup.fileUri} style={styles.card}>
+                <Card.Content>
+                  <View style={styles.backupHeader}>
+                    <Text variant="titleMedium" style={styles.backupDate}>
+                      {new Date(backup.createdAt).toLocaleString()}
+                    </Text>
+                    <Chip compact>{TRIGGER_LABELS[backup.trigger] ?? backup.trigger}</Chip>
+                  </View>
+                  <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                    {describeCounts(backup)}
+                  </Text>
+                </Card.Content>
+                <Card.Actions>
+                  <Button
+                    mode="outlined"
+                    icon="backup-restore"
+                    onPress={() => setRestoreTarget(backup)}
+                    disabled={restoring || backingUp}
+                  >
+                    Restore
+                  </Button>
+                </Card.Actions>
+              </Card>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>
+              No backups yet. Automatic backups are taken once a day.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+
+      <ConfirmDialog
+        visible={!!restoreTarget}
+        title="Restore Backup"
+        message={restoreTarget
+          ? `Replace all current data with the backup from ${new Date(restoreTarget.createdAt).toLocaleString()}? Records added since then will be removed. A backup of the current data is taken first.`
+          : ''}
+        confirmLabel="Restore"
+        destructive
+        loading={restoring}
+        onConfirm={handleRestore}
+        onCancel={() => setRestoreTarget(null)}
+      />
+
+      {Platform.OS === 'web' && (
+        <Modal visible={alertConfig.visible} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+              <Text variant="titleLarge" style={styles.modalTitle}>
+                {alertConfig.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.modalMessage}>
+                {alertConfig.message}
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => setAlertConfig(prev => ({ ...prev, visible: false }))}
+              >
+                <Text style={{ color: theme.colors.onPrimary, fontWeight: 'bold' }}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  progress: {
+    marginBottom: 12,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  backupHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  backupDate: {
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontStyle: 'italic',
+    opacity: 0.7,
+    padding: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  modalButton: {
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,94 @@
+import React, { ReactNode } from 'react';
+import { View, StyleSheet, Modal } from 'react-native';
+import { Text, Button } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+
+interface ConfirmDialogProps {
+  visible: boolean;
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  destructive?: boolean;
+  loading?: boolean;
+  // Keeps the confirm button disabled, e.g. until a required reason is given.
+  confirmDisabled?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  // Extra content shown between the message and the buttons, e.g. options.
+  children?: ReactNode;
+}
+
+export function ConfirmDialog({
+  visible,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  destructive = false,
+  loading = false,
+  confirmDisabled = false,
+  onConfirm,
+  onCancel,
+  children,
+}: ConfirmDialogProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <View style={styles.modalOverlay}>
+        <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+          <Text variant="titleLarge" style={styles.modalTitle}>
+            {title}
+          </Text>
+          <Text variant="bodyMedium" style={styles.modalMessage}>
+            {message}
+          </Text>
+
+          {children}
+
+          <View style={styles.buttonRow}>
+            <Button mode="text" onPress={onCancel} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={onConfirm}
+              loading={loading}
+              disabled={loading || confirmDisabled}
+              buttonColor={destructive ? theme.colors.error : undefined}
+              textColor={destructive ? theme.colors.onError : undefined}
+            >
+              {confirmLabel}
+            </Button>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+});
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Appbar, ActivityIndicator, Button, RadioButton, Chip } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useData } from '@/hooks/useData';
+import { loadSyncConflicts, SyncConflict, ConflictSide } from '@/services/sync';
+import { RECORD_DELETED_FIELD } from '@/services/syncMerge';
+import { RecordChange } from '@/services/database';
+import { formatFieldName, formatValue, describeRecord, COLLECTION_LABELS } from '@/utils/recordFields';
+
+interface ConflictReviewModalProps {
+  onClose: () => void;
+  // Called after each resolution with the change applied to storage.
+  onResolved: (change: RecordChange | null) => void;
+}
+
+function describeConflict(conflict: SyncConflict) {
+  const record = conflict.local ?? conflict.remote;
+  return record ? describeRecord(conflict.collection, record) : conflict.recordId;
+}
+
+function formatSide(conflict: SyncConflict, side: ConflictSide, field: string) {
+  const record = conflict[side] as Record<string, unknown> | null;
+  if (field === RECORD_DELETED_FIELD) {
+    return record ? 'Edited' : 'Deleted';
+  }
+  return formatValue(record?.[field]);
+}
+
+export function ConflictReviewModal({ onClose, onResolved }: ConflictReviewModalProps) {
+  const { theme } = useTheme();
+  const { resolveConflict } = useData();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictSide>>>({});
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [alertConfig, setAlertConfig] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+  }>({ visible: false, title: '', message: '' });
+
+  const showWebAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      setAlertConfig({ visible: true, title, message });
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  useEffect(() => {
+    const loadConflicts = async () => {
+      try {
+        setConflicts(await loadSyncConflicts());
+      } catch (error) {
+        console.error('Error loading conflicts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConflicts();
+  }, []);
+
+  const getChoice = (conflictId: string, field: string): ConflictSide => {
+    return choices[conflictId]?.[field] ?? 'local';
+  };
+
+  const setChoice = (conflictId: string, field: string, side: ConflictSide) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolvingId(conflict.id);
+    try {
+      const change = await resolveConflict(conflict.id, choices[conflict.id] ?? {});
+      setConflicts(prev => prev.filter(c => c.id !== conflict.id));
+      onResolved(change);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      showWebAlert('Error', `Failed to resolve conflict. ${reason}`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={onClose} />
+        <Appbar.Content title="Sync Conflicts" subtitle="Choose which version to keep" />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {conflicts.length > 0 ? (
+            conflicts.map(conflict => (
+              <Card key={conflict.id} style={styles.card}>
+                <Card.Content>
+                  <View style={styles.conflictHeader}>
+                    <Chip compact>{COLLECTION_LABELS[conflict.collection]}</Chip>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {new Date(conflict.detectedAt).toLocaleString()}
+                    </Text>
+                  </View>
+                  <Text variant="titleMedium" style={styles.recordTitle}>
+                    {describeConflict(conflict)}
+                  </Text>
+
+                  {conflict.fields.map(field => (
+                    <View key={field} style={styles.field}>
+                      <Text variant="labelMedium" style={styles.fieldName}>
+                        {field === RECORD_DELETED_FIELD ? 'Record' : formatFieldName(field)}
+                      </Text>
+                      <RadioButton.Group
+                        value={getChoice(conflict.id, field)}
+                        onValueChange={value => setChoice(conflict.id, field, value as ConflictSide)}
+                      >
+                        <RadioButton.Item
+                          label={`This device: ${formatSide(conflict, 'local', field)}`}
+                          value="local"
+                          style={styles.option}
+                        />
+                        <RadioButton.Item
+                          label={`Other device: ${formatSide(conflict, 'remote', field)}`}
+                          value="remote"
+                          style={styles.option}
+                        />
+                      </RadioButton.Group>
+                    </View>
+                  ))}
+                </Card.Content>
+                <Card.Actions>
+                  <Button
+                    mode="contained"
+                    onPress={() => handleResolve(conflict)}
+                    loading={resolvingId === conflict.id}
+                    disabled={resolvingId !== null}
+                  >
+                    Keep Selected
+                  </Button>
+                </Card.Actions>
+              </Card>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>
+              No conflicts to review
+            </Text>
+          )}
+        </ScrollView>
+      )}
+
+      {Platform.OS === 'web' && (
+        <Modal visible={alertConfig.visible} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+              <Text variant="titleLarge" style={styles.modalTitle}>
+                {alertConfig.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.modalMessage}>
+                {alertConfig.message}
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => setAlertConfig(prev => ({ ...prev, visible: false }))}
+              >
+                <Text style={{ color: theme.colors.onPrimary, fontWeight: 'bold' }}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  recordTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  field: {
+    marginBottom: 8,
+  },
+  fieldName: {
+    fontWeight: 'bold',
+  },
+  option: {
+    paddingVertical: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontStyle: 'italic',
+    opacity: 0.7,
+    padding: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  modalButton: {
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { TextInput, Button } from 'react-native-paper';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { toDateString } from '@/utils/age';
+
+interface DatePickerFieldProps {
+  label: string;
+  // YYYY-MM-DD, or empty when no date is chosen.
+  value: string;
+  onChange: (value: string) => void;
+  maximumDate?: Date;
+  minimumDate?: Date;
+  style?: object;
+}
+
+function parseValue(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * A text field that opens the native date picker. The native picker is not
+ * available on web, where the date is typed as YYYY-MM-DD instead.
+ */
+export function DatePickerField({ label, value, onChange, maximumDate, minimumDate, style }: DatePickerFieldProps) {
+  const [showPicker, setShowPicker] = useState(false);
+
+  if (Platform.OS === 'web') {
+    return (
+      <TextInput
+        label={label}
+        value={value}
+        onChangeText={onChange}
+        style={style}
+        mode="outlined"
+        placeholder="YYYY-MM-DD"
+      />
+    );
+  }
+
+  const handleChange = (event: DateTimePickerEvent, date?: Date) => {
+    // Android shows a dialog that closes itself; iOS keeps the spinner open until Done.
+    if (Platform.OS === 'android') setShowPicker(false);
+    if (event.type === 'set' && date) onChange(toDateString(date));
+  };
+
+  return (
+    <View style={style}>
+      <TextInput
+        label={label}
+        value={value}
+        mode="outlined"
+        editable={false}
+        placeholder="Select a date"
+        right={<TextInput.Icon icon="calendar" onPress={() => setShowPicker(true)} />}
+        onPressIn={() => setShowPicker(true)}
+      />
+      {showPicker && (
+        <>
+          <DateTimePicker
+            value={value ? parseValue(value) : maximumDate ?? new Date()}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            maximumDate={maximumDate}
+            minimumDate={minimumDate}
+            onChange={handleChange}
+          />
+          {Platform.OS === 'ios' && (
+            <Button mode="text" onPress={() => setShowPicker(false)} style={styles.doneButton}>
+              Done
+            </Button>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  doneButton: {
+    alignSelf: 'flex-end',
+  },
+});
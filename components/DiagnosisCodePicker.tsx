@@ -0,0 +1,140 @@
+import React, { useState, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Chip, List } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { DiagnosisCode } from '@/types';
+import { searchIcd10, formatDiagnosisCode } from '@/utils/icd10';
+
+interface DiagnosisCodePickerProps {
+  value: DiagnosisCode[];
+  onChange: (codes: DiagnosisCode[]) => void;
+  // Free-text diagnosis to suggest codes from while the search is empty.
+  suggestFrom?: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+function suggestCodes(text: string) {
+  const suggestions: DiagnosisCode[] = [];
+  text
+    .split(/[,;\n]/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .forEach(part => {
+      searchIcd10(part, 3).forEach(match => {
+        if (!suggestions.some(other => other.code === match.code)) suggestions.push(match);
+      });
+    });
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Selected ICD-10 codes as chips, with a search of the bundled catalogue
+ * by code or keyword to add more.
+ */
+export function DiagnosisCodePicker({ value, onChange, suggestFrom = '' }: DiagnosisCodePickerProps) {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+
+  const searching = query.trim() !== '';
+  const matches = useMemo(
+    () => (searching ? searchIcd10(query) : suggestCodes(suggestFrom)),
+    [query, searching, suggestFrom]
+  );
+  const results = matches.filter(match => !value.some(selected => selected.code === match.code));
+
+  const addCode = (code: DiagnosisCode) => {
+    onChange([...value, code]);
+    setQuery('');
+  };
+
+  return (
+    <View style={styles.container}>
+      {value.length > 0 && (
+        <View style={styles.chips}>
+          {value.map(selected => (
+            <Chip
+              key={selected.code}
+              onClose={() => onChange(value.filter(other => other.code !== selected.code))}
+              style={styles.chip}
+              textStyle={styles.chipText}
+            >
+              {formatDiagnosisCode(selected)}
+            </Chip>
+          ))}
+        </View>
+      )}
+
+      <TextInput
+        label="Add ICD-10 Code"
+        value={query}
+        onChangeText={setQuery}
+        mode="outlined"
+        dense
+        placeholder="Search by code or keyword, e.g. I10 or asthma"
+        left={<TextInput.Icon icon="magnify" />}
+        autoCapitalize="none"
+      />
+
+      {results.length > 0 && (
+        <View style={[styles.results, { borderColor: theme.colors.outlineVariant }]}>
+          {!searching && (
+            <Text variant="labelSmall" style={[styles.resultsHeading, { color: theme.colors.onSurfaceVariant }]}>
+              Suggested from diagnosis
+            </Text>
+          )}
+          {results.map(result => (
+            <List.Item
+              key={result.code}
+              title={result.title}
+              description={result.code}
+              titleNumberOfLines={2}
+              onPress={() => addCode(result)}
+              right={props => <List.Icon {...props} icon="plus" />}
+              style={styles.result}
+            />
+          ))}
+        </View>
+      )}
+
+      {searching && matches.length === 0 && (
+        <Text variant="bodySmall" style={[styles.noResults, { color: theme.colors.onSurfaceVariant }]}>
+          No matching codes. Describe the diagnosis in the free-text field instead.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    maxWidth: '100%',
+  },
+  chipText: {
+    flexShrink: 1,
+  },
+  results: {
+    borderWidth: 1,
+    borderRadius: 4,
+    marginTop: 4,
+  },
+  resultsHeading: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  result: {
+    paddingVertical: 2,
+  },
+  noResults: {
+    marginTop: 4,
+  },
+});
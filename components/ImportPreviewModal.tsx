@@ -0,0 +1,203 @@
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Appbar, Button, Checkbox, List, Divider } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { ImportPreview } from '@/services/import';
+import { COLLECTIONS } from '@/services/database';
+import { COLLECTION_LABELS, describeRecord } from '@/utils/recordFields';
+
+interface ImportPreviewModalProps {
+  preview: ImportPreview;
+  importing: boolean;
+  onCancel: () => void;
+  onConfirm: (includeDuplicates: boolean) => void;
+}
+
+// Long files would make the lists unusable; the counts still cover every row.
+const MAX_LISTED_ROWS = 50;
+
+export function ImportPreviewModal({ preview, importing, onCancel, onConfirm }: ImportPreviewModalProps) {
+  const { theme } = useTheme();
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const duplicates = useMemo(() => preview.rows.filter(row => row.duplicate), [preview]);
+
+  const counts = useMemo(() => {
+    return COLLECTIONS
+      .map(collection => ({
+        collection,
+        count: preview.rows.filter(row => row.collection === collection && (includeDuplicates || !row.duplicate)).length,
+      }))
+      .filter(item => item.count > 0);
+  }, [preview, includeDuplicates]);
+
+  const total = counts.reduce((sum, item) => sum + item.count, 0);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={onCancel} />
+        <Appbar.Content title="Import Preview" subtitle={preview.fileName} />
+      </Appbar.Header>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              {preview.source === 'bundle' ? 'Clinic Manager export' : 'Patient list (CSV)'}
+            </Text>
+            {counts.length > 0 ? (
+              counts.map(item => (
+                <View key={item.collection} style={styles.countRow}>
+                  <Text variant="bodyMedium">{COLLECTION_LABELS[item.collection]} records</Text>
+                  <Text variant="bodyMedium" style={styles.count}>{item.count}</Text>
+                </View>
+              ))
+            ) : (
+              <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                Nothing new to import
+              </Text>
+            )}
+            {preview.unchanged > 0 && (
+              <Text variant="bodySmall" style={[styles.note, { color: theme.colors.onSurfaceVariant }]}>
+                {preview.unchanged} record(s) are already stored and will be skipped.
+              </Text>
+            )}
+            {preview.source === 'patientCsv' && (
+              <Text variant="bodySmall" style={[styles.note, { color: theme.colors.onSurfaceVariant }]}>
+                Patients are added to the active clinic.
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        {duplicates.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Possible Duplicates ({duplicates.length})
+              </Text>
+              {duplicates.slice(0, MAX_LISTED_ROWS).map(row => (
+                <List.Item
+                  key={`${row.collection}-${row.row}`}
+                  title={`${COLLECTION_LABELS[row.collection]} row ${row.row}: ${describeRecord(row.collection, row.record)}`}
+                  description={row.duplicate!.reason}
+                  titleNumberOfLines={2}
+                  left={props => <List.Icon {...props} icon="content-copy" />}
+                  style={styles.listItem}
+                />
+              ))}
+              {duplicates.length > MAX_LISTED_ROWS && (
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  and {duplicates.length - MAX_LISTED_ROWS} more
+                </Text>
+              )}
+              <Divider style={styles.divider} />
+              <Checkbox.Item
+                label="Import duplicates anyway"
+                status={includeDuplicates ? 'checked' : 'unchecked'}
+                onPress={() => setIncludeDuplicates(!includeDuplicates)}
+                style={styles.checkboxItem}
+              />
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                {includeDuplicates
+                  ? 'Records with a matching id replace the stored version; other duplicates are added as new records.'
+                  : 'Duplicates are skipped. Visits and appointments of a skipped patient are added to the matching existing patient.'}
+              </Text>
+            </Card.Content>
+          </Card>
+        )}
+
+        {preview.errors.length > 0 && (
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={[styles.sectionTitle, { color: theme.colors.error }]}>
+                Rows With Errors ({preview.errors.length})
+              </Text>
+              <Text variant="bodySmall" style={[styles.note, { color: theme.colors.onSurfaceVariant }]}>
+                These rows will not be imported.
+              </Text>
+              {preview.errors.slice(0, MAX_LISTED_ROWS).map((issue, index) => (
+                <List.Item
+                  key={`${issue.collection}-${issue.row}-${index}`}
+                  title={`${COLLECTION_LABELS[issue.collection]} row ${issue.row}`}
+                  description={issue.message}
+                  descriptionNumberOfLines={3}
+                  left={props => <List.Icon {...props} icon="alert-circle" color={theme.colors.error} />}
+                  style={styles.listItem}
+                />
+              ))}
+              {preview.errors.length > MAX_LISTED_ROWS && (
+                <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                  and {preview.errors.length - MAX_LISTED_ROWS} more
+                </Text>
+              )}
+            </Card.Content>
+          </Card>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <Button mode="outlined" onPress={onCancel} style={styles.button} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            mode="contained"
+            onPress={() => onConfirm(includeDuplicates)}
+            style={styles.button}
+            loading={importing}
+            disabled={importing || total === 0}
+          >
+            Import {total > 0 ? total : ''}
+          </Button>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  count: {
+    fontWeight: 'bold',
+  },
+  note: {
+    marginTop: 8,
+  },
+  listItem: {
+    paddingHorizontal: 0,
+  },
+  divider: {
+    marginVertical: 8,
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 32,
+  },
+  button: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { InteractionSeverity } from '@/types';
+import { INTERACTION_SEVERITY_LABELS } from '@/utils/interactions';
+
+interface InteractionWarningsProps {
+  warnings: { severity: InteractionSeverity; message: string }[];
+}
+
+const SEVERITY_ICONS: Record<InteractionSeverity, keyof typeof MaterialIcons.glyphMap> = {
+  major: 'error',
+  moderate: 'warning',
+  minor: 'info',
+};
+
+/**
+ * Prescription warnings, one row each, coloured by severity.
+ */
+export function InteractionWarnings({ warnings }: InteractionWarningsProps) {
+  const { theme } = useTheme();
+
+  const colors: Record<InteractionSeverity, { background: string; text: string }> = {
+    major: { background: theme.colors.errorContainer, text: theme.colors.onErrorContainer },
+    moderate: { background: theme.colors.tertiaryContainer, text: theme.colors.onTertiaryContainer },
+    minor: { background: theme.colors.surfaceVariant, text: theme.colors.onSurfaceVariant },
+  };
+
+  return (
+    <View style={styles.container}>
+      {warnings.map(warning => (
+        <View
+          key={`${warning.severity}-${warning.message}`}
+          style={[styles.warning, { backgroundColor: colors[warning.severity].background }]}
+        >
+          <MaterialIcons
+            name={SEVERITY_ICONS[warning.severity]}
+            size={18}
+            color={colors[warning.severity].text}
+            style={styles.icon}
+          />
+          <Text variant="bodySmall" style={[styles.message, { color: colors[warning.severity].text }]}>
+            <Text variant="labelMedium" style={{ color: colors[warning.severity].text }}>
+              {INTERACTION_SEVERITY_LABELS[warning.severity]}:{' '}
+            </Text>
+            {warning.message}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderRadius: 8,
+    padding: 8,
+  },
+  icon: {
+    marginRight: 8,
+    marginTop: 1,
+  },
+  message: {
+    flex: 1,
+  },
+});
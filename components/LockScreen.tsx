@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Button } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { useAppLock } from '@/hooks/useAppLock';
+import { PinPad } from './PinPad';
+
+// 95 seconds -> "1:35"
+function formatRemaining(milliseconds: number) {
+  const seconds = Math.ceil(milliseconds / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function LockScreen() {
+  const { theme } = useTheme();
+  const { settings, biometricAvailable, lockedUntil, unlockWithPin, unlockWithBiometrics } = useAppLock();
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const canUseBiometrics = settings.biometricEnabled && biometricAvailable;
+  const lockoutRemaining = lockedUntil ? lockedUntil.getTime() - now : 0;
+  const lockedOut = lockoutRemaining > 0;
+
+  const promptedBiometrics = useRef(false);
+
+  // Offer biometrics once, as soon as the lock screen appears.
+  useEffect(() => {
+    if (canUseBiometrics && !promptedBiometrics.current) {
+      promptedBiometrics.current = true;
+      unlockWithBiometrics();
+    }
+  }, [canUseBiometrics, unlockWithBiometrics]);
+
+  // Tick while locked out so the countdown updates.
+  useEffect(() => {
+    if (!lockedOut) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedOut]);
+
+  const handleSubmit = async (pin: string) => {
+    setChecking(true);
+    try {
+      const result = await unlockWithPin(pin);
+      if (result.success) {
+        setError(null);
+      } else if (result.lockedUntil && result.lockedUntil.getTime() > Date.now()) {
+        setNow(Date.now());
+        setError(null);
+      } else {
+        setError(`Incorrect PIN. ${result.attemptsRemaining} attempt(s) left before a pause.`);
+      }
+    } catch (unlockError) {
+      console.error('Error checking PIN:', unlockError);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <View style={styles.content}>
+        <MaterialIcons name="lock" size={48} color={theme.colors.primary} style={styles.icon} />
+        <PinPad
+          title="Clinic Manager is Locked"
+          subtitle={lockedOut
+            ? `Too many incorrect attempts. Try again in ${formatRemaining(lockoutRemaining)}.`
+            : 'Enter your PIN to continue'}
+          error={error}
+          disabled={checking || lockedOut}
+          onSubmit={handleSubmit}
+        />
+        {canUseBiometrics && (
+          <Button
+            mode="text"
+            icon="fingerprint"
+            onPress={unlockWithBiometrics}
+            style={styles.biometricButton}
+          >
+            Use Biometrics
+          </Button>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  icon: {
+    marginBottom: 16,
+  },
+  biometricButton: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, IconButton } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { Medication } from '@/types';
+import { generateId } from '@/utils/ids';
+
+interface MedicationListEditorProps {
+  value: Medication[];
+  onChange: (medications: Medication[]) => void;
+}
+
+export function MedicationListEditor({ value, onChange }: MedicationListEditorProps) {
+  const { theme } = useTheme();
+
+  const updateMedication = (id: string, updates: Partial<Medication>) => {
+    onChange(value.map(medication => (medication.id === id ? { ...medication, ...updates } : medication)));
+  };
+
+  const addMedication = () => {
+    onChange([...value, { id: generateId(), name: '', dose: '', frequency: '' }]);
+  };
+
+  return (
+    <View>
+      {value.map(medication => (
+        <View key={medication.id} style={[styles.entry, { borderColor: theme.colors.outlineVariant }]}>
+          <View style={styles.row}>
+            <TextInput
+              label="Medication *"
+              value={medication.name}
+              onChangeText={(text) => updateMedication(medication.id, { name: text })}
+              style={styles.flexInput}
+              mode="outlined"
+              dense
+            />
+            <IconButton
+              icon="close"
+              onPress={() => onChange(value.filter(other => other.id !== medication.id))}
+              accessibilityLabel="Remove medication"
+            />
+          </View>
+          <View style={[styles.row, styles.detailsRow]}>
+            <TextInput
+              label="Dose"
+              value={medication.dose}
+              onChangeText={(text) => updateMedication(medication.id, { dose: text })}
+              style={[styles.flexInput, { marginRight: 8 }]}
+              mode="outlined"
+              dense
+              placeholder="e.g. 500 mg"
+            />
+            <TextInput
+              label="Frequency"
+              value={medication.frequency}
+              onChangeText={(text) => updateMedication(medication.id, { frequency: text })}
+              style={styles.flexInput}
+              mode="outlined"
+              dense
+              placeholder="e.g. twice daily"
+            />
+          </View>
+        </View>
+      ))}
+
+      {value.length === 0 && (
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          No current medications
+        </Text>
+      )}
+
+      <Button mode="outlined" icon="plus" onPress={addMedication} style={styles.addButton}>
+        Add Medication
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  detailsRow: {
+    marginTop: 8,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  emptyText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  addButton: {
+    marginBottom: 16,
+  },
+});
@@ -1,5 +1,5 @@
-import React, { useState, useMemo, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -8,14 +8,29 @@ import {
   Chip, 
   Divider,
   FAB,
-  Appbar 
+  Appbar,
+  Checkbox,
+  IconButton
 } from 'react-native-paper';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
+import { useUser } from '@/hooks/useUser';
+import { useClinic } from '@/hooks/useClinic';
 import { Patient, Visit } from '@/types';
+import { formatAge, getAgeInYears } from '@/utils/age';
+import { formatAllergy, formatMedication } from '@/utils/medicalLists';
+import { hasVitals } from '@/utils/vitals';
+import { sharePrescription } from '@/services/prescriptionPdf';
 import { PatientForm } from './PatientForm';
 import { VisitForm } from './VisitForm';
+import { ConfirmDialog } from './ConfirmDialog';
+import { RecordHistoryModal } from './RecordHistoryModal';
+import { PatientMergeModal } from './PatientMergeModal';
+import { UndoSnackbar } from './UndoSnackbar';
+import { VitalsSummary } from './VitalsSummary';
+import { VitalsTrendChart } from './VitalsTrendChart';
+import { VisitNotes } from './VisitNotes';
 import { TouchableOpacity } from 'react-native';
 
 interface PatientDetailsModalProps {
@@ -23,11 +38,31 @@ interface PatientDetailsModalProps {
   onClose: () => void;
 }
 
-export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalProps) {
+export function PatientDetailsModal({ patient: initialPatient, onClose }: PatientDetailsModalProps) {
   const { theme } = useTheme();
-  const { visits } = useData();
+  const { patients, visits, archivePatient, unarchivePatient, deletePatient, deleteVisit } = useData();
+  const { can, users } = useUser();
+  const { clinics } = useClinic();
+  const canViewClinical = can('clinical.view');
+  const canRecordVisits = can('visits.record');
   const [showEditForm, setShowEditForm] = useState(false);
   const [showAddVisitForm, setShowAddVisitForm] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteIncomeRecords, setDeleteIncomeRecords] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [editingVisit, setEditingVisit] = useState<Visit | null>(null);
+  const [visitToDelete, setVisitToDelete] = useState<Visit | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+  // Changes when another patient is merged into this one and this record is removed.
+  const [patientId, setPatientId] = useState(initialPatient.id);
+  const [historyTarget, setHistoryTarget] = useState<{
+    title: string;
+    entityType: 'patients' | 'visits';
+    entityId: string;
+  } | null>(null);
+
+  // Follow edits made while the modal is open.
+  const patient = patients.find(p => p.id === patientId) ?? initialPatient;
   const [alertConfig, setAlertConfig] = useState<{
     visible: boolean;
     title: string;
@@ -35,6 +70,9 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
     onOk?: () => void;
   }>({ visible: false, title: '', message: '' });
 
+  const allergies = patient.allergies ?? [];
+  const medications = patient.medications ?? [];
+
   const patientVisits = useMemo(() => {
     return visits
       .filter(visit => visit.patientId === patient.id)
@@ -62,19 +100,145 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
     setShowAddVisitForm(true);
   };
 
+  const handleToggleArchive = async () => {
+    try {
+      if (patient.archivedAt) {
+        await unarchivePatient(patient.id);
+        showWebAlert('Success', 'Patient restored to the active list');
+      } else {
+        await archivePatient(patient.id);
+        showWebAlert('Success', 'Patient archived. Their records are kept but hidden from lists and search.', onClose);
+      }
+    } catch (error) {
+      showWebAlert('Error', 'Failed to update patient');
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      await deletePatient(patient.id, { deleteIncomeRecords });
+      setShowDeleteConfirm(false);
+      onClose();
+    } catch (error) {
+      setShowDeleteConfirm(false);
+      showWebAlert('Error', 'Failed to delete patient');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  // Reprints show the clinic and prescriber of the visit, not the current ones.
+  const handlePrintPrescription = async (visit: Visit) => {
+    const clinic = clinics.find(candidate => candidate.id === visit.clinicId);
+    if (!clinic || !visit.prescription) return;
+
+    try {
+      await sharePrescription({
+        clinic,
+        patient,
+        items: visit.prescription,
+        date: visit.visitDate,
+        diagnosis: visit.diagnosis,
+        prescriber: users.find(user => user.id === visit.createdBy)?.name,
+      });
+    } catch (error) {
+      showWebAlert('Error', 'Failed to create the prescription');
+    }
+  };
+
+  const handleDeleteVisit = async () => {
+    if (!visitToDelete) return;
+
+    setDeleting(true);
+    try {
+      await deleteVisit(visitToDelete.id);
+      setVisitToDelete(null);
+    } catch (error) {
+      setVisitToDelete(null);
+      showWebAlert('Error', 'Failed to delete visit');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
   return (
     <>
       <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
         <Appbar.Header>
           <Appbar.BackAction onPress={onClose} />
           <Appbar.Content title="Patient Details" />
-          <Appbar.Action 
-            icon="pencil" 
-            onPress={() => setShowEditForm(true)} 
+          <Appbar.Action
+            icon="history"
+            onPress={() => setHistoryTarget({ title: patient.name, entityType: 'patients', entityId: patient.id })}
           />
+          {can('patients.edit') && (
+            <>
+              <Appbar.Action 
+                icon="pencil" 
+                onPress={() => setShowEditForm(true)} 
+              />
+              <Appbar.Action
+                icon={patient.archivedAt ? 'archive-arrow-up' : 'archive'}
+                onPress={handleToggleArchive}
+              />
+            </>
+          )}
+          {can('patients.delete') && (
+            <>
+              <Appbar.Action
+                icon="call-merge"
+                onPress={() => setShowMerge(true)}
+              />
+              <Appbar.Action
+                icon="delete"
+                onPress={() => {
+                  setDeleteIncomeRecords(false);
+                  setShowDeleteConfirm(true);
+                }}
+              />
+            </>
+          )}
         </Appbar.Header>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {patient.archivedAt && (
+            <Card style={[styles.card, { backgroundColor: theme.colors.surfaceVariant }]}>
+              <Card.Content style={styles.archivedBanner}>
+                <MaterialIcons name="archive" size={20} color={theme.colors.onSurfaceVariant} />
+                <Text variant="bodyMedium" style={[styles.infoText, { color: theme.colors.onSurfaceVariant }]}>
+                  Archived on {new Date(patient.archivedAt).toLocaleDateString()}
+                </Text>
+              </Card.Content>
+            </Card>
+          )}
+
+          {/* Allergies are shown first so they are seen before anything is prescribed. */}
+          {canViewClinical && allergies.length > 0 && (
+            <Card style={[styles.card, { backgroundColor: theme.colors.errorContainer }]}>
+              <Card.Content>
+                <View style={styles.allergyHeader}>
+                  <MaterialIcons name="warning" size={20} color={theme.colors.onErrorContainer} />
+                  <Text variant="titleMedium" style={[styles.allergyTitle, { color: theme.colors.onErrorContainer }]}>
+                    Allergies
+                  </Text>
+                </View>
+                {allergies.map(allergy => (
+                  <Text
+                    key={allergy.id}
+                    variant="bodyMedium"
+                    style={{
+                      color: theme.colors.onErrorContainer,
+                      fontWeight: allergy.severity === 'severe' ? 'bold' : 'normal',
+                    }}
+                  >
+                    • {formatAllergy(allergy)}
+                  </Text>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+
           {/* Patient Information */}
           <Card style={styles.card}>
             <Card.Content>
@@ -84,7 +248,7 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
                     {patient.name}
                   </Text>
                   <Text variant="bodyLarge" style={{ color: theme.colors.onSurfaceVariant }}>
-                    {patient.age} years • {patient.sex}
+                    {formatAge(patient)} • {patient.sex}
                   </Text>
                 </View>
                 <View style={styles.statsContainer}>
@@ -96,6 +260,17 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
 
               <Divider style={styles.divider} />
 
+              {patient.dateOfBirth && (
+                <View style={styles.infoRow}>
+                  <MaterialIcons name="cake" size={20} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="bodyMedium" style={styles.infoText}>
+                    {patient.dateOfBirthApproximate
+                      ? `Born around ${patient.dateOfBirth.slice(0, 4)} (estimated)`
+                      : `Born ${new Date(`${patient.dateOfBirth}T00:00:00`).toLocaleDateString()}`}
+                  </Text>
+                </View>
+              )}
+
               <View style={styles.infoRow}>
                 <MaterialIcons name="phone" size={20} color={theme.colors.onSurfaceVariant} />
                 <Text variant="bodyMedium" style={styles.infoText}>
@@ -119,51 +294,70 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
                 </Text>
               </View>
 
-              <View style={styles.infoRow}>
-                <MaterialIcons name="account-balance-wallet" size={20} color={theme.colors.onSurfaceVariant} />
-                <Text variant="bodyMedium" style={styles.infoText}>
-                  Total spent: ${getTotalSpent().toFixed(2)}
-                </Text>
-              </View>
+              {can('financial.view') && (
+                <View style={styles.infoRow}>
+                  <MaterialIcons name="account-balance-wallet" size={20} color={theme.colors.onSurfaceVariant} />
+                  <Text variant="bodyMedium" style={styles.infoText}>
+                    Total spent: ${getTotalSpent().toFixed(2)}
+                  </Text>
+                </View>
+              )}
             </Card.Content>
           </Card>
 
           {/* Medical Information */}
-          <Card style={styles.card}>
-            <Card.Content>
-              <Text variant="titleMedium" style={styles.sectionTitle}>
-                Medical Information
-              </Text>
+          {canViewClinical && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Medical Information
+                </Text>
 
-              {patient.allergy && (
-                <View style={styles.medicalSection}>
-                  <Text variant="labelLarge" style={styles.medicalLabel}>
-                    Allergies:
-                  </Text>
-                  <Text variant="bodyMedium" style={styles.medicalText}>
-                    {patient.allergy}
-                  </Text>
-                </View>
-              )}
+                {medications.length > 0 && (
+                  <View style={styles.medicalSection}>
+                    <Text variant="labelLarge" style={styles.medicalLabel}>
+                      Current Medications:
+                    </Text>
+                    {medications.map(medication => (
+                      <Text key={medication.id} variant="bodyMedium" style={styles.medicalText}>
+                        • {formatMedication(medication)}
+                      </Text>
+                    ))}
+                  </View>
+                )}
 
-              {patient.pastMedicalHistory && (
-                <View style={styles.medicalSection}>
-                  <Text variant="labelLarge" style={styles.medicalLabel}>
-                    Past Medical History:
-                  </Text>
-                  <Text variant="bodyMedium" style={styles.medicalText}>
-                    {patient.pastMedicalHistory}
+                {patient.pastMedicalHistory && (
+                  <View style={styles.medicalSection}>
+                    <Text variant="labelLarge" style={styles.medicalLabel}>
+                      Past Medical History:
+                    </Text>
+                    <Text variant="bodyMedium" style={styles.medicalText}>
+                      {patient.pastMedicalHistory}
+                    </Text>
+                  </View>
+                )}
+
+                {allergies.length === 0 && (
+                  <View style={styles.medicalSection}>
+                    <Text variant="labelLarge" style={styles.medicalLabel}>
+                      Allergies:
+                    </Text>
+                    <Text variant="bodyMedium" style={styles.medicalText}>
+                      No known allergies recorded
+                    </Text>
+                  </View>
+                )}
+
+                {medications.length === 0 && !patient.pastMedicalHistory && (
+                  <Text style={styles.emptyText}>
+                    No medications or medical history recorded
                   </Text>
-                </View>
-              )}
+                )}
+              </Card.Content>
+            </Card>
+          )}
 
-              {!patient.allergy && !patient.pastMedicalHistory && (
-                <Text style={styles.emptyText}>
-                  No medical information recorded
-                </Text>
-              )}
-            </Card.Content>
-          </Card>
+          {canViewClinical && <VitalsTrendChart patient={patient} visits={patientVisits} />}
 
           {/* Visit History */}
           <Card style={styles.card}>
@@ -172,14 +366,16 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
                 <Text variant="titleMedium" style={styles.sectionTitle}>
                   Visit History
                 </Text>
-                <Button 
-                  mode="outlined" 
-                  compact 
-                  onPress={handleAddVisit}
-                  icon="plus"
-                >
-                  Add Visit
-                </Button>
+                {canRecordVisits && (
+                  <Button 
+                    mode="outlined" 
+                    compact 
+                    onPress={handleAddVisit}
+                    icon="plus"
+                  >
+                    Add Visit
+                  </Button>
+                )}
               </View>
 
               {patientVisits.length > 0 ? (
@@ -190,32 +386,65 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
                         <Text variant="titleSmall" style={{ fontWeight: 'bold' }}>
                           Visit #{patientVisits.length - index}
                         </Text>
-                        <Text variant="bodySmall" style={{ color: theme.colors.primary }}>
-                          ${visit.fee.toFixed(2)}
-                        </Text>
+                        <View style={styles.visitActions}>
+                          {can('financial.view') && (
+                            <Text variant="bodySmall" style={{ color: theme.colors.primary }}>
+                              ${visit.fee.toFixed(2)}
+                            </Text>
+                          )}
+                          {canViewClinical && !!visit.prescription?.length && (
+                            <IconButton
+                              icon="printer"
+                              size={18}
+                              onPress={() => handlePrintPrescription(visit)}
+                              accessibilityLabel="Print prescription"
+                            />
+                          )}
+                          <IconButton
+                            icon="history"
+                            size={18}
+                            onPress={() => setHistoryTarget({
+                              title: `Visit on ${new Date(visit.visitDate).toLocaleDateString()}`,
+                              entityType: 'visits',
+                              entityId: visit.id,
+                            })}
+                          />
+                          {canRecordVisits && (
+                            <>
+                              <IconButton
+                                icon="pencil"
+                                size={18}
+                                onPress={() => setEditingVisit(visit)}
+                              />
+                              <IconButton
+                                icon="delete"
+                                size={18}
+                                iconColor={theme.colors.error}
+                                onPress={() => setVisitToDelete(visit)}
+                              />
+                            </>
+                          )}
+                        </View>
                       </View>
                       
                       <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
                         {new Date(visit.visitDate).toLocaleDateString()} • {new Date(visit.visitDate).toLocaleTimeString()}
                       </Text>
 
-                      <View style={styles.visitDetail}>
-                        <Text variant="labelMedium" style={styles.visitLabel}>Complaints:</Text>
-                        <Text variant="bodySmall">{visit.complaints}</Text>
-                      </View>
+                      {canViewClinical ? (
+                        <>
+                          {hasVitals(visit.vitals) && (
+                            <VitalsSummary vitals={visit.vitals} ageInYears={getAgeInYears(patient, new Date(visit.visitDate))} />
+                          )}
 
-                      {visit.diagnosis && (
-                        <View style={styles.visitDetail}>
-                          <Text variant="labelMedium" style={styles.visitLabel}>Diagnosis:</Text>
-                          <Text variant="bodySmall">{visit.diagnosis}</Text>
-                        </View>
+                          <VisitNotes visit={visit} />
+                        </>
+                      ) : (
+                        <Text variant="bodySmall" style={[styles.visitDetail, { color: theme.colors.onSurfaceVariant }]}>
+                          Clinical notes are hidden for your role.
+                        </Text>
                       )}
 
-                      <View style={styles.visitDetail}>
-                        <Text variant="labelMedium" style={styles.visitLabel}>Treatment:</Text>
-                        <Text variant="bodySmall">{visit.treatment}</Text>
-                      </View>
-
                       {visit.followUpDate && (
                         <View style={styles.visitDetail}>
                           <Text variant="labelMedium" style={styles.visitLabel}>Follow-up:</Text>
@@ -236,12 +465,17 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
           </Card>
         </ScrollView>
 
-        <FAB
-          icon="medical-bag"
-          style={[styles.fab, { backgroundColor: theme.colors.primary }]}
-          onPress={handleAddVisit}
-          label="Add Visit"
-        />
+        {canRecordVisits && (
+          <FAB
+            icon="medical-bag"
+            style={[styles.fab, { backgroundColor: theme.colors.primary }]}
+            onPress={handleAddVisit}
+            label="Add Visit"
+          />
+        )}
+
+        {/* This modal covers the app-level snackbar, so offer undo here too. */}
+        <UndoSnackbar />
       </SafeAreaView>
 
       {/* Edit Patient Modal */}
@@ -262,6 +496,72 @@ export function PatientDetailsModal({ patient, onClose }: PatientDetailsModalPro
         />
       </Modal>
 
+      {/* Edit Visit Modal */}
+      <Modal visible={!!editingVisit} animationType="slide" presentationStyle="pageSheet">
+        {editingVisit && (
+          <VisitForm
+            patient={patient}
+            visit={editingVisit}
+            onClose={() => setEditingVisit(null)}
+            onSave={() => setEditingVisit(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Change History Modal */}
+      <Modal visible={!!historyTarget} animationType="slide" presentationStyle="pageSheet">
+        {historyTarget && (
+          <RecordHistoryModal
+            title={historyTarget.title}
+            entityType={historyTarget.entityType}
+            entityId={historyTarget.entityId}
+            onClose={() => setHistoryTarget(null)}
+          />
+        )}
+      </Modal>
+
+      {/* Merge Patients Modal */}
+      <Modal visible={showMerge} animationType="slide" presentationStyle="pageSheet">
+        <PatientMergeModal
+          patient={patient}
+          onClose={() => setShowMerge(false)}
+          onMerged={(keptId) => {
+            setPatientId(keptId);
+            setShowMerge(false);
+            showWebAlert('Success', 'Patients merged');
+          }}
+        />
+      </Modal>
+
+      <ConfirmDialog
+        visible={!!visitToDelete}
+        title="Delete Visit"
+        message="Delete this visit and its income record? The Financial screen will no longer include its fee."
+        confirmLabel="Delete"
+        destructive
+        loading={deleting}
+        onConfirm={handleDeleteVisit}
+        onCancel={() => setVisitToDelete(null)}
+      />
+
+      <ConfirmDialog
+        visible={showDeleteConfirm}
+        title="Delete Patient"
+        message={`Delete ${patient.name} along with their ${patientVisits.length} visit(s) and appointments? You can undo this only for a few seconds afterwards. Consider archiving instead.`}
+        confirmLabel="Delete"
+        destructive
+        loading={deleting}
+        onConfirm={handleDelete}
+        onCancel={() => setShowDeleteConfirm(false)}
+      >
+        <Checkbox.Item
+          label="Also delete income records"
+          status={deleteIncomeRecords ? 'checked' : 'unchecked'}
+          onPress={() => setDeleteIncomeRecords(!deleteIncomeRecords)}
+          style={styles.checkboxItem}
+        />
+      </ConfirmDialog>
+
       {Platform.OS === 'web' && (
         <Modal visible={alertConfig.visible} transparent animationType="fade">
           <View style={styles.modalOverlay}>
@@ -309,6 +609,14 @@ const styles = StyleSheet.create({
   statsContainer: {
     alignItems: 'flex-end',
   },
+  archivedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+    marginBottom: 12,
+  },
   divider: {
     marginBottom: 16,
   },
@@ -331,6 +639,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  allergyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  allergyTitle: {
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   medicalSection: {
     marginBottom: 12,
   },
@@ -351,6 +668,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 4,
   },
+  visitActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   visitDetail: {
     marginBottom: 8,
   },
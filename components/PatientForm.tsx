@@ -1,5 +1,5 @@
-import React, { useState, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -7,13 +7,21 @@ import {
   Button, 
   Card, 
   SegmentedButtons,
-  Appbar 
+  Appbar,
+  Checkbox
 } from 'react-native-paper';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
+import { useUser } from '@/hooks/useUser';
 import { Patient } from '@/types';
 import { TouchableOpacity } from 'react-native';
+import { DatePickerField } from './DatePickerField';
+import { ConfirmDialog } from './ConfirmDialog';
+import { AllergyListEditor } from './AllergyListEditor';
+import { MedicationListEditor } from './MedicationListEditor';
+import { estimateDateOfBirth, formatAge, getAgeInYears, toDateString } from '@/utils/age';
+import { findDuplicatePatients, PatientMatch } from '@/utils/patientMatching';
 
 interface PatientFormProps {
   patient?: Patient;
@@ -23,9 +31,11 @@ interface PatientFormProps {
 
 export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
   const { theme } = useTheme();
-  const { addPatient, updatePatient } = useData();
+  const { patients, addPatient, updatePatient } = useData();
   const { activeClinic } = useClinic();
+  const { can } = useUser();
   const [loading, setLoading] = useState(false);
+  const [duplicateMatches, setDuplicateMatches] = useState<PatientMatch<Patient>[]>([]);
   const [alertConfig, setAlertConfig] = useState<{
     visible: boolean;
     title: string;
@@ -35,11 +45,15 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
 
   const [formData, setFormData] = useState({
     name: patient?.name || '',
-    age: patient?.age?.toString() || '',
+    age: patient ? getAgeInYears(patient).toString() : '',
+    // Approximate dates were estimated from an age, so those patients keep editing the age.
+    dateOfBirth: patient?.dateOfBirth && !patient.dateOfBirthApproximate ? patient.dateOfBirth : '',
+    dateOfBirthUnknown: !!patient && (!patient.dateOfBirth || !!patient.dateOfBirthApproximate),
     sex: patient?.sex || 'Male' as 'Male' | 'Female' | 'Other',
     phoneNumber: patient?.phoneNumber || '',
     location: patient?.location || '',
-    allergy: patient?.allergy || '',
+    allergies: patient?.allergies ?? [],
+    medications: patient?.medications ?? [],
     pastMedicalHistory: patient?.pastMedicalHistory || '',
   });
 
@@ -51,14 +65,34 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
     }
   };
 
-  const handleSave = async () => {
+  // Keeps an earlier estimate while the age is unchanged, so it doesn't drift on every save.
+  const keptOrEstimatedDateOfBirth = (age: number) => {
+    if (patient?.dateOfBirth && patient.dateOfBirthApproximate && getAgeInYears(patient) === age) {
+      return patient.dateOfBirth;
+    }
+    return estimateDateOfBirth(age);
+  };
+
+  /**
+   * Saves the form. Unless `ignoreDuplicates` is set, a patient that looks
+   * like another patient of the clinic is held back for the user to confirm.
+   */
+  const handleSave = async (ignoreDuplicates = false) => {
     if (!formData.name.trim()) {
       showWebAlert('Validation Error', 'Patient name is required');
       return;
     }
 
-    if (!formData.age.trim() || isNaN(Number(formData.age))) {
-      showWebAlert('Validation Error', 'Please enter a valid age');
+    if (formData.dateOfBirthUnknown) {
+      if (!formData.age.trim() || isNaN(Number(formData.age)) || Number(formData.age) < 0) {
+        showWebAlert('Validation Error', 'Please enter a valid age');
+        return;
+      }
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(formData.dateOfBirth) || isNaN(Date.parse(formData.dateOfBirth))) {
+      showWebAlert('Validation Error', 'Please enter a valid date of birth');
+      return;
+    } else if (formData.dateOfBirth > toDateString(new Date())) {
+      showWebAlert('Validation Error', 'Date of birth cannot be in the future');
       return;
     }
 
@@ -67,19 +101,56 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
       return;
     }
 
+    // Entries left completely blank are dropped; half-filled ones need a name.
+    const allergies = formData.allergies.filter(allergy => allergy.substance.trim() || allergy.reaction.trim());
+    const medications = formData.medications.filter(medication =>
+      medication.name.trim() || medication.dose.trim() || medication.frequency.trim()
+    );
+    if (allergies.some(allergy => !allergy.substance.trim())) {
+      showWebAlert('Validation Error', 'Each allergy needs a substance');
+      return;
+    }
+    if (medications.some(medication => !medication.name.trim())) {
+      showWebAlert('Validation Error', 'Each medication needs a name');
+      return;
+    }
+
     if (!activeClinic) {
       showWebAlert('Error', 'No active clinic selected');
       return;
     }
 
+    const { dateOfBirthUnknown, ...fields } = formData;
+    const dateOfBirth = dateOfBirthUnknown
+      ? keptOrEstimatedDateOfBirth(Number(formData.age))
+      : formData.dateOfBirth;
+    const patientData = {
+      ...fields,
+      dateOfBirth,
+      dateOfBirthApproximate: dateOfBirthUnknown,
+      allergies,
+      medications,
+      age: getAgeInYears({ age: Number(formData.age), dateOfBirth }),
+      clinicId: activeClinic.id,
+    };
+
+    // Edits are only checked when they touch the details used for matching,
+    // so a known near-duplicate doesn't ask again on every save.
+    const identityChanged = !patient ||
+      patient.name !== patientData.name ||
+      patient.phoneNumber !== patientData.phoneNumber ||
+      patient.dateOfBirth !== patientData.dateOfBirth;
+    if (!ignoreDuplicates && identityChanged) {
+      const clinicPatients = patients.filter(other => other.clinicId === activeClinic.id);
+      const matches = findDuplicatePatients(patientData, clinicPatients, patient?.id);
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+    }
+
     setLoading(true);
     try {
-      const patientData = {
-        ...formData,
-        age: Number(formData.age),
-        clinicId: activeClinic.id,
-      };
-
       if (patient) {
         await updatePatient(patient.id, patientData);
         showWebAlert('Success', 'Patient updated successfully', () => {
@@ -106,7 +177,7 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
         <Appbar.Header>
           <Appbar.BackAction onPress={onClose} />
           <Appbar.Content title={patient ? 'Edit Patient' : 'Add New Patient'} />
-          <Appbar.Action icon="check" onPress={handleSave} disabled={loading} />
+          <Appbar.Action icon="check" onPress={() => handleSave()} disabled={loading} />
         </Appbar.Header>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
@@ -124,32 +195,46 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
                 mode="outlined"
               />
 
-              <View style={styles.row}>
+              {formData.dateOfBirthUnknown ? (
                 <TextInput
-                  label="Age *"
+                  label="Age in Years *"
                   value={formData.age}
                   onChangeText={(text) => setFormData({ ...formData, age: text })}
-                  style={[styles.input, styles.halfWidth]}
+                  style={styles.input}
                   mode="outlined"
                   keyboardType="numeric"
                 />
+              ) : (
+                <DatePickerField
+                  label="Date of Birth *"
+                  value={formData.dateOfBirth}
+                  onChange={(value) => setFormData({ ...formData, dateOfBirth: value })}
+                  maximumDate={new Date()}
+                  style={styles.input}
+                />
+              )}
 
-                <View style={[styles.halfWidth, { marginLeft: 8 }]}>
-                  <Text variant="labelMedium" style={styles.label}>
-                    Gender *
-                  </Text>
-                  <SegmentedButtons
-                    value={formData.sex}
-                    onValueChange={(value) => setFormData({ ...formData, sex: value as any })}
-                    buttons={[
-                      { value: 'Male', label: 'Male' },
-                      { value: 'Female', label: 'Female' },
-                      { value: 'Other', label: 'Other' },
-                    ]}
-                    style={styles.segmentedButtons}
-                  />
-                </View>
-              </View>
+              <Checkbox.Item
+                label="Date of birth unknown"
+                status={formData.dateOfBirthUnknown ? 'checked' : 'unchecked'}
+                onPress={() => setFormData({ ...formData, dateOfBirthUnknown: !formData.dateOfBirthUnknown })}
+                position="leading"
+                style={styles.checkboxItem}
+              />
+
+              <Text variant="labelMedium" style={styles.label}>
+                Gender *
+              </Text>
+              <SegmentedButtons
+                value={formData.sex}
+                onValueChange={(value) => setFormData({ ...formData, sex: value as any })}
+                buttons={[
+                  { value: 'Male', label: 'Male' },
+                  { value: 'Female', label: 'Female' },
+                  { value: 'Other', label: 'Other' },
+                ]}
+                style={styles.segmentedButtons}
+              />
 
               <TextInput
                 label="Phone Number *"
@@ -172,35 +257,43 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
             </Card.Content>
           </Card>
 
-          <Card style={styles.card}>
-            <Card.Content>
-              <Text variant="titleMedium" style={styles.sectionTitle}>
-                Medical Information
-              </Text>
+          {/* Hidden fields keep their stored values when saving. */}
+          {can('clinical.view') && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Medical Information
+                </Text>
 
-              <TextInput
-                label="Known Allergies"
-                value={formData.allergy}
-                onChangeText={(text) => setFormData({ ...formData, allergy: text })}
-                style={styles.input}
-                mode="outlined"
-                multiline
-                numberOfLines={3}
-                placeholder="List any known allergies..."
-              />
+                <Text variant="labelLarge" style={styles.listLabel}>
+                  Allergies
+                </Text>
+                <AllergyListEditor
+                  value={formData.allergies}
+                  onChange={(allergies) => setFormData({ ...formData, allergies })}
+                />
 
-              <TextInput
-                label="Past Medical History"
-                value={formData.pastMedicalHistory}
-                onChangeText={(text) => setFormData({ ...formData, pastMedicalHistory: text })}
-                style={styles.input}
-                mode="outlined"
-                multiline
-                numberOfLines={4}
-                placeholder="Previous medical conditions, surgeries, medications..."
-              />
-            </Card.Content>
-          </Card>
+                <Text variant="labelLarge" style={styles.listLabel}>
+                  Current Medications
+                </Text>
+                <MedicationListEditor
+                  value={formData.medications}
+                  onChange={(medications) => setFormData({ ...formData, medications })}
+                />
+
+                <TextInput
+                  label="Past Medical History"
+                  value={formData.pastMedicalHistory}
+                  onChangeText={(text) => setFormData({ ...formData, pastMedicalHistory: text })}
+                  style={styles.input}
+                  mode="outlined"
+                  multiline
+                  numberOfLines={4}
+                  placeholder="Previous medical conditions, surgeries..."
+                />
+              </Card.Content>
+            </Card>
+          )}
 
           <View style={styles.buttonContainer}>
             <Button 
@@ -213,7 +306,7 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
             </Button>
             <Button 
               mode="contained" 
-              onPress={handleSave}
+              onPress={() => handleSave()}
               style={styles.button}
               loading={loading}
               disabled={loading}
@@ -224,6 +317,29 @@ export function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
         </ScrollView>
       </SafeAreaView>
 
+      <ConfirmDialog
+        visible={duplicateMatches.length > 0}
+        title="Possible Duplicate"
+        message={`${formData.name.trim()} may already be registered. Check the existing ${duplicateMatches.length === 1 ? 'record' : 'records'} before saving. Duplicates can be merged later from the patient's details.`}
+        confirmLabel="Save Anyway"
+        onConfirm={() => {
+          setDuplicateMatches([]);
+          handleSave(true);
+        }}
+        onCancel={() => setDuplicateMatches([])}
+      >
+        {duplicateMatches.map(({ patient: match, reason }) => (
+          <View key={match.id} style={styles.duplicateMatch}>
+            <Text variant="titleSmall">
+              {match.name}{match.archivedAt ? ' (archived)' : ''}
+            </Text>
+            <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+              {formatAge(match)} • {match.phoneNumber} • {reason}
+            </Text>
+          </View>
+        ))}
+      </ConfirmDialog>
+
       {Platform.OS === 'web' && (
         <Modal visible={alertConfig.visible} transparent animationType="fade">
           <View style={styles.modalOverlay}>
@@ -269,12 +385,16 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 16,
   },
-  row: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
+  listLabel: {
+    marginBottom: 8,
   },
-  halfWidth: {
-    flex: 1,
+  duplicateMatch: {
+    marginBottom: 12,
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+    marginTop: -8,
+    marginBottom: 8,
   },
   label: {
     marginBottom: 8,
@@ -0,0 +1,293 @@
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Appbar, Searchbar, List, RadioButton, Button, Divider } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useData } from '@/hooks/useData';
+import { Patient } from '@/types';
+import { formatAge } from '@/utils/age';
+import { findDuplicatePatients, combinePatientDetails } from '@/utils/patientMatching';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface PatientMergeModalProps {
+  patient: Patient;
+  onClose: () => void;
+  // Called with the id of the patient that remains after the merge.
+  onMerged: (keptId: string) => void;
+}
+
+/**
+ * Merges another patient of the same clinic into `patient`, or the other way
+ * round. Likely duplicates are suggested first; any patient can be searched.
+ */
+export function PatientMergeModal({ patient, onClose, onMerged }: PatientMergeModalProps) {
+  const { theme } = useTheme();
+  const { patients, visits, appointments, incomeRecords, mergePatients } = useData();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [other, setOther] = useState<Patient | null>(null);
+  const [keptId, setKeptId] = useState(patient.id);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+  }>({ visible: false, title: '', message: '' });
+
+  const showWebAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      setAlertConfig({ visible: true, title, message });
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const clinicPatients = useMemo(() => {
+    return patients.filter(p => p.clinicId === patient.clinicId && p.id !== patient.id);
+  }, [patients, patient.clinicId, patient.id]);
+
+  const suggestions = useMemo(() => findDuplicatePatients(patient, clinicPatients), [patient, clinicPatients]);
+
+  const searchResults = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return [];
+    return clinicPatients.filter(p =>
+      p.name.toLowerCase().includes(query) || p.phoneNumber.includes(query)
+    );
+  }, [searchQuery, clinicPatients]);
+
+  const selectOther = (selected: Patient) => {
+    setOther(selected);
+    setKeptId(patient.id);
+  };
+
+  const kept = other && keptId === other.id ? other : patient;
+  const duplicate = other && keptId === other.id ? patient : other;
+
+  const moved = useMemo(() => {
+    if (!duplicate) return null;
+    const visitIds = new Set(visits.filter(visit => visit.patientId === duplicate.id).map(visit => visit.id));
+    return {
+      visits: visitIds.size,
+      appointments: appointments.filter(appointment => appointment.patientId === duplicate.id).length,
+      incomeRecords: incomeRecords.filter(record => visitIds.has(record.visitId)).length,
+    };
+  }, [duplicate, visits, appointments, incomeRecords]);
+
+  const handleMerge = async () => {
+    if (!duplicate) return;
+
+    setMerging(true);
+    try {
+      await mergePatients(kept.id, duplicate.id);
+      setShowConfirm(false);
+      onMerged(kept.id);
+    } catch (error) {
+      setShowConfirm(false);
+      showWebAlert('Error', 'Failed to merge patients');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderPatientItem = (item: Patient, description: string) => (
+    <List.Item
+      key={item.id}
+      title={`${item.name}${item.archivedAt ? ' (archived)' : ''}`}
+      description={description}
+      descriptionNumberOfLines={2}
+      left={props => <List.Icon {...props} icon="account" />}
+      onPress={() => selectOther(item)}
+    />
+  );
+
+  const renderOption = (option: Patient) => (
+    <RadioButton.Item
+      key={option.id}
+      value={option.id}
+      label={`${option.name}\n${formatAge(option)} • ${option.phoneNumber}\nAdded ${new Date(option.createdAt).toLocaleDateString()} • ${visits.filter(visit => visit.patientId === option.id).length} visits`}
+      labelVariant="bodyMedium"
+      style={styles.optionItem}
+    />
+  );
+
+  const result = duplicate ? combinePatientDetails(kept, duplicate) : null;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={other ? () => setOther(null) : onClose} />
+        <Appbar.Content title="Merge Patients" subtitle={patient.name} />
+      </Appbar.Header>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {!other ? (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Likely Duplicates
+                </Text>
+                {suggestions.length > 0 ? (
+                  suggestions.map(({ patient: match, reason }) => renderPatientItem(match, reason))
+                ) : (
+                  <Text style={styles.emptyText}>
+                    No likely duplicates found. Search for the other record below.
+                  </Text>
+                )}
+              </Card.Content>
+            </Card>
+
+            <Searchbar
+              placeholder="Search by name or phone..."
+              onChangeText={setSearchQuery}
+              value={searchQuery}
+              style={styles.searchbar}
+            />
+            {searchResults.map(match => renderPatientItem(match, `${formatAge(match)} • ${match.phoneNumber}`))}
+          </>
+        ) : (
+          <>
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Record to Keep
+                </Text>
+                <RadioButton.Group value={keptId} onValueChange={setKeptId}>
+                  {renderOption(patient)}
+                  {renderOption(other)}
+                </RadioButton.Group>
+              </Card.Content>
+            </Card>
+
+            {result && duplicate && moved && (
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={styles.sectionTitle}>
+                    After Merging
+                  </Text>
+                  <Text variant="bodyLarge" style={{ fontWeight: 'bold' }}>
+                    {result.name}
+                  </Text>
+                  <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                    {formatAge(result)} • {result.sex} • {result.phoneNumber}
+                  </Text>
+                  {!!result.location && (
+                    <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {result.location}
+                    </Text>
+                  )}
+                  <Divider style={styles.divider} />
+                  <Text variant="bodyMedium">
+                    {moved.visits} visits, {moved.appointments} appointments and {moved.incomeRecords} income records
+                    move from {duplicate.name} to {kept.name}. Allergies, medications and medical history from both
+                    records are kept. {`${duplicate.name}'s record is then removed.`}
+                  </Text>
+                </Card.Content>
+              </Card>
+            )}
+
+            <Button
+              mode="contained"
+              icon="call-merge"
+              onPress={() => setShowConfirm(true)}
+              style={styles.mergeButton}
+              disabled={merging}
+            >
+              Merge Patients
+            </Button>
+          </>
+        )}
+      </ScrollView>
+
+      <ConfirmDialog
+        visible={showConfirm}
+        title="Merge Patients"
+        message={duplicate ? `Merge ${duplicate.name} into ${kept.name}? The change is recorded in both patients' history.` : ''}
+        confirmLabel="Merge"
+        destructive
+        loading={merging}
+        onConfirm={handleMerge}
+        onCancel={() => setShowConfirm(false)}
+      />
+
+      {Platform.OS === 'web' && (
+        <Modal visible={alertConfig.visible} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+              <Text variant="titleLarge" style={styles.modalTitle}>
+                {alertConfig.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.modalMessage}>
+                {alertConfig.message}
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => setAlertConfig(prev => ({ ...prev, visible: false }))}
+              >
+                <Text style={{ color: theme.colors.onPrimary, fontWeight: 'bold' }}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  searchbar: {
+    marginBottom: 8,
+  },
+  optionItem: {
+    paddingHorizontal: 0,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  mergeButton: {
+    marginBottom: 32,
+  },
+  emptyText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  modalButton: {
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH } from '@/services/appLock';
+
+interface PinPadProps {
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  disabled?: boolean;
+  onSubmit: (pin: string) => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'delete', '0', 'submit'];
+
+/**
+ * Numeric keypad for entering a PIN. The entered digits are cleared after
+ * each submission.
+ */
+export function PinPad({ title, subtitle, error, disabled = false, onSubmit }: PinPadProps) {
+  const { theme } = useTheme();
+  const [pin, setPin] = useState('');
+
+  const handleKey = (key: string) => {
+    if (key === 'delete') {
+      setPin(prev => prev.slice(0, -1));
+    } else if (key === 'submit') {
+      if (pin.length < MIN_PIN_LENGTH) return;
+      onSubmit(pin);
+      setPin('');
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin(prev => prev + key);
+    }
+  };
+
+  const renderKey = (key: string) => {
+    const isDisabled = disabled || (key === 'submit' && pin.length < MIN_PIN_LENGTH);
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.key, { backgroundColor: theme.colors.surfaceVariant, opacity: isDisabled ? 0.4 : 1 }]}
+        onPress={() => handleKey(key)}
+        disabled={isDisabled}
+        accessibilityLabel={key === 'delete' ? 'Delete' : key === 'submit' ? 'Enter' : key}
+      >
+        {key === 'delete' ? (
+          <MaterialIcons name="backspace" size={24} color={theme.colors.onSurfaceVariant} />
+        ) : key === 'submit' ? (
+          <MaterialIcons name="check" size={28} color={theme.colors.primary} />
+        ) : (
+          <Text variant="headlineSmall">{key}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text variant="titleLarge" style={styles.title}>
+        {title}
+      </Text>
+      {subtitle && (
+        <Text variant="bodyMedium" style={[styles.subtitle, { color: theme.colors.onSurfaceVariant }]}>
+          {subtitle}
+        </Text>
+      )}
+
+      <View style={styles.dots}>
+        {Array.from({ length: Math.max(pin.length, MIN_PIN_LENGTH) }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              { borderColor: theme.colors.primary },
+              index < pin.length && { backgroundColor: theme.colors.primary },
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text variant="bodyMedium" style={[styles.error, { color: theme.colors.error }]}>
+        {error ?? ' '}
+      </Text>
+
+      <View style={styles.keypad}>
+        {KEYS.map(renderKey)}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  title: {
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  subtitle: {
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  dots: {
+    flexDirection: 'row',
+    marginTop: 24,
+    minHeight: 16,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    marginHorizontal: 8,
+  },
+  error: {
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 264,
+    marginTop: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 8,
+  },
+});
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Appbar } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useAppLock } from '@/hooks/useAppLock';
+import { PinAttemptResult } from '@/contexts/AppLockContext';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH } from '@/services/appLock';
+import { PinPad } from './PinPad';
+
+export type PinSetupMode = 'enable' | 'change' | 'disable';
+
+interface PinSetupModalProps {
+  mode: PinSetupMode;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+type Step = 'current' | 'new' | 'confirm';
+
+const TITLES: Record<PinSetupMode, string> = {
+  enable: 'Set Up App Lock',
+  change: 'Change PIN',
+  disable: 'Turn Off App Lock',
+};
+
+const STEP_TITLES: Record<Step, string> = {
+  current: 'Enter your current PIN',
+  new: 'Choose a PIN',
+  confirm: 'Enter the PIN again',
+};
+
+export function PinSetupModal({ mode, onClose, onDone }: PinSetupModalProps) {
+  const { theme } = useTheme();
+  const { enableLock, changePin, disableLock } = useAppLock();
+  const [step, setStep] = useState<Step>(mode === 'enable' ? 'new' : 'current');
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const finish = async (action: () => Promise<PinAttemptResult>) => {
+    setSaving(true);
+    try {
+      const result = await action();
+      if (result.success) {
+        onDone();
+      } else {
+        setError(result.lockedUntil && result.lockedUntil.getTime() > Date.now()
+          ? `Too many incorrect attempts. Try again after ${result.lockedUntil.toLocaleTimeString()}.`
+          : `Incorrect PIN. ${result.attemptsRemaining} attempt(s) left before a pause.`);
+        setStep('current');
+      }
+    } catch (saveError) {
+      console.error('Error saving PIN:', saveError);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (pin: string) => {
+    setError(null);
+
+    if (step === 'current') {
+      setCurrentPin(pin);
+      if (mode === 'disable') {
+        await finish(() => disableLock(pin));
+      } else {
+        setStep('new');
+      }
+    } else if (step === 'new') {
+      setNewPin(pin);
+      setStep('confirm');
+    } else if (pin !== newPin) {
+      setError('PINs did not match. Please choose a PIN again.');
+      setStep('new');
+    } else if (mode === 'enable') {
+      await finish(async () => {
+        await enableLock(pin);
+        return { success: true };
+      });
+    } else {
+      await finish(() => changePin(currentPin, pin));
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={onClose} />
+        <Appbar.Content title={TITLES[mode]} />
+      </Appbar.Header>
+
+      <View style={styles.content}>
+        <PinPad
+          title={STEP_TITLES[step]}
+          subtitle={step === 'new' ? `Use ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits` : undefined}
+          error={error}
+          disabled={saving}
+          onSubmit={handleSubmit}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+});
@@ -0,0 +1,318 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, Button, IconButton, Chip, List } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { PrescriptionItem } from '@/types';
+import {
+  PrescriptionTemplate,
+  newPrescriptionItem,
+  isSameDrug,
+  searchDrugCatalogue,
+  getDrugStrengths,
+  getDrugForm,
+  formatDrug,
+} from '@/utils/prescriptions';
+import { loadPrescriptionFavourites, savePrescriptionFavourites } from '@/services/prescriptionFavourites';
+
+interface PrescriptionEditorProps {
+  value: PrescriptionItem[];
+  onChange: (items: PrescriptionItem[]) => void;
+}
+
+function toTemplate({ id: _id, ...template }: PrescriptionItem): PrescriptionTemplate {
+  return template;
+}
+
+/**
+ * Prescription line items with drug suggestions from the catalogue and the
+ * favourites saved on this device.
+ */
+export function PrescriptionEditor({ value, onChange }: PrescriptionEditorProps) {
+  const { theme } = useTheme();
+  const [favourites, setFavourites] = useState<PrescriptionTemplate[]>([]);
+  // The line whose drug field has focus; suggestions are shown under it.
+  const [searchingId, setSearchingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPrescriptionFavourites()
+      .then(setFavourites)
+      .catch(error => console.error('Error loading prescription favourites:', error));
+  }, []);
+
+  const updateFavourites = (updated: PrescriptionTemplate[]) => {
+    setFavourites(updated);
+    savePrescriptionFavourites(updated)
+      .catch(error => console.error('Error saving prescription favourites:', error));
+  };
+
+  const updateItem = (id: string, updates: Partial<PrescriptionItem>) => {
+    onChange(value.map(item => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  const addItem = (template?: PrescriptionTemplate) => {
+    onChange([...value, newPrescriptionItem(template)]);
+  };
+
+  const chooseDrug = (item: PrescriptionItem, drug: string) => {
+    const strengths = getDrugStrengths(drug);
+    updateItem(item.id, {
+      drug,
+      strength: strengths.length === 1 ? strengths[0] : item.strength,
+    });
+    setSearchingId(null);
+  };
+
+  const chooseFavourite = (item: PrescriptionItem, favourite: PrescriptionTemplate) => {
+    updateItem(item.id, favourite);
+    setSearchingId(null);
+  };
+
+  const toggleFavourite = (item: PrescriptionItem) => {
+    const template = toTemplate(item);
+    updateFavourites(
+      favourites.some(favourite => isSameDrug(favourite, template))
+        ? favourites.filter(favourite => !isSameDrug(favourite, template))
+        : [...favourites, template]
+    );
+  };
+
+  const renderSuggestions = (item: PrescriptionItem) => {
+    const query = item.drug.trim().toLowerCase();
+    if (searchingId !== item.id || !query) return null;
+
+    const matchingFavourites = favourites
+      .filter(favourite => favourite.drug.toLowerCase().includes(query) && !isSameDrug(favourite, item))
+      .slice(0, 3);
+    const drugs = searchDrugCatalogue(item.drug)
+      .filter(drug => drug.toLowerCase() !== query);
+    if (matchingFavourites.length === 0 && drugs.length === 0) return null;
+
+    return (
+      <View style={[styles.suggestions, { borderColor: theme.colors.outlineVariant }]}>
+        {matchingFavourites.map(favourite => (
+          <List.Item
+            key={`favourite-${formatDrug(favourite)}`}
+            title={formatDrug(favourite)}
+            description={[favourite.dose, favourite.frequency, favourite.duration].filter(Boolean).join(', ')}
+            left={props => <List.Icon {...props} icon="star" color={theme.colors.tertiary} />}
+            onPress={() => chooseFavourite(item, favourite)}
+            style={styles.suggestion}
+          />
+        ))}
+        {drugs.map(drug => (
+          <List.Item
+            key={drug}
+            title={drug}
+            description={getDrugForm(drug)}
+            left={props => <List.Icon {...props} icon="pill" />}
+            onPress={() => chooseDrug(item, drug)}
+            style={styles.suggestion}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {favourites.length > 0 && (
+        <>
+          <Text variant="labelMedium" style={styles.label}>
+            Favourites
+          </Text>
+          <View style={styles.chips}>
+            {favourites.map(favourite => (
+              <Chip
+                key={formatDrug(favourite)}
+                icon="star"
+                onPress={() => addItem(favourite)}
+                onClose={() => updateFavourites(favourites.filter(other => other !== favourite))}
+                compact
+              >
+                {formatDrug(favourite)}
+              </Chip>
+            ))}
+          </View>
+        </>
+      )}
+
+      {value.map((item, index) => {
+        const strengths = getDrugStrengths(item.drug);
+        const isFavourite = favourites.some(favourite => isSameDrug(favourite, item));
+
+        return (
+          <View key={item.id} style={[styles.entry, { borderColor: theme.colors.outlineVariant }]}>
+            <View style={styles.entryHeader}>
+              <TextInput
+                label={`Drug ${index + 1} *`}
+                value={item.drug}
+                onChangeText={(text) => updateItem(item.id, { drug: text })}
+                onFocus={() => setSearchingId(item.id)}
+                style={styles.drugInput}
+                mode="outlined"
+                dense
+                placeholder="Search or type a drug name"
+              />
+              <IconButton
+                icon={isFavourite ? 'star' : 'star-outline'}
+                iconColor={isFavourite ? theme.colors.tertiary : undefined}
+                onPress={() => toggleFavourite(item)}
+                disabled={!item.drug.trim()}
+                accessibilityLabel={isFavourite ? 'Remove from favourites' : 'Save as favourite'}
+              />
+              <IconButton
+                icon="close"
+                onPress={() => onChange(value.filter(other => other.id !== item.id))}
+                accessibilityLabel="Remove drug"
+              />
+            </View>
+
+            {renderSuggestions(item)}
+
+            <TextInput
+              label="Strength"
+              value={item.strength}
+              onChangeText={(text) => updateItem(item.id, { strength: text })}
+              style={styles.input}
+              mode="outlined"
+              dense
+              placeholder="e.g. 500 mg"
+            />
+            {strengths.length > 1 && (
+              <View style={[styles.chips, styles.strengthChips]}>
+                {strengths.map(strength => (
+                  <Chip
+                    key={strength}
+                    selected={item.strength === strength}
+                    onPress={() => updateItem(item.id, { strength })}
+                    compact
+                  >
+                    {strength}
+                  </Chip>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.row}>
+              <TextInput
+                label="Dose"
+                value={item.dose}
+                onChangeText={(text) => updateItem(item.id, { dose: text })}
+                style={[styles.input, styles.rowInput]}
+                mode="outlined"
+                dense
+                placeholder={`e.g. 1 ${getDrugForm(item.drug) || 'tablet'}`}
+              />
+              <TextInput
+                label="Frequency"
+                value={item.frequency}
+                onChangeText={(text) => updateItem(item.id, { frequency: text })}
+                style={[styles.input, styles.rowInput]}
+                mode="outlined"
+                dense
+                placeholder="e.g. twice daily"
+              />
+            </View>
+
+            <View style={styles.row}>
+              <TextInput
+                label="Duration"
+                value={item.duration}
+                onChangeText={(text) => updateItem(item.id, { duration: text })}
+                style={[styles.input, styles.rowInput]}
+                mode="outlined"
+                dense
+                placeholder="e.g. 5 days"
+              />
+              <TextInput
+                label="Quantity"
+                value={item.quantity}
+                onChangeText={(text) => updateItem(item.id, { quantity: text })}
+                style={[styles.input, styles.rowInput]}
+                mode="outlined"
+                dense
+                placeholder="e.g. 10 tablets"
+              />
+            </View>
+
+            <TextInput
+              label="Instructions"
+              value={item.instructions}
+              onChangeText={(text) => updateItem(item.id, { instructions: text })}
+              style={styles.input}
+              mode="outlined"
+              dense
+              placeholder="e.g. after meals"
+            />
+          </View>
+        );
+      })}
+
+      {value.length === 0 && (
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          No drugs prescribed
+        </Text>
+      )}
+
+      <Button mode="outlined" icon="plus" onPress={() => addItem()} style={styles.addButton}>
+        Add Drug
+      </Button>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  strengthChips: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
+  entry: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  drugInput: {
+    flex: 1,
+  },
+  suggestions: {
+    borderWidth: 1,
+    borderRadius: 4,
+    marginTop: 4,
+  },
+  suggestion: {
+    paddingVertical: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  input: {
+    marginTop: 8,
+  },
+  emptyText: {
+    fontStyle: 'italic',
+    opacity: 0.7,
+    marginBottom: 12,
+  },
+  addButton: {
+    marginBottom: 16,
+  },
+});
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Appbar, ActivityIndicator, Chip } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { useUser } from '@/hooks/useUser';
+import { loadAuditHistory } from '@/services/audit';
+import { AuditEntry } from '@/types';
+import { formatFieldName, formatValue } from '@/utils/recordFields';
+import { CLINICAL_FIELDS } from '@/constants/permissions';
+
+interface RecordHistoryModalProps {
+  title: string;
+  entityType: string;
+  entityId: string;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  merge: 'Merged',
+};
+
+const ACTION_ICONS: Record<AuditEntry['action'], string> = {
+  create: 'plus-circle',
+  update: 'pencil',
+  delete: 'delete',
+  merge: 'call-merge',
+};
+
+export function RecordHistoryModal({ title, entityType, entityId, onClose }: RecordHistoryModalProps) {
+  const { theme } = useTheme();
+  const { can } = useUser();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        setEntries(await loadAuditHistory(entityType, entityId));
+      } catch (error) {
+        console.error('Error loading history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [entityType, entityId]);
+
+  const hiddenFields = new Set(can('clinical.view') ? [] : CLINICAL_FIELDS[entityType] ?? []);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={onClose} />
+        <Appbar.Content title="Change History" subtitle={title} />
+      </Appbar.Header>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {entries.length > 0 ? (
+            entries.map(entry => (
+              <Card key={entry.id} style={styles.card}>
+                <Card.Content>
+                  <View style={styles.entryHeader}>
+                    <Chip icon={ACTION_ICONS[entry.action]} compact>
+                      {ACTION_LABELS[entry.action]}
+                    </Chip>
+                    <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </Text>
+                  </View>
+
+                  <View style={styles.actorRow}>
+                    <MaterialIcons name="person" size={16} color={theme.colors.onSurfaceVariant} />
+                    <Text variant="bodySmall" style={{ marginLeft: 4, color: theme.colors.onSurfaceVariant }}>
+                      {entry.actor}
+                    </Text>
+                  </View>
+
+                  {entry.changes.filter(change => !hiddenFields.has(change.field)).map(change => (
+                    <View key={change.field} style={styles.change}>
+                      <Text variant="labelMedium" style={styles.fieldName}>
+                        {formatFieldName(change.field)}
+                      </Text>
+                      {entry.action === 'update' ? (
+                        <>
+                          <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+                            − {formatValue(change.before)}
+                          </Text>
+                          <Text variant="bodySmall" style={{ color: theme.colors.primary }}>
+                            + {formatValue(change.after)}
+                          </Text>
+                        </>
+                      ) : (
+                        <Text variant="bodySmall">
+                          {formatValue(entry.action === 'delete' ? change.before : change.after)}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>
+              No changes recorded for this record yet
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  actorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  change: {
+    marginBottom: 8,
+  },
+  fieldName: {
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontStyle: 'italic',
+    opacity: 0.7,
+    padding: 16,
+  },
+});
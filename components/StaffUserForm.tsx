@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Appbar,
+  RadioButton,
+  Checkbox
+} from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useUser } from '@/hooks/useUser';
+import { StaffRole, StaffUser } from '@/types';
+import { ROLE_LABELS } from '@/constants/permissions';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH } from '@/services/appLock';
+import { TouchableOpacity } from 'react-native';
+
+interface StaffUserFormProps {
+  user?: StaffUser;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  admin: 'Everything, including managing staff users',
+  doctor: 'Patients, visits, appointments, finances and data',
+  nurse: 'Patients, visits and appointments',
+  reception: 'Patient details and appointments, without clinical notes',
+  accountant: 'Finances and patient names, without clinical notes',
+};
+
+export function StaffUserForm({ user, onClose, onSave }: StaffUserFormProps) {
+  const { theme } = useTheme();
+  const { addUser, updateUser, archiveUser } = useUser();
+  const [loading, setLoading] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+    onOk?: () => void;
+  }>({ visible: false, title: '', message: '' });
+
+  const [formData, setFormData] = useState({
+    name: user?.name || '',
+    role: user?.role || 'reception' as StaffRole,
+    pin: '',
+    removePin: false,
+  });
+
+  const showWebAlert = (title: string, message: string, onOk?: () => void) => {
+    if (Platform.OS === 'web') {
+      setAlertConfig({ visible: true, title, message, onOk });
+    } else {
+      Alert.alert(title, message, onOk ? [{ text: 'OK', onPress: onOk }] : undefined);
+    }
+  };
+
+  const finish = (message: string) => {
+    showWebAlert('Success', message, () => {
+      onSave();
+      onClose();
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      showWebAlert('Validation Error', 'Name is required');
+      return;
+    }
+
+    if (formData.pin && !new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(formData.pin)) {
+      showWebAlert('Validation Error', `The PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const userData = {
+        name: formData.name.trim(),
+        role: formData.role,
+        pin: formData.removePin ? null : formData.pin || undefined,
+      };
+
+      if (user) {
+        if (!(await updateUser(user.id, userData))) {
+          showWebAlert('Error', 'At least one active administrator is required. Make another user an administrator first.');
+          return;
+        }
+        finish('Staff user updated successfully');
+      } else {
+        await addUser(userData);
+        finish('Staff user added successfully');
+      }
+    } catch (error) {
+      showWebAlert('Error', 'Failed to save staff user');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      if (await archiveUser(user.id)) {
+        finish('Staff user removed. Records they created still show who created them.');
+      } else {
+        showWebAlert('Error', 'You cannot remove yourself or the last administrator.');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+        <Appbar.Header>
+          <Appbar.BackAction onPress={onClose} />
+          <Appbar.Content title={user ? 'Edit Staff User' : 'Add Staff User'} />
+          <Appbar.Action icon="check" onPress={handleSave} disabled={loading} />
+        </Appbar.Header>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Staff Information
+              </Text>
+
+              <TextInput
+                label="Name *"
+                value={formData.name}
+                onChangeText={(text) => setFormData({ ...formData, name: text })}
+                style={styles.input}
+                mode="outlined"
+                placeholder="Enter the staff member's name"
+              />
+
+              <TextInput
+                label="PIN"
+                value={formData.pin}
+                onChangeText={(text) => setFormData({ ...formData, pin: text.replace(/\D/g, '') })}
+                style={styles.input}
+                mode="outlined"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={MAX_PIN_LENGTH}
+                disabled={formData.removePin}
+                placeholder={user?.pinHash ? 'Leave blank to keep the current PIN' : 'Optional, asked when switching to this user'}
+              />
+
+              {user?.pinHash && (
+                <Checkbox.Item
+                  label="Remove PIN"
+                  status={formData.removePin ? 'checked' : 'unchecked'}
+                  onPress={() => setFormData({ ...formData, removePin: !formData.removePin, pin: '' })}
+                  style={styles.checkboxItem}
+                />
+              )}
+            </Card.Content>
+          </Card>
+
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Role
+              </Text>
+
+              <RadioButton.Group
+                value={formData.role}
+                onValueChange={(value) => setFormData({ ...formData, role: value as StaffRole })}
+              >
+                {(Object.keys(ROLE_LABELS) as StaffRole[]).map(role => (
+                  <RadioButton.Item
+                    key={role}
+                    value={role}
+                    label={`${ROLE_LABELS[role]}\n${ROLE_DESCRIPTIONS[role]}`}
+                    labelVariant="bodyMedium"
+                    style={styles.roleItem}
+                  />
+                ))}
+              </RadioButton.Group>
+            </Card.Content>
+          </Card>
+
+          {user && (
+            <Button
+              mode="text"
+              icon="account-remove"
+              textColor={theme.colors.error}
+              onPress={handleArchive}
+              disabled={loading}
+            >
+              Remove Staff User
+            </Button>
+          )}
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              style={styles.button}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSave}
+              style={styles.button}
+              loading={loading}
+              disabled={loading}
+            >
+              {user ? 'Update User' : 'Add User'}
+            </Button>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      {Platform.OS === 'web' && (
+        <Modal visible={alertConfig.visible} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+              <Text variant="titleLarge" style={styles.modalTitle}>
+                {alertConfig.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.modalMessage}>
+                {alertConfig.message}
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => {
+                  alertConfig.onOk?.();
+                  setAlertConfig(prev => ({ ...prev, visible: false }));
+                }}
+              >
+                <Text style={{ color: theme.colors.onPrimary, fontWeight: 'bold' }}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  checkboxItem: {
+    paddingHorizontal: 0,
+  },
+  roleItem: {
+    paddingHorizontal: 0,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    marginBottom: 32,
+    gap: 16,
+  },
+  button: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  modalButton: {
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, ReactNode } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Text, Card, Button, ActivityIndicator } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '@/hooks/useTheme';
+import { getDatabase } from '@/services/database';
+import { MigrationError } from '@/services/migrations';
+
+interface StorageGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Opens and upgrades local storage before any data provider mounts. If a
+ * migration fails the stored data is left untouched and a recovery screen
+ * is shown instead of the app. Other failures, such as the device having no
+ * secure storage for the encryption key, get their own message.
+ */
+export function StorageGate({ children }: StorageGateProps) {
+  const { theme } = useTheme();
+  const [status, setStatus] = useState<'loading' | 'ready' | 'failed'>('loading');
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    openStorage();
+  }, []);
+
+  const openStorage = async () => {
+    setStatus('loading');
+    try {
+      await getDatabase();
+      setError(null);
+      setStatus('ready');
+    } catch (openError) {
+      console.error('Error opening storage:', openError);
+      setError(openError instanceof Error ? openError : new Error(String(openError)));
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'ready') {
+    return <>{children}</>;
+  }
+
+  if (status === 'loading') {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.colors.background }]}>
+        <ActivityIndicator size="large" />
+        <Text style={{ marginTop: 16 }}>Preparing your data...</Text>
+      </View>
+    );
+  }
+
+  const migrationError = error instanceof MigrationError ? error : null;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <MaterialIcons name="error-outline" size={64} color={theme.colors.error} />
+          <Text variant="headlineSmall" style={[styles.title, { color: theme.colors.onBackground }]}>
+            {migrationError ? 'Data Upgrade Failed' : 'Could Not Open Data'}
+          </Text>
+          <Text variant="bodyMedium" style={[styles.message, { color: theme.colors.onSurfaceVariant }]}>
+            {migrationError
+              ? 'Your clinic data could not be upgraded to work with this version of the app. Nothing has been changed or deleted - your records are still stored exactly as they were.'
+              : 'Your clinic data could not be opened on this device.'}
+          </Text>
+        </View>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Details
+            </Text>
+            {migrationError && (
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 8 }}>
+                Stored schema version: {migrationError.fromVersion}
+              </Text>
+            )}
+            <Text variant="bodySmall" style={{ color: theme.colors.error }}>
+              {error?.message}
+            </Text>
+          </Card.Content>
+        </Card>
+
+        <Text variant="bodyMedium" style={[styles.message, { color: theme.colors.onSurfaceVariant }]}>
+          Try again after restarting the device or updating the app. If the problem persists,
+          contact support before reinstalling, as reinstalling removes all local data.
+        </Text>
+
+        <Button mode="contained" icon="refresh" onPress={openStorage} style={styles.button}>
+          Try Again
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 24,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  button: {
+    marginTop: 8,
+  },
+});
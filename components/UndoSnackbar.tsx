@@ -0,0 +1,31 @@
+import React from 'react';
+import { Snackbar } from 'react-native-paper';
+import { useData } from '@/hooks/useData';
+
+const UNDO_TIMEOUT_MS = 5000;
+
+/**
+ * Offers to undo the most recent data change for a few seconds.
+ */
+export function UndoSnackbar() {
+  const { lastUndo, undo, dismissUndo } = useData();
+
+  return (
+    <Snackbar
+      key={lastUndo?.id}
+      visible={!!lastUndo}
+      duration={UNDO_TIMEOUT_MS}
+      onDismiss={() => lastUndo && dismissUndo(lastUndo.id)}
+      action={{
+        label: 'Undo',
+        onPress: () => {
+          if (lastUndo) {
+            undo(lastUndo.id).catch(error => console.error('Error undoing change:', error));
+          }
+        },
+      }}
+    >
+      {lastUndo?.label}
+    </Snackbar>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Appbar, List } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useUser } from '@/hooks/useUser';
+import { StaffUser } from '@/types';
+import { ROLE_LABELS } from '@/constants/permissions';
+import { PinPad } from './PinPad';
+
+interface UserSwitchModalProps {
+  onClose: () => void;
+  onSwitched: (user: StaffUser) => void;
+}
+
+/**
+ * Lists the staff users to switch to, asking for the chosen user's PIN when
+ * they have one.
+ */
+export function UserSwitchModal({ onClose, onSwitched }: UserSwitchModalProps) {
+  const { theme } = useTheme();
+  const { users, activeUser, switchUser } = useUser();
+  const [selectedUser, setSelectedUser] = useState<StaffUser | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const selectableUsers = users.filter(user => !user.archivedAt);
+
+  const completeSwitch = async (user: StaffUser, pin?: string) => {
+    setChecking(true);
+    try {
+      const result = await switchUser(user.id, pin);
+      if (result.success) {
+        onSwitched(user);
+      } else if (result.lockedUntil && result.lockedUntil.getTime() > Date.now()) {
+        setError(`Too many incorrect attempts. Try again after ${result.lockedUntil.toLocaleTimeString()}.`);
+      } else {
+        setError(`Incorrect PIN. ${result.attemptsRemaining} attempt(s) left before a pause.`);
+      }
+    } catch (switchError) {
+      console.error('Error checking PIN:', switchError);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleSelect = (user: StaffUser) => {
+    setError(null);
+    if (user.pinHash) {
+      setSelectedUser(user);
+    } else {
+      completeSwitch(user);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={selectedUser ? () => setSelectedUser(null) : onClose} />
+        <Appbar.Content title="Switch User" />
+      </Appbar.Header>
+
+      {selectedUser ? (
+        <View style={styles.pinContent}>
+          <PinPad
+            title={selectedUser.name}
+            subtitle="Enter your PIN to continue"
+            error={error}
+            disabled={checking}
+            onSubmit={pin => completeSwitch(selectedUser, pin)}
+          />
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          {selectableUsers.map(user => (
+            <List.Item
+              key={user.id}
+              title={user.name}
+              description={ROLE_LABELS[user.role]}
+              left={props => <List.Icon {...props} icon={user.pinHash ? 'account-lock' : 'account'} />}
+              right={props => user.id === activeUser?.id
+                ? <List.Icon {...props} icon="check" color={theme.colors.primary} />
+                : null}
+              onPress={() => handleSelect(user)}
+              disabled={checking || user.id === activeUser?.id}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  pinContent: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+});
@@ -1,5 +1,5 @@
-import React, { useState, Platform } from 'react';
-import { View, ScrollView, StyleSheet, Alert, Modal } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   Text, 
@@ -7,25 +7,44 @@ import {
   Button, 
   Card, 
   Appbar,
-  Switch
+  Switch,
+  SegmentedButtons,
+  Chip
 } from 'react-native-paper';
 import { useTheme } from '@/hooks/useTheme';
 import { useData } from '@/hooks/useData';
 import { useClinic } from '@/hooks/useClinic';
-import { Patient } from '@/types';
+import { useUser } from '@/hooks/useUser';
+import { InteractionOverride, Patient, SoapNote, Visit, VisitTemplate } from '@/types';
+import { formatAge, getAgeInYears, toDateString } from '@/utils/age';
+import { toVitalsInput, parseVitalsInput } from '@/utils/vitals';
+import { SOAP_SECTIONS, EMPTY_SOAP_NOTE, VisitNoteFormat, summarizeSoapNote } from '@/utils/soapNotes';
+import { VitalSignsFields } from './VitalSignsFields';
+import { DiagnosisCodePicker } from './DiagnosisCodePicker';
+import { PrescriptionEditor } from './PrescriptionEditor';
+import { InteractionWarnings } from './InteractionWarnings';
+import { ConfirmDialog } from './ConfirmDialog';
+import { isBlankPrescriptionItem } from '@/utils/prescriptions';
+import { checkPrescription, requiresOverride, isCoveredByOverride } from '@/utils/interactions';
+import { sharePrescription } from '@/services/prescriptionPdf';
 import { TouchableOpacity } from 'react-native';
 
 interface VisitFormProps {
   patient: Patient;
+  // When set, the form edits this visit instead of recording a new one.
+  visit?: Visit;
   onClose: () => void;
   onSave: () => void;
 }
 
-export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
+export function VisitForm({ patient, visit, onClose, onSave }: VisitFormProps) {
   const { theme } = useTheme();
-  const { addVisit, addAppointment } = useData();
-  const { activeClinic } = useClinic();
+  const { addVisit, updateVisit, visitTemplates } = useData();
+  const { activeClinic, clinics } = useClinic();
+  const { activeUser, users } = useUser();
   const [loading, setLoading] = useState(false);
+  const [showOverride, setShowOverride] = useState(false);
+  const [overrideReason, setOverrideReason] = useState(visit?.interactionOverride?.reason ?? '');
   const [alertConfig, setAlertConfig] = useState<{
     visible: boolean;
     title: string;
@@ -34,10 +53,15 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
   }>({ visible: false, title: '', message: '' });
 
   const [formData, setFormData] = useState({
-    complaints: '',
-    diagnosis: '',
-    treatment: '',
-    fee: '',
+    complaints: visit?.complaints || '',
+    diagnosis: visit?.diagnosis || '',
+    treatment: visit?.treatment || '',
+    noteFormat: (visit?.soap ? 'soap' : 'simple') as VisitNoteFormat,
+    soap: { ...EMPTY_SOAP_NOTE, ...visit?.soap },
+    diagnosisCodes: visit?.diagnosisCodes ?? [],
+    prescription: visit?.prescription ?? [],
+    vitals: toVitalsInput(visit?.vitals),
+    fee: visit ? visit.fee.toString() : '',
     hasFollowUp: false,
     followUpDate: '',
     followUpTime: '',
@@ -51,14 +75,140 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
     }
   };
 
-  const handleSave = async () => {
-    if (!formData.complaints.trim()) {
-      showWebAlert('Validation Error', 'Patient complaints are required');
+  // Carries what has been typed across when switching between formats.
+  const handleFormatChange = (noteFormat: VisitNoteFormat) => {
+    if (noteFormat === formData.noteFormat) return;
+
+    if (noteFormat === 'soap') {
+      setFormData({
+        ...formData,
+        noteFormat,
+        soap: {
+          ...formData.soap,
+          chiefComplaint: formData.soap.chiefComplaint || formData.complaints,
+          assessment: formData.soap.assessment || formData.diagnosis,
+          plan: formData.soap.plan || formData.treatment,
+        },
+      });
+    } else {
+      setFormData({ ...formData, noteFormat, ...summarizeSoapNote(formData.soap) });
+    }
+  };
+
+  const templates = useMemo(
+    () => visitTemplates
+      .filter(template => template.clinicId === activeClinic?.id)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [visitTemplates, activeClinic]
+  );
+
+  // Fills in the notes the template has text for, leaving the others as typed.
+  const applyTemplate = (template: VisitTemplate) => {
+    const updates: Partial<typeof formData> = {};
+
+    if (formData.noteFormat === 'soap') {
+      updates.soap = {
+        ...formData.soap,
+        chiefComplaint: template.complaints || formData.soap.chiefComplaint,
+        assessment: template.diagnosis || formData.soap.assessment,
+        plan: template.treatment || formData.soap.plan,
+      };
+    } else {
+      updates.complaints = template.complaints || formData.complaints;
+      updates.diagnosis = template.diagnosis || formData.diagnosis;
+      updates.treatment = template.treatment || formData.treatment;
+    }
+
+    if (template.fee !== undefined) {
+      updates.fee = template.fee.toString();
+    }
+
+    // Edited visits have no follow-up section.
+    if (template.followUpDays && !visit) {
+      const followUp = new Date();
+      followUp.setDate(followUp.getDate() + template.followUpDays);
+      updates.hasFollowUp = true;
+      updates.followUpDate = toDateString(followUp);
+    }
+
+    setFormData({ ...formData, ...updates });
+  };
+
+  const updateSoap = (field: keyof SoapNote, text: string) => {
+    setFormData({ ...formData, soap: { ...formData.soap, [field]: text } });
+  };
+
+  const getNotes = () => (formData.noteFormat === 'soap'
+    ? { ...summarizeSoapNote(formData.soap), soap: formData.soap }
+    : { complaints: formData.complaints, diagnosis: formData.diagnosis, treatment: formData.treatment, soap: undefined });
+
+  const prescription = formData.prescription.filter(item => !isBlankPrescriptionItem(item));
+  const warnings = checkPrescription(prescription, patient);
+
+  const handlePrintPrescription = async () => {
+    if (prescription.some(item => !item.drug.trim())) {
+      showWebAlert('Validation Error', 'Each prescribed drug needs a name');
       return;
     }
 
-    if (!formData.treatment.trim()) {
-      showWebAlert('Validation Error', 'Treatment information is required');
+    // A prescription with serious warnings is only handed out once the override is on record.
+    if (requiresOverride(warnings) && !isCoveredByOverride(warnings, visit?.interactionOverride)) {
+      showWebAlert(
+        'Override Required',
+        'This prescription has interaction warnings. Save the visit with a reason for overriding them before printing it.'
+      );
+      return;
+    }
+
+    // An edited visit prints with its own clinic and prescriber, not the current ones.
+    const clinic = visit ? clinics.find(candidate => candidate.id === visit.clinicId) : activeClinic;
+    if (!clinic) {
+      showWebAlert('Error', visit ? 'The clinic of this visit was not found' : 'No active clinic selected');
+      return;
+    }
+
+    try {
+      await sharePrescription({
+        clinic,
+        patient,
+        items: prescription,
+        date: visit?.visitDate ?? new Date().toISOString(),
+        diagnosis: getNotes().diagnosis,
+        prescriber: visit ? users.find(user => user.id === visit.createdBy)?.name : activeUser?.name,
+      });
+    } catch (error) {
+      showWebAlert('Error', 'Failed to create the prescription');
+    }
+  };
+
+  /**
+   * Saves the form. A prescription with serious interaction warnings is held
+   * back until the prescriber gives `confirmedOverrideReason`, unless an
+   * override saved earlier already covers the same warnings.
+   */
+  const handleSave = async (confirmedOverrideReason?: string) => {
+    const isSoap = formData.noteFormat === 'soap';
+    const notes = getNotes();
+
+    if (!notes.complaints.trim()) {
+      showWebAlert('Validation Error', isSoap ? 'Chief complaint is required' : 'Patient complaints are required');
+      return;
+    }
+
+    // A prescription is enough of a plan on its own.
+    if (!notes.treatment.trim() && prescription.length === 0) {
+      showWebAlert('Validation Error', isSoap ? 'Plan or a prescription is required' : 'Treatment or a prescription is required');
+      return;
+    }
+
+    if (prescription.some(item => !item.drug.trim())) {
+      showWebAlert('Validation Error', 'Each prescribed drug needs a name');
+      return;
+    }
+
+    const { vitals, error: vitalsError } = parseVitalsInput(formData.vitals);
+    if (vitalsError) {
+      showWebAlert('Validation Error', vitalsError);
       return;
     }
 
@@ -77,35 +227,72 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
       return;
     }
 
+    let interactionOverride: InteractionOverride | undefined;
+    if (requiresOverride(warnings)) {
+      if (isCoveredByOverride(warnings, visit?.interactionOverride)) {
+        interactionOverride = visit?.interactionOverride;
+      } else if (confirmedOverrideReason) {
+        interactionOverride = {
+          warnings: warnings
+            .filter(warning => warning.severity !== 'minor')
+            .map(({ severity, message }) => ({ severity, message })),
+          reason: confirmedOverrideReason,
+          overriddenAt: new Date().toISOString(),
+          overriddenBy: activeUser?.id,
+        };
+      } else {
+        setShowOverride(true);
+        return;
+      }
+    }
+
     setLoading(true);
     try {
+      if (visit) {
+        await updateVisit(visit.id, {
+          ...notes,
+          diagnosisCodes: formData.diagnosisCodes,
+          prescription,
+          interactionOverride,
+          vitals,
+          fee: Number(formData.fee),
+        });
+        showWebAlert('Success', 'Visit updated successfully', () => {
+          onSave();
+          onClose();
+        });
+        return;
+      }
+
       const visitData = {
         patientId: patient.id,
         patientName: patient.name,
-        complaints: formData.complaints,
-        diagnosis: formData.diagnosis,
-        treatment: formData.treatment,
+        ...notes,
+        diagnosisCodes: formData.diagnosisCodes,
+        prescription,
+        interactionOverride,
+        vitals,
         fee: Number(formData.fee),
         followUpDate: formData.hasFollowUp ? formData.followUpDate : undefined,
         visitDate: new Date().toISOString(),
         clinicId: activeClinic.id,
       };
 
-      await addVisit(visitData);
-
       // Create follow-up appointment if specified
-      if (formData.hasFollowUp && formData.followUpDate && formData.followUpTime) {
-        await addAppointment({
-          patientId: patient.id,
-          patientName: patient.name,
-          phoneNumber: patient.phoneNumber,
-          date: formData.followUpDate,
-          time: formData.followUpTime,
-          status: 'scheduled',
-          notes: 'Follow-up appointment',
-          clinicId: activeClinic.id,
-        });
-      }
+      const followUp = formData.hasFollowUp && formData.followUpDate && formData.followUpTime
+        ? {
+            patientId: patient.id,
+            patientName: patient.name,
+            phoneNumber: patient.phoneNumber,
+            date: formData.followUpDate,
+            time: formData.followUpTime,
+            status: 'scheduled' as const,
+            notes: 'Follow-up appointment',
+            clinicId: activeClinic.id,
+          }
+        : undefined;
+
+      await addVisit(visitData, followUp);
 
       showWebAlert('Success', 'Visit recorded successfully', () => {
         onSave();
@@ -123,8 +310,8 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
       <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
         <Appbar.Header>
           <Appbar.BackAction onPress={onClose} />
-          <Appbar.Content title="Record Visit" />
-          <Appbar.Action icon="check" onPress={handleSave} disabled={loading} />
+          <Appbar.Content title={visit ? 'Edit Visit' : 'Record Visit'} />
+          <Appbar.Action icon="check" onPress={() => handleSave()} disabled={loading} />
         </Appbar.Header>
 
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
@@ -134,8 +321,21 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
                 Patient: {patient.name}
               </Text>
               <Text variant="bodyMedium" style={{ color: theme.colors.onSurfaceVariant, marginBottom: 16 }}>
-                {patient.age} years • {patient.sex} • {patient.phoneNumber}
+                {formatAge(patient)} • {patient.sex} • {patient.phoneNumber}
+              </Text>
+            </Card.Content>
+          </Card>
+
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Vital Signs
               </Text>
+              <VitalSignsFields
+                ageInYears={getAgeInYears(patient, visit ? new Date(visit.visitDate) : undefined)}
+                value={formData.vitals}
+                onChange={(vitals) => setFormData({ ...formData, vitals })}
+              />
             </Card.Content>
           </Card>
 
@@ -145,38 +345,106 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
                 Visit Details
               </Text>
 
-              <TextInput
-                label="Patient Complaints *"
-                value={formData.complaints}
-                onChangeText={(text) => setFormData({ ...formData, complaints: text })}
-                style={styles.input}
-                mode="outlined"
-                multiline
-                numberOfLines={3}
-                placeholder="Describe patient's complaints and symptoms..."
-              />
+              {templates.length > 0 && (
+                <>
+                  <Text variant="labelMedium" style={styles.templatesLabel}>
+                    Templates
+                  </Text>
+                  <View style={styles.templateChips}>
+                    {templates.map(template => (
+                      <Chip
+                        key={template.id}
+                        icon="text-box-outline"
+                        onPress={() => applyTemplate(template)}
+                        compact
+                      >
+                        {template.name}
+                      </Chip>
+                    ))}
+                  </View>
+                </>
+              )}
 
-              <TextInput
-                label="Diagnosis"
-                value={formData.diagnosis}
-                onChangeText={(text) => setFormData({ ...formData, diagnosis: text })}
+              <SegmentedButtons
+                value={formData.noteFormat}
+                onValueChange={(value) => handleFormatChange(value as VisitNoteFormat)}
+                buttons={[
+                  { value: 'simple', label: 'Simple Notes' },
+                  { value: 'soap', label: 'SOAP' },
+                ]}
                 style={styles.input}
-                mode="outlined"
-                multiline
-                numberOfLines={2}
-                placeholder="Medical diagnosis (optional)..."
               />
 
-              <TextInput
-                label="Treatment *"
-                value={formData.treatment}
-                onChangeText={(text) => setFormData({ ...formData, treatment: text })}
-                style={styles.input}
-                mode="outlined"
-                multiline
-                numberOfLines={4}
-                placeholder="Treatment provided, medications prescribed, instructions..."
-              />
+              {formData.noteFormat === 'soap' ? (
+                SOAP_SECTIONS.map(section => (
+                  <View key={section.title}>
+                    <Text variant="titleSmall" style={styles.soapSectionTitle}>
+                      {section.title}
+                    </Text>
+                    {section.fields.map(({ field, label, placeholder, required }) => (
+                      <TextInput
+                        key={field}
+                        label={required ? `${label} *` : label}
+                        value={formData.soap[field]}
+                        onChangeText={(text) => updateSoap(field, text)}
+                        style={styles.input}
+                        mode="outlined"
+                        multiline
+                        numberOfLines={2}
+                        placeholder={placeholder}
+                      />
+                    ))}
+                    {section.fields.some(({ field }) => field === 'assessment') && (
+                      <DiagnosisCodePicker
+                        value={formData.diagnosisCodes}
+                        onChange={(diagnosisCodes) => setFormData({ ...formData, diagnosisCodes })}
+                        suggestFrom={formData.soap.assessment}
+                      />
+                    )}
+                  </View>
+                ))
+              ) : (
+                <>
+                  <TextInput
+                    label="Patient Complaints *"
+                    value={formData.complaints}
+                    onChangeText={(text) => setFormData({ ...formData, complaints: text })}
+                    style={styles.input}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={3}
+                    placeholder="Describe patient's complaints and symptoms..."
+                  />
+
+                  <TextInput
+                    label="Diagnosis"
+                    value={formData.diagnosis}
+                    onChangeText={(text) => setFormData({ ...formData, diagnosis: text })}
+                    style={styles.input}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={2}
+                    placeholder="Medical diagnosis (optional)..."
+                  />
+
+                  <DiagnosisCodePicker
+                    value={formData.diagnosisCodes}
+                    onChange={(diagnosisCodes) => setFormData({ ...formData, diagnosisCodes })}
+                    suggestFrom={formData.diagnosis}
+                  />
+
+                  <TextInput
+                    label="Treatment"
+                    value={formData.treatment}
+                    onChangeText={(text) => setFormData({ ...formData, treatment: text })}
+                    style={styles.input}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={4}
+                    placeholder="Treatment provided, procedures, advice..."
+                  />
+                </>
+              )}
 
               <TextInput
                 label="Fee Amount *"
@@ -194,40 +462,63 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
           <Card style={styles.card}>
             <Card.Content>
               <Text variant="titleMedium" style={styles.sectionTitle}>
-                Follow-up Appointment
+                Prescription
               </Text>
+              <PrescriptionEditor
+                value={formData.prescription}
+                onChange={(items) => setFormData({ ...formData, prescription: items })}
+              />
+              {warnings.length > 0 && <InteractionWarnings warnings={warnings} />}
+              <Button
+                mode="contained-tonal"
+                icon="printer"
+                onPress={handlePrintPrescription}
+                disabled={prescription.length === 0}
+              >
+                Print / Share Prescription
+              </Button>
+            </Card.Content>
+          </Card>
 
-              <View style={styles.switchRow}>
-                <Text variant="bodyMedium">Schedule follow-up appointment</Text>
-                <Switch
-                  value={formData.hasFollowUp}
-                  onValueChange={(value) => setFormData({ ...formData, hasFollowUp: value })}
-                />
-              </View>
+          {!visit && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.sectionTitle}>
+                  Follow-up Appointment
+                </Text>
 
-              {formData.hasFollowUp && (
-                <>
-                  <TextInput
-                    label="Follow-up Date"
-                    value={formData.followUpDate}
-                    onChangeText={(text) => setFormData({ ...formData, followUpDate: text })}
-                    style={styles.input}
-                    mode="outlined"
-                    placeholder="YYYY-MM-DD"
+                <View style={styles.switchRow}>
+                  <Text variant="bodyMedium">Schedule follow-up appointment</Text>
+                  <Switch
+                    value={formData.hasFollowUp}
+                    onValueChange={(value) => setFormData({ ...formData, hasFollowUp: value })}
                   />
+                </View>
 
-                  <TextInput
-                    label="Follow-up Time"
-                    value={formData.followUpTime}
-                    onChangeText={(text) => setFormData({ ...formData, followUpTime: text })}
-                    style={styles.input}
-                    mode="outlined"
-                    placeholder="HH:MM AM/PM"
-                  />
-                </>
-              )}
-            </Card.Content>
-          </Card>
+                {formData.hasFollowUp && (
+                  <>
+                    <TextInput
+                      label="Follow-up Date"
+                      value={formData.followUpDate}
+                      onChangeText={(text) => setFormData({ ...formData, followUpDate: text })}
+                      style={styles.input}
+                      mode="outlined"
+                      placeholder="YYYY-MM-DD"
+                    />
+
+                    <TextInput
+                      label="Follow-up Time"
+                      value={formData.followUpTime}
+                      onChangeText={(text) => setFormData({ ...formData, followUpTime: text })}
+                      style={styles.input}
+                      mode="outlined"
+                      placeholder="HH:MM AM/PM"
+                    />
+                  </>
+                )}
+              </Card.Content>
+            </Card>
+          )}
 
           <View style={styles.buttonContainer}>
             <Button 
@@ -240,17 +531,44 @@ export function VisitForm({ patient, onClose, onSave }: VisitFormProps) {
             </Button>
             <Button 
               mode="contained" 
-              onPress={handleSave}
+              onPress={() => handleSave()}
               style={styles.button}
               loading={loading}
               disabled={loading}
             >
-              Record Visit
+              {visit ? 'Update Visit' : 'Record Visit'}
             </Button>
           </View>
         </ScrollView>
       </SafeAreaView>
 
+      <ConfirmDialog
+        visible={showOverride}
+        title="Prescription Warnings"
+        message="Review these warnings before prescribing. To prescribe anyway, record the reason; it is saved with the visit."
+        confirmLabel="Override and Save"
+        destructive
+        confirmDisabled={!overrideReason.trim()}
+        onConfirm={() => {
+          setShowOverride(false);
+          handleSave(overrideReason.trim());
+        }}
+        onCancel={() => setShowOverride(false)}
+      >
+        <ScrollView style={styles.overrideWarnings}>
+          <InteractionWarnings warnings={warnings} />
+        </ScrollView>
+        <TextInput
+          label="Reason for override *"
+          value={overrideReason}
+          onChangeText={setOverrideReason}
+          style={styles.input}
+          mode="outlined"
+          multiline
+          placeholder="e.g. tolerated before, benefit outweighs risk, will monitor INR"
+        />
+      </ConfirmDialog>
+
       {Platform.OS === 'web' && (
         <Modal visible={alertConfig.visible} transparent animationType="fade">
           <View style={styles.modalOverlay}>
@@ -296,6 +614,23 @@ const styles = StyleSheet.create({
   input: {
     marginBottom: 16,
   },
+  overrideWarnings: {
+    maxHeight: 240,
+  },
+  templatesLabel: {
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  templateChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  soapSectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
   switchRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
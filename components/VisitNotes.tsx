@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { Visit } from '@/types';
+import { SOAP_SECTIONS } from '@/utils/soapNotes';
+import { formatDiagnosisCode } from '@/utils/icd10';
+import { formatPrescriptionItem } from '@/utils/prescriptions';
+
+interface VisitNotesProps {
+  visit: Visit;
+}
+
+/**
+ * The clinical notes of a visit: SOAP sections for visits noted in that
+ * format, complaints, diagnosis and treatment otherwise. Coded diagnoses
+ * follow the free-text diagnosis or assessment, the prescription follows the
+ * treatment or plan.
+ */
+export function VisitNotes({ visit }: VisitNotesProps) {
+  const { theme } = useTheme();
+  const soap = visit.soap;
+
+  const diagnosisCodes = visit.diagnosisCodes?.length ? (
+    <View style={styles.visitDetail}>
+      <Text variant="labelMedium" style={styles.visitLabel}>ICD-10:</Text>
+      {visit.diagnosisCodes.map(diagnosis => (
+        <Text key={diagnosis.code} variant="bodySmall">{formatDiagnosisCode(diagnosis)}</Text>
+      ))}
+    </View>
+  ) : null;
+
+  const prescription = visit.prescription?.length ? (
+    <View style={styles.visitDetail}>
+      <Text variant="labelMedium" style={styles.visitLabel}>Prescription:</Text>
+      {visit.prescription.map(item => (
+        <Text key={item.id} variant="bodySmall">
+          • {formatPrescriptionItem(item)}{item.instructions ? ` (${item.instructions})` : ''}
+        </Text>
+      ))}
+      {visit.interactionOverride && (
+        <Text variant="bodySmall" style={[styles.override, { color: theme.colors.error }]}>
+          Interaction warnings overridden: {visit.interactionOverride.reason}
+        </Text>
+      )}
+    </View>
+  ) : null;
+
+  if (!soap) {
+    return (
+      <>
+        <View style={styles.visitDetail}>
+          <Text variant="labelMedium" style={styles.visitLabel}>Complaints:</Text>
+          <Text variant="bodySmall">{visit.complaints}</Text>
+        </View>
+
+        {visit.diagnosis && (
+          <View style={styles.visitDetail}>
+            <Text variant="labelMedium" style={styles.visitLabel}>Diagnosis:</Text>
+            <Text variant="bodySmall">{visit.diagnosis}</Text>
+          </View>
+        )}
+
+        {diagnosisCodes}
+
+        {visit.treatment && (
+          <View style={styles.visitDetail}>
+            <Text variant="labelMedium" style={styles.visitLabel}>Treatment:</Text>
+            <Text variant="bodySmall">{visit.treatment}</Text>
+          </View>
+        )}
+
+        {prescription}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {SOAP_SECTIONS.map(section => {
+        const fields = section.fields.filter(({ field }) => soap[field]?.trim());
+        const sectionFields = section.fields.map(({ field }) => field);
+        const extra = sectionFields.includes('assessment') ? diagnosisCodes
+          : sectionFields.includes('plan') ? prescription : null;
+        if (fields.length === 0 && !extra) return null;
+
+        return (
+          <View key={section.title} style={styles.visitDetail}>
+            <Text variant="labelMedium" style={[styles.soapTitle, { color: theme.colors.primary }]}>
+              {section.title}
+            </Text>
+            {fields.map(({ field, label }) => (
+              <View key={field} style={styles.soapField}>
+                <Text variant="labelMedium" style={styles.visitLabel}>{label}:</Text>
+                <Text variant="bodySmall">{soap[field]}</Text>
+              </View>
+            ))}
+            {extra}
+          </View>
+        );
+      })}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  visitDetail: {
+    marginBottom: 8,
+  },
+  visitLabel: {
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  soapTitle: {
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  override: {
+    marginTop: 4,
+  },
+  soapField: {
+    marginBottom: 4,
+  },
+});
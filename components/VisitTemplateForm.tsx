@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { View, ScrollView, StyleSheet, Alert, Modal, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  Text,
+  TextInput,
+  Button,
+  Card,
+  Appbar
+} from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { useData } from '@/hooks/useData';
+import { useClinic } from '@/hooks/useClinic';
+import { VisitTemplate } from '@/types';
+import { ConfirmDialog } from './ConfirmDialog';
+import { TouchableOpacity } from 'react-native';
+
+interface VisitTemplateFormProps {
+  template?: VisitTemplate;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+const MAX_FOLLOW_UP_DAYS = 365;
+
+export function VisitTemplateForm({ template, onClose, onSave }: VisitTemplateFormProps) {
+  const { theme } = useTheme();
+  const { addVisitTemplate, updateVisitTemplate, deleteVisitTemplate } = useData();
+  const { activeClinic } = useClinic();
+  const [loading, setLoading] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [alertConfig, setAlertConfig] = useState<{
+    visible: boolean;
+    title: string;
+    message: string;
+    onOk?: () => void;
+  }>({ visible: false, title: '', message: '' });
+
+  const [formData, setFormData] = useState({
+    name: template?.name || '',
+    complaints: template?.complaints || '',
+    diagnosis: template?.diagnosis || '',
+    treatment: template?.treatment || '',
+    fee: template?.fee?.toString() ?? '',
+    followUpDays: template?.followUpDays?.toString() ?? '',
+  });
+
+  const showWebAlert = (title: string, message: string, onOk?: () => void) => {
+    if (Platform.OS === 'web') {
+      setAlertConfig({ visible: true, title, message, onOk });
+    } else {
+      Alert.alert(title, message, onOk ? [{ text: 'OK', onPress: onOk }] : undefined);
+    }
+  };
+
+  const finish = (message: string) => {
+    showWebAlert('Success', message, () => {
+      onSave();
+      onClose();
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      showWebAlert('Validation Error', 'Template name is required');
+      return;
+    }
+
+    const fee = formData.fee.trim();
+    if (fee && (isNaN(Number(fee)) || Number(fee) < 0)) {
+      showWebAlert('Validation Error', 'Please enter a valid fee amount');
+      return;
+    }
+
+    const followUpDays = formData.followUpDays.trim();
+    if (followUpDays && !(/^\d+$/.test(followUpDays) && Number(followUpDays) >= 1 && Number(followUpDays) <= MAX_FOLLOW_UP_DAYS)) {
+      showWebAlert('Validation Error', `Follow-up must be 1 to ${MAX_FOLLOW_UP_DAYS} days after the visit`);
+      return;
+    }
+
+    if (!activeClinic) {
+      showWebAlert('Error', 'No active clinic selected');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const templateData = {
+        name: formData.name.trim(),
+        complaints: formData.complaints.trim(),
+        diagnosis: formData.diagnosis.trim(),
+        treatment: formData.treatment.trim(),
+        fee: fee ? Number(fee) : undefined,
+        followUpDays: followUpDays ? Number(followUpDays) : undefined,
+        clinicId: template?.clinicId ?? activeClinic.id,
+      };
+
+      if (template) {
+        await updateVisitTemplate(template.id, templateData);
+        finish('Visit template updated successfully');
+      } else {
+        await addVisitTemplate(templateData);
+        finish('Visit template added successfully');
+      }
+    } catch (error) {
+      showWebAlert('Error', 'Failed to save visit template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!template) return;
+
+    setLoading(true);
+    try {
+      await deleteVisitTemplate(template.id);
+      setShowDelete(false);
+      onSave();
+      onClose();
+    } catch (error) {
+      setShowDelete(false);
+      showWebAlert('Error', 'Failed to delete visit template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top']}>
+        <Appbar.Header>
+          <Appbar.BackAction onPress={onClose} />
+          <Appbar.Content title={template ? 'Edit Visit Template' : 'Add Visit Template'} />
+          <Appbar.Action icon="check" onPress={handleSave} disabled={loading} />
+        </Appbar.Header>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Template
+              </Text>
+
+              <TextInput
+                label="Name *"
+                value={formData.name}
+                onChangeText={(text) => setFormData({ ...formData, name: text })}
+                style={styles.input}
+                mode="outlined"
+                placeholder="e.g. Blood pressure review"
+              />
+
+              <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+                Shown when recording a visit at {activeClinic?.name ?? 'the active clinic'}. Tapping it fills in the
+                fields below; blank fields are left as they are.
+              </Text>
+            </Card.Content>
+          </Card>
+
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Visit Defaults
+              </Text>
+
+              <TextInput
+                label="Complaints"
+                value={formData.complaints}
+                onChangeText={(text) => setFormData({ ...formData, complaints: text })}
+                style={styles.input}
+                mode="outlined"
+                multiline
+                numberOfLines={3}
+                placeholder="Typical complaints and symptoms..."
+              />
+
+              <TextInput
+                label="Diagnosis"
+                value={formData.diagnosis}
+                onChangeText={(text) => setFormData({ ...formData, diagnosis: text })}
+                style={styles.input}
+                mode="outlined"
+                multiline
+                numberOfLines={2}
+                placeholder="Usual diagnosis..."
+              />
+
+              <TextInput
+                label="Treatment"
+                value={formData.treatment}
+                onChangeText={(text) => setFormData({ ...formData, treatment: text })}
+                style={styles.input}
+                mode="outlined"
+                multiline
+                numberOfLines={4}
+                placeholder="Usual treatment, procedures, advice..."
+              />
+
+              <TextInput
+                label="Fee Amount"
+                value={formData.fee}
+                onChangeText={(text) => setFormData({ ...formData, fee: text })}
+                style={styles.input}
+                mode="outlined"
+                keyboardType="numeric"
+                placeholder="0.00"
+                left={<TextInput.Affix text="$" />}
+              />
+
+              <TextInput
+                label="Follow-up After"
+                value={formData.followUpDays}
+                onChangeText={(text) => setFormData({ ...formData, followUpDays: text.replace(/\D/g, '') })}
+                style={styles.input}
+                mode="outlined"
+                keyboardType="number-pad"
+                placeholder="No follow-up"
+                right={<TextInput.Affix text="days" />}
+              />
+            </Card.Content>
+          </Card>
+
+          {template && (
+            <Button
+              mode="text"
+              icon="delete"
+              textColor={theme.colors.error}
+              onPress={() => setShowDelete(true)}
+              disabled={loading}
+            >
+              Delete Template
+            </Button>
+          )}
+
+          <View style={styles.buttonContainer}>
+            <Button
+              mode="outlined"
+              onPress={onClose}
+              style={styles.button}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button
+              mode="contained"
+              onPress={handleSave}
+              style={styles.button}
+              loading={loading}
+              disabled={loading}
+            >
+              {template ? 'Update Template' : 'Add Template'}
+            </Button>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <ConfirmDialog
+        visible={showDelete}
+        title="Delete Visit Template"
+        message={`Delete "${template?.name}"? Visits already recorded with it are not changed.`}
+        confirmLabel="Delete"
+        destructive
+        loading={loading}
+        onConfirm={handleDelete}
+        onCancel={() => setShowDelete(false)}
+      />
+
+      {Platform.OS === 'web' && (
+        <Modal visible={alertConfig.visible} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={[styles.modalContent, { backgroundColor: theme.colors.surface }]}>
+              <Text variant="titleLarge" style={styles.modalTitle}>
+                {alertConfig.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.modalMessage}>
+                {alertConfig.message}
+              </Text>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
+                onPress={() => {
+                  alertConfig.onOk?.();
+                  setAlertConfig(prev => ({ ...prev, visible: false }));
+                }}
+              >
+                <Text style={{ color: theme.colors.onPrimary, fontWeight: 'bold' }}>OK</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    padding: 16,
+  },
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  input: {
+    marginBottom: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    marginBottom: 32,
+    gap: 16,
+  },
+  button: {
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    padding: 20,
+    borderRadius: 8,
+    minWidth: 280,
+    maxWidth: '90%',
+  },
+  modalTitle: {
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  modalMessage: {
+    marginBottom: 20,
+  },
+  modalButton: {
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+});
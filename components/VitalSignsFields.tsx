@@ -0,0 +1,101 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, HelperText } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import {
+  VITAL_SIGNS,
+  VitalSign,
+  VitalsInput,
+  VitalFlag,
+  getVitalFlag,
+  getBmiFlag,
+  calculateBmi,
+} from '@/utils/vitals';
+
+interface VitalSignsFieldsProps {
+  // The patient's age when the vitals are taken.
+  ageInYears: number;
+  value: VitalsInput;
+  onChange: (value: VitalsInput) => void;
+}
+
+// Fields laid out two to a row.
+const ROWS: VitalSign[][] = [
+  ['systolic', 'diastolic'],
+  ['pulse', 'temperature'],
+  ['respiratoryRate', 'oxygenSaturation'],
+  ['weight', 'height'],
+];
+
+const FLAG_LABELS: Record<VitalFlag, string> = {
+  low: 'Below normal range',
+  high: 'Above normal range',
+};
+
+function readNumber(text: string) {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() && !isNaN(value) ? value : undefined;
+}
+
+export function VitalSignsFields({ ageInYears, value, onChange }: VitalSignsFieldsProps) {
+  const { theme } = useTheme();
+
+  const bmi = calculateBmi({ weight: readNumber(value.weight), height: readNumber(value.height) });
+  const bmiFlag = bmi !== null ? getBmiFlag(bmi, ageInYears) : null;
+
+  const renderField = (sign: VitalSign) => {
+    const reading = readNumber(value[sign]);
+    const flag = reading !== undefined ? getVitalFlag(sign, reading, ageInYears) : null;
+    const { label, unit } = VITAL_SIGNS[sign];
+
+    return (
+      <View key={sign} style={styles.field}>
+        <TextInput
+          label={label}
+          value={value[sign]}
+          onChangeText={(text) => onChange({ ...value, [sign]: text })}
+          mode="outlined"
+          keyboardType="decimal-pad"
+          dense
+          error={!!flag}
+          right={<TextInput.Affix text={unit} />}
+        />
+        <HelperText type="error" visible={!!flag} style={styles.helperText}>
+          {flag ? FLAG_LABELS[flag] : ' '}
+        </HelperText>
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      {ROWS.map(row => (
+        <View key={row.join('-')} style={styles.row}>
+          {row.map(renderField)}
+        </View>
+      ))}
+
+      {bmi !== null && (
+        <Text
+          variant="bodyMedium"
+          style={{ color: bmiFlag ? theme.colors.error : theme.colors.onSurfaceVariant }}
+        >
+          BMI {bmi.toFixed(1)}{bmiFlag ? ` (${bmiFlag === 'low' ? 'underweight' : 'above healthy range'})` : ''}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  helperText: {
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,87 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { useTheme } from '@/hooks/useTheme';
+import { Vitals } from '@/types';
+import { VitalFlag, VitalSign, calculateBmi, formatVital, getBmiFlag, getVitalFlag } from '@/utils/vitals';
+
+interface VitalsSummaryProps {
+  vitals: Vitals;
+  // The patient's age when the vitals were taken.
+  ageInYears: number;
+}
+
+const SHORT_LABELS: Partial<Record<VitalSign, string>> = {
+  pulse: 'Pulse',
+  temperature: 'Temp',
+  respiratoryRate: 'RR',
+  oxygenSaturation: 'SpO2',
+  weight: 'Wt',
+  height: 'Ht',
+};
+
+const FLAG_ARROWS: Record<VitalFlag, string> = {
+  low: ' ↓',
+  high: ' ↑',
+};
+
+/**
+ * The vital signs of one visit on a wrapping line, out-of-range readings in
+ * the error colour with an arrow.
+ */
+export function VitalsSummary({ vitals, ageInYears }: VitalsSummaryProps) {
+  const { theme } = useTheme();
+  const items: { key: string; text: string; flag: VitalFlag | null }[] = [];
+
+  if (vitals.systolic !== undefined && vitals.diastolic !== undefined) {
+    items.push({
+      key: 'bloodPressure',
+      text: `BP ${vitals.systolic}/${vitals.diastolic} mmHg`,
+      flag: getVitalFlag('systolic', vitals.systolic, ageInYears) ?? getVitalFlag('diastolic', vitals.diastolic, ageInYears),
+    });
+  }
+
+  (Object.keys(SHORT_LABELS) as VitalSign[]).forEach(sign => {
+    const value = vitals[sign];
+    if (value === undefined) return;
+    items.push({ key: sign, text: `${SHORT_LABELS[sign]} ${formatVital(sign, value)}`, flag: getVitalFlag(sign, value, ageInYears) });
+  });
+
+  const bmi = calculateBmi(vitals);
+  if (bmi !== null) {
+    items.push({ key: 'bmi', text: `BMI ${bmi.toFixed(1)}`, flag: getBmiFlag(bmi, ageInYears) });
+  }
+
+  return (
+    <View style={styles.container}>
+      {items.map(item => (
+        <Text
+          key={item.key}
+          variant="bodySmall"
+          style={[
+            styles.item,
+            { backgroundColor: item.flag ? theme.colors.errorContainer : theme.colors.surfaceVariant },
+            { color: item.flag ? theme.colors.onErrorContainer : theme.colors.onSurfaceVariant },
+          ]}
+        >
+          {item.text}{item.flag ? FLAG_ARROWS[item.flag] : ''}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  item: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,186 @@
+import React, { useState, useMemo } from 'react';
+import { ScrollView, StyleSheet, useWindowDimensions } from 'react-native';
+import { Text, Card, Chip } from 'react-native-paper';
+import { LineChart } from 'react-native-chart-kit';
+import { useTheme } from '@/hooks/useTheme';
+import { Patient, Visit } from '@/types';
+import { getAgeInYears } from '@/utils/age';
+import {
+  VITAL_SIGNS,
+  VitalSign,
+  BMI_NORMAL_RANGE,
+  ADULT_AGE,
+  calculateBmi,
+  getBmiFlag,
+  getVitalFlag,
+} from '@/utils/vitals';
+
+interface VitalsTrendChartProps {
+  patient: Patient;
+  visits: Visit[];
+}
+
+type Trend = 'bloodPressure' | 'pulse' | 'temperature' | 'respiratoryRate' | 'oxygenSaturation' | 'weight' | 'bmi';
+
+interface TrendPoint {
+  date: string;
+  // One value per line; blood pressure has two.
+  values: number[];
+  flagged: boolean;
+}
+
+const TREND_LABELS: Record<Trend, string> = {
+  bloodPressure: 'Blood pressure',
+  pulse: 'Pulse',
+  temperature: 'Temperature',
+  respiratoryRate: 'Resp. rate',
+  oxygenSaturation: 'SpO2',
+  weight: 'Weight',
+  bmi: 'BMI',
+};
+
+// Enough points to read a trend without crowding the axis labels.
+const MAX_POINTS = 10;
+
+function trendPoint(trend: Trend, visit: Visit, patient: Patient): TrendPoint | null {
+  const vitals = visit.vitals;
+  if (!vitals) return null;
+  const date = visit.visitDate;
+  const age = getAgeInYears(patient, new Date(date));
+
+  switch (trend) {
+    case 'bloodPressure':
+      if (vitals.systolic === undefined || vitals.diastolic === undefined) return null;
+      return {
+        date,
+        values: [vitals.systolic, vitals.diastolic],
+        flagged: !!getVitalFlag('systolic', vitals.systolic, age) || !!getVitalFlag('diastolic', vitals.diastolic, age),
+      };
+    case 'bmi': {
+      const bmi = calculateBmi(vitals);
+      return bmi === null ? null : { date, values: [bmi], flagged: !!getBmiFlag(bmi, age) };
+    }
+    default: {
+      const value = vitals[trend];
+      return value === undefined ? null : { date, values: [value], flagged: !!getVitalFlag(trend, value, age) };
+    }
+  }
+}
+
+function describeRange(trend: Trend) {
+  if (trend === 'bmi') return `Healthy range ${BMI_NORMAL_RANGE.min}–${BMI_NORMAL_RANGE.max}`;
+  if (trend === 'bloodPressure') {
+    const { systolic, diastolic } = VITAL_SIGNS;
+    return `Normal below ${systolic.normal!.max + 1}/${diastolic.normal!.max + 1} mmHg`;
+  }
+  const { normal, unit } = VITAL_SIGNS[trend as VitalSign];
+  return normal ? `Normal ${normal.min}–${normal.max} ${unit}` : VITAL_SIGNS[trend as VitalSign].unit;
+}
+
+/**
+ * Line charts of a patient's vital signs across their visits. Only signs
+ * recorded at two or more visits are offered; renders nothing otherwise.
+ */
+export function VitalsTrendChart({ patient, visits }: VitalsTrendChartProps) {
+  const { theme } = useTheme();
+  const { width } = useWindowDimensions();
+
+  const trends = useMemo(() => {
+    const oldestFirst = [...visits].sort((a, b) => a.visitDate.localeCompare(b.visitDate));
+    const points = {} as Record<Trend, TrendPoint[]>;
+    (Object.keys(TREND_LABELS) as Trend[]).forEach(trend => {
+      points[trend] = oldestFirst
+        .map(visit => trendPoint(trend, visit, patient))
+        .filter((point): point is TrendPoint => point !== null)
+        .slice(-MAX_POINTS);
+    });
+    return points;
+  }, [patient, visits]);
+
+  const available = (Object.keys(TREND_LABELS) as Trend[]).filter(trend => trends[trend].length >= 2);
+  const [selected, setSelected] = useState<Trend | null>(null);
+  const trend = selected && available.includes(selected) ? selected : available[0];
+
+  if (!trend) return null;
+
+  const points = trends[trend];
+  const lineColors = [theme.colors.primary, theme.colors.tertiary];
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          Vital Sign Trends
+        </Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+          {available.map(option => (
+            <Chip
+              key={option}
+              selected={option === trend}
+              onPress={() => setSelected(option)}
+              style={styles.chip}
+              compact
+            >
+              {TREND_LABELS[option]}
+            </Chip>
+          ))}
+        </ScrollView>
+
+        <LineChart
+          data={{
+            labels: points.map(point => {
+              const date = new Date(point.date);
+              return `${date.getMonth() + 1}/${date.getDate()}`;
+            }),
+            datasets: points[0].values.map((_, line) => ({
+              data: points.map(point => point.values[line]),
+              color: () => lineColors[line],
+            })),
+            legend: trend === 'bloodPressure' ? ['Systolic', 'Diastolic'] : undefined,
+          }}
+          width={width - 64}
+          height={200}
+          fromZero={false}
+          getDotColor={(_, index) => (points[index]?.flagged ? theme.colors.error : theme.colors.primary)}
+          chartConfig={{
+            backgroundGradientFrom: theme.colors.surface,
+            backgroundGradientTo: theme.colors.surface,
+            decimalPlaces: trend === 'temperature' || trend === 'bmi' || trend === 'weight' ? 1 : 0,
+            color: () => theme.colors.primary,
+            labelColor: () => theme.colors.onSurfaceVariant,
+            propsForBackgroundLines: { stroke: theme.colors.outlineVariant },
+            propsForDots: { r: '4' },
+          }}
+          style={styles.chart}
+        />
+
+        <Text variant="bodySmall" style={{ color: theme.colors.onSurfaceVariant }}>
+          {getAgeInYears(patient) < ADULT_AGE
+            ? 'Adult normal ranges do not apply to children, so no points are flagged.'
+            : `${describeRange(trend)}. Points outside the normal range are shown in red.`}
+        </Text>
+      </Card.Content>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  chips: {
+    marginBottom: 12,
+  },
+  chip: {
+    marginRight: 8,
+  },
+  chart: {
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,149 @@
+import { InteractionSeverity } from '@/types';
+
+/**
+ * Drug–allergy and drug–drug interaction rules checked when prescribing.
+ * A small bundled set covering well-known dangerous combinations in primary
+ * care; it does not replace a full interaction reference.
+ */
+
+export type DrugClass =
+  | 'penicillins'
+  | 'cephalosporins'
+  | 'macrolides'
+  | 'cyp3a4Macrolides'
+  | 'sulfonamides'
+  | 'fluoroquinolones'
+  | 'tetracyclines'
+  | 'nitroimidazoles'
+  | 'azoleAntifungals'
+  | 'nsaids'
+  | 'aspirin'
+  | 'opioids'
+  | 'benzodiazepines'
+  | 'ssris'
+  | 'tramadol'
+  | 'aceInhibitors'
+  | 'arbs'
+  | 'potassiumRaising'
+  | 'betaBlockers'
+  | 'rateLimitingCalciumBlockers'
+  | 'nitrates'
+  | 'pde5Inhibitors'
+  | 'anticoagulants'
+  | 'antiplatelets'
+  | 'statins'
+  | 'sulfonylureas'
+  | 'digoxin'
+  | 'amiodarone'
+  | 'methotrexate'
+  | 'allopurinol'
+  | 'thiopurines'
+  | 'polyvalentCations';
+
+/**
+ * Names that place a drug, or the substance of an allergy, in a class.
+ * Matched as whole words of the name, so "penicillin" matches "Penicillin V"
+ * and "Penicillins" but "sulfa" does not match "Ferrous sulfate".
+ */
+export const DRUG_CLASSES: Record<DrugClass, readonly string[]> = {
+  penicillins: ['penicillin', 'amoxicillin', 'amoxycillin', 'ampicillin', 'flucloxacillin', 'cloxacillin', 'phenoxymethylpenicillin', 'benzylpenicillin', 'piperacillin', 'co-amoxiclav', 'augmentin'],
+  cephalosporins: ['cephalosporin', 'cefalexin', 'cephalexin', 'cefadroxil', 'cefuroxime', 'cefixime', 'cefotaxime', 'ceftriaxone', 'cefpodoxime'],
+  macrolides: ['macrolide', 'azithromycin', 'erythromycin', 'clarithromycin'],
+  cyp3a4Macrolides: ['erythromycin', 'clarithromycin'],
+  sulfonamides: ['sulfa', 'sulpha', 'sulfonamide', 'sulphonamide', 'co-trimoxazole', 'cotrimoxazole', 'sulfamethoxazole', 'septrin', 'bactrim'],
+  fluoroquinolones: ['quinolone', 'fluoroquinolone', 'ciprofloxacin', 'levofloxacin', 'ofloxacin', 'norfloxacin', 'moxifloxacin'],
+  tetracyclines: ['tetracycline', 'doxycycline', 'minocycline', 'oxytetracycline'],
+  nitroimidazoles: ['metronidazole', 'tinidazole'],
+  azoleAntifungals: ['fluconazole', 'itraconazole', 'ketoconazole', 'voriconazole'],
+  nsaids: ['nsaid', 'ibuprofen', 'diclofenac', 'naproxen', 'mefenamic', 'indometacin', 'indomethacin', 'ketorolac', 'piroxicam', 'meloxicam', 'celecoxib', 'etoricoxib'],
+  aspirin: ['aspirin', 'acetylsalicylic'],
+  opioids: ['opioid', 'opiate', 'codeine', 'dihydrocodeine', 'tramadol', 'morphine', 'pethidine', 'oxycodone', 'fentanyl'],
+  benzodiazepines: ['benzodiazepine', 'diazepam', 'lorazepam', 'alprazolam', 'clonazepam', 'chlordiazepoxide', 'midazolam'],
+  ssris: ['ssri', 'fluoxetine', 'sertraline', 'paroxetine', 'citalopram', 'escitalopram'],
+  tramadol: ['tramadol'],
+  aceInhibitors: ['ace inhibitor', 'lisinopril', 'enalapril', 'ramipril', 'captopril', 'perindopril'],
+  arbs: ['losartan', 'valsartan', 'candesartan', 'irbesartan', 'telmisartan'],
+  potassiumRaising: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene', 'potassium chloride'],
+  betaBlockers: ['beta blocker', 'atenolol', 'bisoprolol', 'metoprolol', 'propranolol', 'carvedilol'],
+  rateLimitingCalciumBlockers: ['verapamil', 'diltiazem'],
+  nitrates: ['nitrate', 'isosorbide', 'glyceryl trinitrate', 'nitroglycerin'],
+  pde5Inhibitors: ['sildenafil', 'tadalafil', 'vardenafil'],
+  anticoagulants: ['anticoagulant', 'warfarin', 'acenocoumarol'],
+  antiplatelets: ['clopidogrel', 'ticagrelor', 'prasugrel'],
+  statins: ['simvastatin', 'atorvastatin', 'lovastatin'],
+  sulfonylureas: ['glibenclamide', 'gliclazide', 'glimepiride', 'glipizide'],
+  digoxin: ['digoxin'],
+  amiodarone: ['amiodarone'],
+  methotrexate: ['methotrexate'],
+  allopurinol: ['allopurinol'],
+  thiopurines: ['azathioprine', 'mercaptopurine'],
+  polyvalentCations: ['antacid', 'ferrous', 'iron', 'calcium', 'zinc', 'magnesium', 'aluminium'],
+};
+
+export interface CrossReactionRule {
+  allergy: DrugClass;
+  drug: DrugClass;
+  severity: InteractionSeverity;
+  message: string;
+}
+
+// Allergies to one class that can also be triggered by another.
+export const CROSS_REACTION_RULES: CrossReactionRule[] = [
+  {
+    allergy: 'penicillins',
+    drug: 'cephalosporins',
+    severity: 'moderate',
+    message: 'Cephalosporins can cross-react in penicillin allergy. Avoid after anaphylaxis.',
+  },
+  {
+    allergy: 'aspirin',
+    drug: 'nsaids',
+    severity: 'moderate',
+    message: 'NSAIDs can cause the same reaction in patients allergic to aspirin.',
+  },
+  {
+    allergy: 'nsaids',
+    drug: 'aspirin',
+    severity: 'moderate',
+    message: 'Aspirin can cause the same reaction in patients allergic to other NSAIDs.',
+  },
+];
+
+export interface InteractionRule {
+  classes: readonly [DrugClass, DrugClass];
+  severity: InteractionSeverity;
+  message: string;
+}
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  { classes: ['anticoagulants', 'nsaids'], severity: 'major', message: 'Increased risk of serious bleeding.' },
+  { classes: ['anticoagulants', 'aspirin'], severity: 'major', message: 'Increased risk of serious bleeding.' },
+  { classes: ['anticoagulants', 'antiplatelets'], severity: 'major', message: 'Increased risk of serious bleeding.' },
+  { classes: ['anticoagulants', 'nitroimidazoles'], severity: 'major', message: 'Raises INR markedly; reduce the warfarin dose or choose another antibiotic.' },
+  { classes: ['anticoagulants', 'sulfonamides'], severity: 'major', message: 'Raises INR markedly; monitor closely or choose another antibiotic.' },
+  { classes: ['anticoagulants', 'azoleAntifungals'], severity: 'major', message: 'Raises INR markedly; monitor closely.' },
+  { classes: ['anticoagulants', 'fluoroquinolones'], severity: 'moderate', message: 'May raise INR; monitor.' },
+  { classes: ['anticoagulants', 'macrolides'], severity: 'moderate', message: 'May raise INR; monitor.' },
+  { classes: ['nitrates', 'pde5Inhibitors'], severity: 'major', message: 'Severe, possibly fatal drop in blood pressure. Do not combine.' },
+  { classes: ['opioids', 'benzodiazepines'], severity: 'major', message: 'Risk of profound sedation and respiratory depression.' },
+  { classes: ['ssris', 'tramadol'], severity: 'major', message: 'Risk of serotonin syndrome and seizures.' },
+  { classes: ['cyp3a4Macrolides', 'statins'], severity: 'major', message: 'Risk of myopathy and rhabdomyolysis; pause the statin or use azithromycin.' },
+  { classes: ['methotrexate', 'sulfonamides'], severity: 'major', message: 'Risk of severe bone marrow suppression.' },
+  { classes: ['methotrexate', 'nsaids'], severity: 'major', message: 'Reduced methotrexate clearance; risk of toxicity.' },
+  { classes: ['allopurinol', 'thiopurines'], severity: 'major', message: 'Risk of severe bone marrow suppression; reduce the thiopurine dose substantially.' },
+  { classes: ['betaBlockers', 'rateLimitingCalciumBlockers'], severity: 'major', message: 'Risk of bradycardia, heart block and heart failure.' },
+  { classes: ['digoxin', 'amiodarone'], severity: 'major', message: 'Raises digoxin levels; halve the digoxin dose and monitor.' },
+  { classes: ['digoxin', 'cyp3a4Macrolides'], severity: 'moderate', message: 'May raise digoxin levels; watch for toxicity.' },
+  { classes: ['aceInhibitors', 'arbs'], severity: 'major', message: 'Dual renin–angiotensin blockade: risk of hyperkalaemia and kidney injury.' },
+  { classes: ['aceInhibitors', 'potassiumRaising'], severity: 'major', message: 'Risk of hyperkalaemia; check potassium.' },
+  { classes: ['arbs', 'potassiumRaising'], severity: 'major', message: 'Risk of hyperkalaemia; check potassium.' },
+  { classes: ['aceInhibitors', 'nsaids'], severity: 'moderate', message: 'Risk of kidney injury and reduced blood pressure control.' },
+  { classes: ['arbs', 'nsaids'], severity: 'moderate', message: 'Risk of kidney injury and reduced blood pressure control.' },
+  { classes: ['ssris', 'nsaids'], severity: 'moderate', message: 'Increased risk of gastrointestinal bleeding; consider a PPI.' },
+  { classes: ['ssris', 'aspirin'], severity: 'moderate', message: 'Increased risk of gastrointestinal bleeding; consider a PPI.' },
+  { classes: ['nsaids', 'nsaids'], severity: 'moderate', message: 'Two NSAIDs together add bleeding and kidney risk without added benefit.' },
+  { classes: ['sulfonylureas', 'azoleAntifungals'], severity: 'moderate', message: 'Risk of hypoglycaemia; monitor blood glucose.' },
+  { classes: ['sulfonylureas', 'sulfonamides'], severity: 'moderate', message: 'Risk of hypoglycaemia; monitor blood glucose.' },
+  { classes: ['fluoroquinolones', 'polyvalentCations'], severity: 'minor', message: 'Absorption is reduced; take the antibiotic 2 hours before or 6 hours after.' },
+  { classes: ['tetracyclines', 'polyvalentCations'], severity: 'minor', message: 'Absorption is reduced; take the antibiotic 2 hours before or 3 hours after.' },
+];
@@ -0,0 +1,138 @@
+/**
+ * Generic drugs commonly prescribed in primary care, offered as suggestions
+ * when writing a prescription. Any other drug can still be typed in.
+ *
+ * Each entry is [name, dosage form, usual strengths].
+ */
+export const DRUG_CATALOGUE: readonly (readonly [string, string, readonly string[]])[] = [
+  // Analgesics and anti-inflammatories
+  ['Paracetamol', 'tablet', ['500 mg', '1 g']],
+  ['Paracetamol syrup', 'syrup', ['120 mg/5 mL', '250 mg/5 mL']],
+  ['Ibuprofen', 'tablet', ['200 mg', '400 mg', '600 mg']],
+  ['Ibuprofen suspension', 'suspension', ['100 mg/5 mL']],
+  ['Diclofenac', 'tablet', ['25 mg', '50 mg', '75 mg']],
+  ['Naproxen', 'tablet', ['250 mg', '500 mg']],
+  ['Aspirin', 'tablet', ['75 mg', '81 mg', '300 mg']],
+  ['Tramadol', 'capsule', ['50 mg']],
+  ['Codeine phosphate', 'tablet', ['30 mg']],
+
+  // Antibiotics
+  ['Amoxicillin', 'capsule', ['250 mg', '500 mg']],
+  ['Amoxicillin suspension', 'suspension', ['125 mg/5 mL', '250 mg/5 mL']],
+  ['Amoxicillin + clavulanic acid', 'tablet', ['375 mg', '625 mg', '1 g']],
+  ['Phenoxymethylpenicillin', 'tablet', ['250 mg', '500 mg']],
+  ['Flucloxacillin', 'capsule', ['250 mg', '500 mg']],
+  ['Cefalexin', 'capsule', ['250 mg', '500 mg']],
+  ['Cefuroxime', 'tablet', ['250 mg', '500 mg']],
+  ['Ceftriaxone', 'injection', ['250 mg', '1 g']],
+  ['Azithromycin', 'tablet', ['250 mg', '500 mg']],
+  ['Erythromycin', 'tablet', ['250 mg', '500 mg']],
+  ['Clarithromycin', 'tablet', ['250 mg', '500 mg']],
+  ['Doxycycline', 'capsule', ['100 mg']],
+  ['Ciprofloxacin', 'tablet', ['250 mg', '500 mg']],
+  ['Levofloxacin', 'tablet', ['500 mg', '750 mg']],
+  ['Metronidazole', 'tablet', ['200 mg', '400 mg', '500 mg']],
+  ['Nitrofurantoin', 'capsule', ['50 mg', '100 mg']],
+  ['Co-trimoxazole', 'tablet', ['480 mg', '960 mg']],
+  ['Clindamycin', 'capsule', ['150 mg', '300 mg']],
+
+  // Antifungals, antivirals and antiparasitics
+  ['Fluconazole', 'capsule', ['50 mg', '150 mg']],
+  ['Clotrimazole cream', 'cream', ['1%']],
+  ['Nystatin oral suspension', 'suspension', ['100,000 units/mL']],
+  ['Aciclovir', 'tablet', ['200 mg', '400 mg', '800 mg']],
+  ['Albendazole', 'tablet', ['400 mg']],
+  ['Mebendazole', 'tablet', ['100 mg', '500 mg']],
+  ['Artemether + lumefantrine', 'tablet', ['20 mg/120 mg']],
+  ['Permethrin cream', 'cream', ['5%']],
+
+  // Cardiovascular
+  ['Amlodipine', 'tablet', ['5 mg', '10 mg']],
+  ['Nifedipine (modified release)', 'tablet', ['20 mg', '30 mg']],
+  ['Lisinopril', 'tablet', ['5 mg', '10 mg', '20 mg']],
+  ['Enalapril', 'tablet', ['5 mg', '10 mg', '20 mg']],
+  ['Ramipril', 'capsule', ['2.5 mg', '5 mg', '10 mg']],
+  ['Losartan', 'tablet', ['25 mg', '50 mg', '100 mg']],
+  ['Hydrochlorothiazide', 'tablet', ['12.5 mg', '25 mg']],
+  ['Furosemide', 'tablet', ['20 mg', '40 mg']],
+  ['Spironolactone', 'tablet', ['25 mg', '50 mg']],
+  ['Atenolol', 'tablet', ['25 mg', '50 mg', '100 mg']],
+  ['Bisoprolol', 'tablet', ['2.5 mg', '5 mg', '10 mg']],
+  ['Metoprolol', 'tablet', ['25 mg', '50 mg', '100 mg']],
+  ['Atorvastatin', 'tablet', ['10 mg', '20 mg', '40 mg', '80 mg']],
+  ['Simvastatin', 'tablet', ['10 mg', '20 mg', '40 mg']],
+  ['Clopidogrel', 'tablet', ['75 mg']],
+  ['Warfarin', 'tablet', ['1 mg', '3 mg', '5 mg']],
+  ['Digoxin', 'tablet', ['62.5 mcg', '125 mcg', '250 mcg']],
+  ['Isosorbide dinitrate', 'tablet', ['5 mg', '10 mg']],
+
+  // Diabetes and endocrine
+  ['Metformin', 'tablet', ['500 mg', '850 mg', '1 g']],
+  ['Glibenclamide', 'tablet', ['2.5 mg', '5 mg']],
+  ['Gliclazide', 'tablet', ['40 mg', '80 mg']],
+  ['Glimepiride', 'tablet', ['1 mg', '2 mg', '4 mg']],
+  ['Insulin glargine', 'injection', ['100 units/mL']],
+  ['Insulin, soluble (regular)', 'injection', ['100 units/mL']],
+  ['Levothyroxine', 'tablet', ['25 mcg', '50 mcg', '100 mcg']],
+  ['Carbimazole', 'tablet', ['5 mg', '20 mg']],
+  ['Prednisolone', 'tablet', ['5 mg', '25 mg']],
+
+  // Respiratory and allergy
+  ['Salbutamol inhaler', 'inhaler', ['100 mcg/dose']],
+  ['Beclometasone inhaler', 'inhaler', ['50 mcg/dose', '100 mcg/dose']],
+  ['Budesonide + formoterol inhaler', 'inhaler', ['160/4.5 mcg/dose']],
+  ['Montelukast', 'tablet', ['4 mg', '5 mg', '10 mg']],
+  ['Cetirizine', 'tablet', ['10 mg']],
+  ['Loratadine', 'tablet', ['10 mg']],
+  ['Chlorphenamine', 'tablet', ['4 mg']],
+  ['Promethazine', 'tablet', ['10 mg', '25 mg']],
+  ['Fluticasone nasal spray', 'nasal spray', ['50 mcg/dose']],
+  ['Dextromethorphan syrup', 'syrup', ['15 mg/5 mL']],
+
+  // Gastrointestinal
+  ['Omeprazole', 'capsule', ['20 mg', '40 mg']],
+  ['Pantoprazole', 'tablet', ['20 mg', '40 mg']],
+  ['Ranitidine', 'tablet', ['150 mg', '300 mg']],
+  ['Antacid suspension', 'suspension', ['10 mL']],
+  ['Metoclopramide', 'tablet', ['10 mg']],
+  ['Domperidone', 'tablet', ['10 mg']],
+  ['Ondansetron', 'tablet', ['4 mg', '8 mg']],
+  ['Hyoscine butylbromide', 'tablet', ['10 mg']],
+  ['Loperamide', 'capsule', ['2 mg']],
+  ['Oral rehydration salts', 'sachet', ['1 sachet in 1 L']],
+  ['Zinc sulfate', 'tablet', ['10 mg', '20 mg']],
+  ['Lactulose', 'syrup', ['10 g/15 mL']],
+  ['Bisacodyl', 'tablet', ['5 mg']],
+
+  // Nervous system and mental health
+  ['Amitriptyline', 'tablet', ['10 mg', '25 mg']],
+  ['Fluoxetine', 'capsule', ['20 mg']],
+  ['Sertraline', 'tablet', ['50 mg', '100 mg']],
+  ['Diazepam', 'tablet', ['2 mg', '5 mg']],
+  ['Carbamazepine', 'tablet', ['100 mg', '200 mg']],
+  ['Sodium valproate', 'tablet', ['200 mg', '500 mg']],
+  ['Phenytoin', 'capsule', ['50 mg', '100 mg']],
+  ['Gabapentin', 'capsule', ['100 mg', '300 mg']],
+  ['Betahistine', 'tablet', ['8 mg', '16 mg']],
+
+  // Urinary, gout and musculoskeletal
+  ['Tamsulosin', 'capsule', ['400 mcg']],
+  ['Allopurinol', 'tablet', ['100 mg', '300 mg']],
+  ['Colchicine', 'tablet', ['500 mcg']],
+
+  // Supplements and pregnancy
+  ['Ferrous sulfate', 'tablet', ['200 mg']],
+  ['Folic acid', 'tablet', ['400 mcg', '5 mg']],
+  ['Ferrous sulfate + folic acid', 'tablet', ['200 mg/400 mcg']],
+  ['Calcium carbonate', 'tablet', ['500 mg', '1.25 g']],
+  ['Vitamin D3 (colecalciferol)', 'capsule', ['1,000 IU', '50,000 IU']],
+  ['Vitamin B complex', 'tablet', ['1 tablet']],
+  ['Multivitamin', 'tablet', ['1 tablet']],
+
+  // Topical and eye/ear
+  ['Hydrocortisone cream', 'cream', ['1%']],
+  ['Betamethasone cream', 'cream', ['0.1%']],
+  ['Fusidic acid cream', 'cream', ['2%']],
+  ['Chloramphenicol eye drops', 'eye drops', ['0.5%']],
+  ['Ciprofloxacin ear drops', 'ear drops', ['0.3%']],
+];
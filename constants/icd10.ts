@@ -0,0 +1,403 @@
+/**
+ * ICD-10 (WHO) codes for conditions commonly seen in primary care, bundled
+ * so diagnoses can be coded offline. Not the full classification; codes
+ * outside this list can still be written in the free-text diagnosis.
+ *
+ * Each entry is [code, title, extra search words].
+ */
+export const ICD10_CATALOGUE: readonly (readonly [string, string, string?])[] = [
+  // Certain infectious and parasitic diseases
+  ['A00.9', 'Cholera, unspecified'],
+  ['A01.0', 'Typhoid fever', 'enteric'],
+  ['A02.0', 'Salmonella enteritis'],
+  ['A03.9', 'Shigellosis, unspecified', 'dysentery'],
+  ['A06.0', 'Acute amoebic dysentery', 'amebic'],
+  ['A07.1', 'Giardiasis [lambliasis]'],
+  ['A08.4', 'Viral intestinal infection, unspecified'],
+  ['A09.0', 'Other and unspecified gastroenteritis and colitis of infectious origin', 'diarrhoea diarrhea'],
+  ['A09.9', 'Gastroenteritis and colitis of unspecified origin', 'diarrhoea diarrhea vomiting'],
+  ['A15.0', 'Tuberculosis of lung, confirmed by sputum microscopy with or without culture', 'tb pulmonary'],
+  ['A16.2', 'Tuberculosis of lung, without mention of bacteriological or histological confirmation', 'tb pulmonary'],
+  ['A27.9', 'Leptospirosis, unspecified'],
+  ['A30.9', 'Leprosy, unspecified'],
+  ['A35', 'Other tetanus'],
+  ['A37.9', 'Whooping cough, unspecified', 'pertussis'],
+  ['A38', 'Scarlet fever'],
+  ['A39.0', 'Meningococcal meningitis'],
+  ['A41.9', 'Sepsis, unspecified', 'septicaemia septicemia'],
+  ['A46', 'Erysipelas'],
+  ['A49.9', 'Bacterial infection, unspecified'],
+  ['A51.0', 'Primary genital syphilis', 'sti std'],
+  ['A53.9', 'Syphilis, unspecified', 'sti std'],
+  ['A54.9', 'Gonococcal infection, unspecified', 'gonorrhoea gonorrhea sti std'],
+  ['A56.0', 'Chlamydial infection of lower genitourinary tract', 'sti std'],
+  ['A59.0', 'Urogenital trichomoniasis', 'sti std'],
+  ['A60.0', 'Herpesviral infection of genitalia and urogenital tract', 'genital herpes sti std'],
+  ['A63.0', 'Anogenital (venereal) warts', 'sti std'],
+  ['A75.9', 'Typhus fever, unspecified'],
+  ['A82.9', 'Rabies, unspecified'],
+  ['A90', 'Dengue fever [classical dengue]'],
+  ['A91', 'Dengue haemorrhagic fever', 'hemorrhagic'],
+  ['A92.0', 'Chikungunya virus disease'],
+  ['A95.9', 'Yellow fever, unspecified'],
+  ['B00.1', 'Herpesviral vesicular dermatitis', 'cold sore'],
+  ['B01.9', 'Varicella without complication', 'chickenpox'],
+  ['B02.9', 'Zoster without complication', 'shingles herpes'],
+  ['B05.9', 'Measles without complication'],
+  ['B06.9', 'Rubella without complication', 'german measles'],
+  ['B07', 'Viral warts'],
+  ['B08.1', 'Molluscum contagiosum'],
+  ['B08.4', 'Enteroviral vesicular stomatitis with exanthem', 'hand foot mouth'],
+  ['B15.9', 'Hepatitis A without hepatic coma'],
+  ['B16.9', 'Acute hepatitis B without delta-agent and without hepatic coma'],
+  ['B18.1', 'Chronic viral hepatitis B without delta-agent'],
+  ['B18.2', 'Chronic viral hepatitis C'],
+  ['B24', 'Unspecified human immunodeficiency virus [HIV] disease', 'aids'],
+  ['B26.9', 'Mumps without complication'],
+  ['B27.9', 'Infectious mononucleosis, unspecified', 'glandular fever'],
+  ['B34.9', 'Viral infection, unspecified', 'viral fever'],
+  ['B35.0', 'Tinea barbae and tinea capitis', 'ringworm fungal'],
+  ['B35.1', 'Tinea unguium', 'nail fungal onychomycosis'],
+  ['B35.3', 'Tinea pedis', 'athlete foot fungal'],
+  ['B35.4', 'Tinea corporis', 'ringworm fungal'],
+  ['B35.6', 'Tinea cruris', 'jock itch fungal'],
+  ['B36.0', 'Pityriasis versicolor', 'fungal'],
+  ['B37.0', 'Candidal stomatitis', 'oral thrush'],
+  ['B37.3', 'Candidiasis of vulva and vagina', 'thrush yeast'],
+  ['B50.9', 'Plasmodium falciparum malaria, unspecified'],
+  ['B51.9', 'Plasmodium vivax malaria without complication'],
+  ['B54', 'Unspecified malaria'],
+  ['B65.9', 'Schistosomiasis, unspecified', 'bilharzia'],
+  ['B76.9', 'Hookworm disease, unspecified', 'worms'],
+  ['B77.9', 'Ascariasis, unspecified', 'roundworm worms'],
+  ['B80', 'Enterobiasis', 'pinworm threadworm worms'],
+  ['B82.9', 'Intestinal parasitism, unspecified', 'worms'],
+  ['B85.0', 'Pediculosis due to Pediculus humanus capitis', 'head lice'],
+  ['B86', 'Scabies'],
+  ['U07.1', 'COVID-19, virus identified', 'coronavirus'],
+  ['U07.2', 'COVID-19, virus not identified', 'coronavirus'],
+
+  // Neoplasms
+  ['C16.9', 'Malignant neoplasm of stomach, unspecified', 'cancer'],
+  ['C18.9', 'Malignant neoplasm of colon, unspecified', 'cancer'],
+  ['C22.0', 'Liver cell carcinoma', 'cancer hepatocellular'],
+  ['C34.9', 'Malignant neoplasm of bronchus or lung, unspecified', 'cancer'],
+  ['C50.9', 'Malignant neoplasm of breast, unspecified', 'cancer'],
+  ['C53.9', 'Malignant neoplasm of cervix uteri, unspecified', 'cancer cervical'],
+  ['C61', 'Malignant neoplasm of prostate', 'cancer'],
+  ['D25.9', 'Leiomyoma of uterus, unspecified', 'fibroids'],
+
+  // Blood
+  ['D50.9', 'Iron deficiency anaemia, unspecified', 'anemia'],
+  ['D51.9', 'Vitamin B12 deficiency anaemia, unspecified', 'anemia'],
+  ['D52.9', 'Folate deficiency anaemia, unspecified', 'anemia'],
+  ['D56.9', 'Thalassaemia, unspecified', 'thalassemia'],
+  ['D57.0', 'Sickle-cell anaemia with crisis', 'anemia'],
+  ['D57.1', 'Sickle-cell anaemia without crisis', 'anemia'],
+  ['D64.9', 'Anaemia, unspecified', 'anemia'],
+  ['D69.6', 'Thrombocytopenia, unspecified', 'low platelets'],
+
+  // Endocrine, nutritional and metabolic
+  ['E03.9', 'Hypothyroidism, unspecified', 'thyroid'],
+  ['E04.9', 'Nontoxic goitre, unspecified', 'goiter thyroid'],
+  ['E05.9', 'Thyrotoxicosis, unspecified', 'hyperthyroidism thyroid'],
+  ['E10.9', 'Insulin-dependent diabetes mellitus without complications', 'type 1 diabetes dm'],
+  ['E11.2', 'Non-insulin-dependent diabetes mellitus with renal complications', 'type 2 diabetes dm nephropathy'],
+  ['E11.3', 'Non-insulin-dependent diabetes mellitus with ophthalmic complications', 'type 2 diabetes dm retinopathy'],
+  ['E11.4', 'Non-insulin-dependent diabetes mellitus with neurological complications', 'type 2 diabetes dm neuropathy'],
+  ['E11.5', 'Non-insulin-dependent diabetes mellitus with peripheral circulatory complications', 'type 2 diabetes dm foot'],
+  ['E11.9', 'Non-insulin-dependent diabetes mellitus without complications', 'type 2 diabetes dm sugar'],
+  ['E14.9', 'Unspecified diabetes mellitus without complications', 'diabetes dm sugar'],
+  ['E16.2', 'Hypoglycaemia, unspecified', 'hypoglycemia low sugar'],
+  ['E28.2', 'Polycystic ovarian syndrome', 'pcos'],
+  ['E43', 'Unspecified severe protein-energy malnutrition'],
+  ['E44.0', 'Moderate protein-energy malnutrition'],
+  ['E46', 'Unspecified protein-energy malnutrition'],
+  ['E55.9', 'Vitamin D deficiency, unspecified'],
+  ['E66.9', 'Obesity, unspecified', 'overweight'],
+  ['E78.0', 'Pure hypercholesterolaemia', 'cholesterol hypercholesterolemia'],
+  ['E78.5', 'Hyperlipidaemia, unspecified', 'cholesterol hyperlipidemia dyslipidaemia'],
+  ['E79.0', 'Hyperuricaemia without signs of inflammatory arthritis and tophaceous disease', 'uric acid'],
+  ['E86', 'Volume depletion', 'dehydration'],
+  ['E87.1', 'Hypo-osmolality and hyponatraemia', 'low sodium hyponatremia'],
+  ['E87.6', 'Hypokalaemia', 'low potassium hypokalemia'],
+
+  // Mental and behavioural
+  ['F03', 'Unspecified dementia'],
+  ['F10.2', 'Mental and behavioural disorders due to use of alcohol: dependence syndrome', 'alcoholism'],
+  ['F17.2', 'Mental and behavioural disorders due to use of tobacco: dependence syndrome', 'smoking nicotine'],
+  ['F20.9', 'Schizophrenia, unspecified'],
+  ['F31.9', 'Bipolar affective disorder, unspecified'],
+  ['F32.9', 'Depressive episode, unspecified', 'depression'],
+  ['F41.1', 'Generalized anxiety disorder'],
+  ['F41.9', 'Anxiety disorder, unspecified'],
+  ['F43.1', 'Post-traumatic stress disorder', 'ptsd'],
+  ['F51.0', 'Nonorganic insomnia', 'sleep'],
+  ['F90.0', 'Disturbance of activity and attention', 'adhd'],
+
+  // Nervous system
+  ['G03.9', 'Meningitis, unspecified'],
+  ['G20', "Parkinson's disease"],
+  ['G35', 'Multiple sclerosis'],
+  ['G40.9', 'Epilepsy, unspecified', 'seizures fits'],
+  ['G43.9', 'Migraine, unspecified', 'headache'],
+  ['G44.2', 'Tension-type headache'],
+  ['G45.9', 'Transient cerebral ischaemic attack, unspecified', 'tia'],
+  ['G51.0', "Bell's palsy", 'facial'],
+  ['G56.0', 'Carpal tunnel syndrome'],
+  ['G62.9', 'Polyneuropathy, unspecified', 'neuropathy'],
+  ['G80.9', 'Cerebral palsy, unspecified'],
+
+  // Eye and ear
+  ['H00.0', 'Hordeolum and other deep inflammation of eyelid', 'stye'],
+  ['H10.3', 'Acute conjunctivitis, unspecified', 'pink eye'],
+  ['H10.9', 'Conjunctivitis, unspecified', 'pink eye'],
+  ['H25.9', 'Senile cataract, unspecified'],
+  ['H26.9', 'Cataract, unspecified'],
+  ['H40.9', 'Glaucoma, unspecified'],
+  ['H52.1', 'Myopia', 'short sight'],
+  ['H52.4', 'Presbyopia'],
+  ['H60.9', 'Otitis externa, unspecified', 'ear infection'],
+  ['H61.2', 'Impacted cerumen', 'ear wax'],
+  ['H65.9', 'Nonsuppurative otitis media, unspecified', 'ear infection'],
+  ['H66.9', 'Otitis media, unspecified', 'ear infection'],
+  ['H81.1', 'Benign paroxysmal vertigo', 'bppv dizziness'],
+  ['H91.9', 'Hearing loss, unspecified', 'deafness'],
+
+  // Circulatory system
+  ['I00', 'Rheumatic fever without mention of heart involvement'],
+  ['I09.9', 'Rheumatic heart disease, unspecified'],
+  ['I10', 'Essential (primary) hypertension', 'high blood pressure htn'],
+  ['I11.9', 'Hypertensive heart disease without (congestive) heart failure', 'high blood pressure htn'],
+  ['I20.9', 'Angina pectoris, unspecified', 'chest pain'],
+  ['I21.9', 'Acute myocardial infarction, unspecified', 'heart attack mi'],
+  ['I25.1', 'Atherosclerotic heart disease', 'coronary ischaemic'],
+  ['I26.9', 'Pulmonary embolism without mention of acute cor pulmonale', 'pe'],
+  ['I48.9', 'Atrial fibrillation and atrial flutter, unspecified', 'af afib'],
+  ['I50.9', 'Heart failure, unspecified', 'ccf chf'],
+  ['I61.9', 'Intracerebral haemorrhage, unspecified', 'stroke hemorrhage'],
+  ['I63.9', 'Cerebral infarction, unspecified', 'stroke'],
+  ['I64', 'Stroke, not specified as haemorrhage or infarction', 'cva'],
+  ['I80.2', 'Phlebitis and thrombophlebitis of other deep vessels of lower extremities', 'dvt thrombosis'],
+  ['I83.9', 'Varicose veins of lower extremities without ulcer or inflammation'],
+  ['I95.9', 'Hypotension, unspecified', 'low blood pressure'],
+
+  // Respiratory system
+  ['J00', 'Acute nasopharyngitis [common cold]', 'coryza'],
+  ['J01.9', 'Acute sinusitis, unspecified'],
+  ['J02.0', 'Streptococcal pharyngitis', 'strep throat'],
+  ['J02.9', 'Acute pharyngitis, unspecified', 'sore throat'],
+  ['J03.9', 'Acute tonsillitis, unspecified', 'sore throat'],
+  ['J04.0', 'Acute laryngitis'],
+  ['J05.0', 'Acute obstructive laryngitis [croup]'],
+  ['J06.9', 'Acute upper respiratory infection, unspecified', 'urti uri'],
+  ['J11.1', 'Influenza with other respiratory manifestations, virus not identified', 'flu'],
+  ['J12.9', 'Viral pneumonia, unspecified'],
+  ['J15.9', 'Bacterial pneumonia, unspecified'],
+  ['J18.9', 'Pneumonia, unspecified', 'chest infection lrti'],
+  ['J20.9', 'Acute bronchitis, unspecified', 'chest infection'],
+  ['J21.9', 'Acute bronchiolitis, unspecified'],
+  ['J30.4', 'Allergic rhinitis, unspecified', 'hay fever'],
+  ['J31.0', 'Chronic rhinitis'],
+  ['J32.9', 'Chronic sinusitis, unspecified'],
+  ['J35.0', 'Chronic tonsillitis'],
+  ['J40', 'Bronchitis, not specified as acute or chronic'],
+  ['J44.1', 'Chronic obstructive pulmonary disease with acute exacerbation, unspecified', 'copd'],
+  ['J44.9', 'Chronic obstructive pulmonary disease, unspecified', 'copd'],
+  ['J45.9', 'Asthma, unspecified', 'wheeze'],
+  ['J46', 'Status asthmaticus', 'asthma attack'],
+  ['J47', 'Bronchiectasis'],
+  ['J81', 'Pulmonary oedema', 'edema'],
+  ['J90', 'Pleural effusion, not elsewhere classified'],
+  ['J93.9', 'Pneumothorax, unspecified'],
+
+  // Digestive system
+  ['K02.9', 'Dental caries, unspecified', 'tooth decay'],
+  ['K04.7', 'Periapical abscess without sinus', 'dental tooth abscess'],
+  ['K05.0', 'Acute gingivitis', 'gums'],
+  ['K05.1', 'Chronic gingivitis', 'gums'],
+  ['K12.0', 'Recurrent oral aphthae', 'mouth ulcers'],
+  ['K21.9', 'Gastro-oesophageal reflux disease without oesophagitis', 'gerd gord heartburn reflux'],
+  ['K25.9', 'Gastric ulcer, unspecified as acute or chronic, without haemorrhage or perforation', 'peptic'],
+  ['K26.9', 'Duodenal ulcer, unspecified as acute or chronic, without haemorrhage or perforation', 'peptic'],
+  ['K27.9', 'Peptic ulcer, site unspecified, unspecified as acute or chronic, without haemorrhage or perforation'],
+  ['K29.7', 'Gastritis, unspecified', 'stomach'],
+  ['K30', 'Functional dyspepsia', 'indigestion'],
+  ['K37', 'Unspecified appendicitis'],
+  ['K40.9', 'Unilateral or unspecified inguinal hernia, without obstruction or gangrene'],
+  ['K42.9', 'Umbilical hernia without obstruction or gangrene'],
+  ['K52.9', 'Noninfective gastroenteritis and colitis, unspecified'],
+  ['K58.9', 'Irritable bowel syndrome without diarrhoea', 'ibs'],
+  ['K59.0', 'Constipation'],
+  ['K60.2', 'Anal fissure, unspecified'],
+  ['K61.0', 'Anal abscess'],
+  ['K64.9', 'Haemorrhoids, unspecified', 'piles hemorrhoids'],
+  ['K70.3', 'Alcoholic cirrhosis of liver'],
+  ['K74.6', 'Other and unspecified cirrhosis of liver'],
+  ['K76.0', 'Fatty (change of) liver, not elsewhere classified', 'nafld'],
+  ['K80.2', 'Calculus of gallbladder without cholecystitis', 'gallstones'],
+  ['K81.0', 'Acute cholecystitis', 'gallbladder'],
+  ['K85.9', 'Acute pancreatitis, unspecified'],
+  ['K92.2', 'Gastrointestinal haemorrhage, unspecified', 'gi bleed hemorrhage'],
+
+  // Skin
+  ['L01.0', 'Impetigo'],
+  ['L02.9', 'Cutaneous abscess, furuncle and carbuncle, unspecified', 'boil'],
+  ['L03.9', 'Cellulitis, unspecified'],
+  ['L08.9', 'Local infection of skin and subcutaneous tissue, unspecified'],
+  ['L20.9', 'Atopic dermatitis, unspecified', 'eczema'],
+  ['L21.9', 'Seborrhoeic dermatitis, unspecified', 'dandruff seborrheic'],
+  ['L22', 'Diaper [napkin] dermatitis', 'nappy rash'],
+  ['L23.9', 'Allergic contact dermatitis, unspecified cause'],
+  ['L24.9', 'Irritant contact dermatitis, unspecified cause'],
+  ['L29.9', 'Pruritus, unspecified', 'itching'],
+  ['L30.9', 'Dermatitis, unspecified', 'eczema rash'],
+  ['L40.0', 'Psoriasis vulgaris'],
+  ['L50.9', 'Urticaria, unspecified', 'hives'],
+  ['L60.0', 'Ingrowing nail'],
+  ['L70.0', 'Acne vulgaris'],
+  ['L80', 'Vitiligo'],
+  ['L97', 'Ulcer of lower limb, not elsewhere classified', 'leg ulcer'],
+
+  // Musculoskeletal
+  ['M06.9', 'Rheumatoid arthritis, unspecified'],
+  ['M10.9', 'Gout, unspecified'],
+  ['M15.9', 'Polyarthrosis, unspecified', 'osteoarthritis'],
+  ['M16.9', 'Coxarthrosis, unspecified', 'hip osteoarthritis'],
+  ['M17.9', 'Gonarthrosis, unspecified', 'knee osteoarthritis'],
+  ['M19.9', 'Arthrosis, unspecified', 'osteoarthritis'],
+  ['M25.5', 'Pain in joint', 'arthralgia'],
+  ['M32.9', 'Systemic lupus erythematosus, unspecified', 'sle'],
+  ['M48.0', 'Spinal stenosis'],
+  ['M54.2', 'Cervicalgia', 'neck pain'],
+  ['M54.3', 'Sciatica'],
+  ['M54.4', 'Lumbago with sciatica', 'back pain'],
+  ['M54.5', 'Low back pain', 'lumbago'],
+  ['M54.9', 'Dorsalgia, unspecified', 'back pain'],
+  ['M62.6', 'Muscle strain'],
+  ['M65.3', 'Trigger finger'],
+  ['M72.2', 'Plantar fascial fibromatosis', 'plantar fasciitis heel pain'],
+  ['M75.0', 'Adhesive capsulitis of shoulder', 'frozen shoulder'],
+  ['M75.1', 'Rotator cuff syndrome', 'shoulder'],
+  ['M77.1', 'Lateral epicondylitis', 'tennis elbow'],
+  ['M79.1', 'Myalgia', 'muscle pain'],
+  ['M79.6', 'Pain in limb'],
+  ['M81.9', 'Osteoporosis, unspecified'],
+
+  // Genitourinary system
+  ['N10', 'Acute tubulo-interstitial nephritis', 'pyelonephritis kidney infection'],
+  ['N17.9', 'Acute renal failure, unspecified', 'kidney injury aki'],
+  ['N18.9', 'Chronic kidney disease, unspecified', 'ckd renal'],
+  ['N20.0', 'Calculus of kidney', 'kidney stone'],
+  ['N23', 'Unspecified renal colic'],
+  ['N30.0', 'Acute cystitis', 'uti bladder'],
+  ['N39.0', 'Urinary tract infection, site not specified', 'uti'],
+  ['N40', 'Hyperplasia of prostate', 'bph'],
+  ['N41.0', 'Acute prostatitis'],
+  ['N45.9', 'Orchitis and epididymitis without abscess'],
+  ['N46', 'Male infertility'],
+  ['N61', 'Inflammatory disorders of breast', 'mastitis'],
+  ['N63', 'Unspecified lump in breast'],
+  ['N70.9', 'Salpingitis and oophoritis, unspecified'],
+  ['N73.9', 'Female pelvic inflammatory disease, unspecified', 'pid'],
+  ['N76.0', 'Acute vaginitis', 'vaginal discharge'],
+  ['N83.2', 'Other and unspecified ovarian cysts'],
+  ['N91.2', 'Amenorrhoea, unspecified', 'amenorrhea missed period'],
+  ['N92.0', 'Excessive and frequent menstruation with regular cycle', 'menorrhagia heavy period'],
+  ['N93.9', 'Abnormal uterine and vaginal bleeding, unspecified'],
+  ['N94.6', 'Dysmenorrhoea, unspecified', 'dysmenorrhea period pain'],
+  ['N95.1', 'Menopausal and female climacteric states', 'menopause'],
+  ['N97.9', 'Female infertility, unspecified'],
+
+  // Pregnancy and perinatal
+  ['O03.9', 'Spontaneous abortion, complete or unspecified, without complication', 'miscarriage'],
+  ['O13', 'Gestational [pregnancy-induced] hypertension'],
+  ['O14.9', 'Pre-eclampsia, unspecified'],
+  ['O20.0', 'Threatened abortion', 'miscarriage bleeding pregnancy'],
+  ['O21.0', 'Mild hyperemesis gravidarum', 'vomiting pregnancy'],
+  ['O23.4', 'Unspecified infection of urinary tract in pregnancy', 'uti'],
+  ['O24.4', 'Diabetes mellitus arising in pregnancy', 'gestational diabetes gdm'],
+  ['O99.0', 'Anaemia complicating pregnancy, childbirth and the puerperium', 'anemia'],
+  ['P07.3', 'Other preterm infants', 'premature'],
+  ['P36.9', 'Bacterial sepsis of newborn, unspecified', 'neonatal'],
+  ['P59.9', 'Neonatal jaundice, unspecified'],
+
+  // Symptoms and signs
+  ['R00.0', 'Tachycardia, unspecified'],
+  ['R00.2', 'Palpitations'],
+  ['R03.0', 'Elevated blood-pressure reading, without diagnosis of hypertension'],
+  ['R04.0', 'Epistaxis', 'nosebleed'],
+  ['R05', 'Cough'],
+  ['R06.0', 'Dyspnoea', 'shortness of breath dyspnea breathlessness'],
+  ['R07.4', 'Chest pain, unspecified'],
+  ['R10.4', 'Other and unspecified abdominal pain', 'stomach ache'],
+  ['R11', 'Nausea and vomiting'],
+  ['R17', 'Unspecified jaundice'],
+  ['R21', 'Rash and other nonspecific skin eruption'],
+  ['R25.1', 'Tremor, unspecified'],
+  ['R30.0', 'Dysuria', 'painful urination'],
+  ['R31', 'Unspecified haematuria', 'blood in urine hematuria'],
+  ['R32', 'Unspecified urinary incontinence'],
+  ['R33', 'Retention of urine'],
+  ['R35', 'Polyuria'],
+  ['R42', 'Dizziness and giddiness', 'vertigo'],
+  ['R50.9', 'Fever, unspecified', 'pyrexia'],
+  ['R51', 'Headache'],
+  ['R52.9', 'Pain, unspecified'],
+  ['R53', 'Malaise and fatigue', 'tiredness weakness'],
+  ['R55', 'Syncope and collapse', 'fainting'],
+  ['R56.0', 'Febrile convulsions', 'seizure fits'],
+  ['R59.0', 'Localized enlarged lymph nodes', 'lymphadenopathy'],
+  ['R60.0', 'Localized oedema', 'swelling edema'],
+  ['R63.0', 'Anorexia', 'loss of appetite'],
+  ['R63.4', 'Abnormal weight loss'],
+  ['R73.9', 'Hyperglycaemia, unspecified', 'high sugar prediabetes hyperglycemia'],
+
+  // Injury and poisoning
+  ['S00.9', 'Superficial injury of head, part unspecified'],
+  ['S01.9', 'Open wound of head, part unspecified', 'laceration cut'],
+  ['S06.0', 'Concussion', 'head injury'],
+  ['S13.4', 'Sprain and strain of cervical spine', 'whiplash neck'],
+  ['S33.5', 'Sprain and strain of lumbar spine', 'back'],
+  ['S42.0', 'Fracture of clavicle', 'collarbone'],
+  ['S52.5', 'Fracture of lower end of radius', 'wrist colles'],
+  ['S61.9', 'Open wound of wrist and hand, part unspecified', 'laceration cut'],
+  ['S62.6', 'Fracture of other finger'],
+  ['S72.0', 'Fracture of neck of femur', 'hip'],
+  ['S82.6', 'Fracture of lateral malleolus', 'ankle'],
+  ['S83.6', 'Sprain and strain of other and unspecified parts of knee'],
+  ['S93.4', 'Sprain and strain of ankle'],
+  ['T14.0', 'Superficial injury of unspecified body region', 'abrasion bruise'],
+  ['T14.1', 'Open wound of unspecified body region', 'laceration cut'],
+  ['T14.2', 'Fracture of unspecified body region'],
+  ['T15.9', 'Foreign body on external eye, part unspecified'],
+  ['T30.0', 'Burn of unspecified body region, unspecified degree'],
+  ['T50.9', 'Poisoning: other and unspecified drugs, medicaments and biological substances', 'overdose'],
+  ['T60.0', 'Toxic effect: organophosphate and carbamate insecticides', 'pesticide poisoning'],
+  ['T63.0', 'Toxic effect: snake venom', 'snake bite'],
+  ['T63.4', 'Toxic effect: venom of other arthropods', 'insect sting bite'],
+  ['T78.3', 'Angioneurotic oedema', 'angioedema'],
+  ['T78.4', 'Allergy, unspecified', 'allergic reaction'],
+  ['T88.7', 'Unspecified adverse effect of drug or medicament', 'side effect'],
+
+  // Factors influencing health status
+  ['Z00.0', 'General medical examination', 'check-up checkup'],
+  ['Z00.1', 'Routine child health examination', 'well baby'],
+  ['Z01.4', 'Gynaecological examination (general)(routine)', 'gynecological'],
+  ['Z02.7', 'Issue of medical certificate', 'sick note'],
+  ['Z09.9', 'Follow-up examination after unspecified treatment for other conditions', 'review'],
+  ['Z12.4', 'Special screening examination for neoplasm of cervix', 'pap smear'],
+  ['Z13.1', 'Special screening examination for diabetes mellitus'],
+  ['Z21', 'Asymptomatic human immunodeficiency virus [HIV] infection status'],
+  ['Z23.5', 'Need for immunization against tetanus alone', 'vaccination'],
+  ['Z24.6', 'Need for immunization against viral hepatitis', 'vaccination'],
+  ['Z30.0', 'General counselling and advice on contraception', 'family planning'],
+  ['Z30.4', 'Surveillance of contraceptive drugs', 'family planning pill'],
+  ['Z30.5', 'Surveillance of (intrauterine) contraceptive device', 'iud coil'],
+  ['Z32.1', 'Pregnancy confirmed'],
+  ['Z34.9', 'Supervision of normal pregnancy, unspecified', 'antenatal anc'],
+  ['Z39.2', 'Routine postpartum follow-up', 'postnatal'],
+  ['Z71.9', 'Counselling, unspecified'],
+  ['Z72.0', 'Tobacco use', 'smoking'],
+  ['Z76.0', 'Issue of repeat prescription', 'refill'],
+];
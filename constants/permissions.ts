@@ -0,0 +1,63 @@
+import { StaffRole } from '@/types';
+
+export type Permission =
+  | 'patients.view'
+  | 'patients.edit'
+  | 'patients.delete'
+  | 'visits.record'
+  // Reading diagnoses, treatments, allergies and other clinical notes.
+  | 'clinical.view'
+  | 'appointments.manage'
+  | 'financial.view'
+  | 'financial.edit'
+  | 'users.manage'
+  // Import, export and sync.
+  | 'data.manage';
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: 'Administrator',
+  doctor: 'Doctor',
+  nurse: 'Nurse',
+  reception: 'Reception',
+  accountant: 'Accountant',
+};
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  admin: [
+    'patients.view',
+    'patients.edit',
+    'patients.delete',
+    'visits.record',
+    'clinical.view',
+    'appointments.manage',
+    'financial.view',
+    'financial.edit',
+    'users.manage',
+    'data.manage',
+  ],
+  doctor: [
+    'patients.view',
+    'patients.edit',
+    'patients.delete',
+    'visits.record',
+    'clinical.view',
+    'appointments.manage',
+    'financial.view',
+    'financial.edit',
+    'data.manage',
+  ],
+  nurse: ['patients.view', 'patients.edit', 'visits.record', 'clinical.view', 'appointments.manage'],
+  reception: ['patients.view', 'patients.edit', 'appointments.manage'],
+  accountant: ['patients.view', 'financial.view', 'financial.edit'],
+};
+
+// Fields only shown to users with 'clinical.view', per collection.
+export const CLINICAL_FIELDS: Partial<Record<string, string[]>> = {
+  // 'allergy' is the free-text field audit entries from before migration 10 still carry.
+  patients: ['allergy', 'allergies', 'medications', 'pastMedicalHistory'],
+  visits: ['complaints', 'diagnosis', 'diagnosisCodes', 'treatment', 'prescription', 'interactionOverride', 'soap', 'vitals'],
+};
+
+export function roleHasPermission(role: StaffRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,237 @@
+import React, { createContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import {
+  AppLockSettings,
+  DEFAULT_LOCK_SETTINGS,
+  loadLockSettings,
+  saveLockSettings,
+  savePin,
+  verifyPin,
+  clearPin,
+  loadLockoutState,
+  recordFailedAttempt,
+  resetFailedAttempts,
+  MAX_FAILED_ATTEMPTS,
+} from '@/services/appLock';
+
+export interface PinAttemptResult {
+  success: boolean;
+  // Wrong PINs left before a lockout, when the attempt failed.
+  attemptsRemaining?: number;
+  lockedUntil?: Date | null;
+}
+
+interface AppLockContextType {
+  settings: AppLockSettings;
+  locked: boolean;
+  loading: boolean;
+  biometricAvailable: boolean;
+  lockedUntil: Date | null;
+  unlockWithPin: (pin: string) => Promise<PinAttemptResult>;
+  unlockWithBiometrics: () => Promise<boolean>;
+  lock: () => void;
+  enableLock: (pin: string) => Promise<void>;
+  changePin: (currentPin: string, newPin: string) => Promise<PinAttemptResult>;
+  disableLock: (currentPin: string) => Promise<PinAttemptResult>;
+  updateSettings: (updates: Partial<Pick<AppLockSettings, 'biometricEnabled' | 'idleTimeoutMinutes'>>) => Promise<void>;
+  recordActivity: () => void;
+}
+
+export const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+// How often the idle timeout is checked while the app is in use.
+const IDLE_CHECK_INTERVAL = 15 * 1000;
+
+export function AppLockProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_LOCK_SETTINGS);
+  const [locked, setLocked] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const lastActivity = useRef(Date.now());
+
+  useEffect(() => {
+    loadLock();
+  }, []);
+
+  const loadLock = async () => {
+    try {
+      const storedSettings = await loadLockSettings();
+      setSettings(storedSettings);
+      setLocked(storedSettings.enabled);
+    } catch (error) {
+      // Without the settings there is no telling whether the lock is on, so stay locked.
+      console.error('Error loading app lock settings:', error);
+      setSettings({ ...DEFAULT_LOCK_SETTINGS, enabled: true });
+      setLocked(true);
+    }
+
+    try {
+      const lockout = await loadLockoutState();
+      setLockedUntil(lockout.lockedUntil ? new Date(lockout.lockedUntil) : null);
+    } catch (error) {
+      console.error('Error loading app lock lockout:', error);
+    }
+
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      setBiometricAvailable(hasHardware && isEnrolled);
+    } catch (error) {
+      console.error('Error checking for biometrics:', error);
+    }
+
+    setLoading(false);
+  };
+
+  const lock = useCallback(() => {
+    if (settings.enabled) {
+      setLocked(true);
+    }
+  }, [settings.enabled]);
+
+  const recordActivity = useCallback(() => {
+    lastActivity.current = Date.now();
+  }, []);
+
+  // Locks once the app has been idle, or in the background, for longer than the timeout.
+  useEffect(() => {
+    if (!settings.enabled || locked) return;
+
+    const timeout = settings.idleTimeoutMinutes * 60 * 1000;
+    const checkIdle = () => {
+      if (Date.now() - lastActivity.current >= timeout) {
+        setLocked(true);
+      }
+    };
+
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL);
+    // Timers do not run in the background, so check as soon as the app returns.
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') checkIdle();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [settings.enabled, settings.idleTimeoutMinutes, locked]);
+
+  const unlock = async () => {
+    await resetFailedAttempts();
+    setLockedUntil(null);
+    lastActivity.current = Date.now();
+    setLocked(false);
+  };
+
+  // Every PIN check counts towards the same lockout, wherever the PIN is entered.
+  const checkPin = async (pin: string): Promise<PinAttemptResult> => {
+    if (lockedUntil && lockedUntil.getTime() > Date.now()) {
+      return { success: false, lockedUntil };
+    }
+
+    if (await verifyPin(pin)) {
+      await resetFailedAttempts();
+      setLockedUntil(null);
+      return { success: true };
+    }
+
+    const lockout = await recordFailedAttempt();
+    const until = lockout.lockedUntil ? new Date(lockout.lockedUntil) : null;
+    setLockedUntil(until);
+    return {
+      success: false,
+      attemptsRemaining: Math.max(MAX_FAILED_ATTEMPTS - lockout.failedAttempts, 0),
+      lockedUntil: until,
+    };
+  };
+
+  const unlockWithPin = async (pin: string) => {
+    const result = await checkPin(pin);
+    if (result.success) {
+      await unlock();
+    }
+    return result;
+  };
+
+  const unlockWithBiometrics = async () => {
+    if (!settings.biometricEnabled || !biometricAvailable) return false;
+
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: 'Unlock Clinic Manager',
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+      if (result.success) {
+        await unlock();
+      }
+      return result.success;
+    } catch (error) {
+      console.error('Error during biometric unlock:', error);
+      return false;
+    }
+  };
+
+  const persistSettings = async (newSettings: AppLockSettings) => {
+    setSettings(newSettings);
+    await saveLockSettings(newSettings);
+  };
+
+  const enableLock = async (pin: string) => {
+    await savePin(pin);
+    await resetFailedAttempts();
+    lastActivity.current = Date.now();
+    await persistSettings({ ...settings, enabled: true });
+  };
+
+  const changePin = async (currentPin: string, newPin: string) => {
+    const result = await checkPin(currentPin);
+    if (result.success) {
+      await savePin(newPin);
+    }
+    return result;
+  };
+
+  const disableLock = async (currentPin: string) => {
+    const result = await checkPin(currentPin);
+    if (result.success) {
+      await clearPin();
+      await persistSettings({ ...settings, enabled: false, biometricEnabled: false });
+    }
+    return result;
+  };
+
+  const updateSettings = async (updates: Partial<Pick<AppLockSettings, 'biometricEnabled' | 'idleTimeoutMinutes'>>) => {
+    try {
+      await persistSettings({ ...settings, ...updates });
+    } catch (error) {
+      console.error('Error saving app lock settings:', error);
+    }
+  };
+
+  const value = {
+    settings,
+    locked,
+    loading,
+    biometricAvailable,
+    lockedUntil,
+    unlockWithPin,
+    unlockWithBiometrics,
+    lock,
+    enableLock,
+    changePin,
+    disableLock,
+    updateSettings,
+    recordActivity,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+    </AppLockContext.Provider>
+  );
+}
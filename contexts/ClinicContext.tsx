@@ -1,13 +1,16 @@
 import React, { createContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Clinic } from '@/types';
+import { generateId } from '@/utils/ids';
+import { loadCollection, saveRecord } from '@/services/database';
 
 interface ClinicContextType {
   clinics: Clinic[];
   activeClinic: Clinic | null;
-  addClinic: (clinic: Omit<Clinic, 'id' | 'createdAt'>) => Promise<void>;
+  addClinic: (clinic: Omit<Clinic, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateClinic: (id: string, updates: Partial<Clinic>) => Promise<void>;
   setActiveClinic: (clinicId: string) => Promise<void>;
+  reloadClinics: () => Promise<void>;
   loading: boolean;
 }
 
@@ -24,32 +27,32 @@ export function ClinicProvider({ children }: { children: ReactNode }) {
 
   const loadClinics = async () => {
     try {
-      const clinicsData = await AsyncStorage.getItem('clinics');
+      const storedClinics = await loadCollection('clinics');
       const activeClinicId = await AsyncStorage.getItem('activeClinicId');
       
-      if (clinicsData) {
-        const parsedClinics = JSON.parse(clinicsData);
-        setClinics(parsedClinics);
+      if (storedClinics.length > 0) {
+        setClinics(storedClinics);
         
         if (activeClinicId) {
-          const active = parsedClinics.find((c: Clinic) => c.id === activeClinicId);
-          setActiveClinicState(active || parsedClinics[0] || null);
-        } else if (parsedClinics.length > 0) {
-          setActiveClinicState(parsedClinics[0]);
+          const active = storedClinics.find(c => c.id === activeClinicId);
+          setActiveClinicState(active || storedClinics[0]);
+        } else {
+          setActiveClinicState(storedClinics[0]);
         }
       } else {
         // Create default clinic if none exists
         const defaultClinic: Clinic = {
-          id: Date.now().toString(),
+          id: generateId(),
           name: 'My Clinic',
           address: '',
           phoneNumber: '',
           isActive: true,
           createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
         };
         setClinics([defaultClinic]);
         setActiveClinicState(defaultClinic);
-        await AsyncStorage.setItem('clinics', JSON.stringify([defaultClinic]));
+        await saveRecord('clinics', defaultClinic);
         await AsyncStorage.setItem('activeClinicId', defaultClinic.id);
       }
     } catch (error) {
@@ -59,17 +62,17 @@ export function ClinicProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const addClinic = async (clinicData: Omit<Clinic, 'id' | 'createdAt'>) => {
+  const addClinic = async (clinicData: Omit<Clinic, 'id' | 'createdAt' | 'updatedAt'>) => {
     try {
       const newClinic: Clinic = {
         ...clinicData,
-        id: Date.now().toString(),
+        id: generateId(),
         createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
       };
       
-      const updatedClinics = [...clinics, newClinic];
-      setClinics(updatedClinics);
-      await AsyncStorage.setItem('clinics', JSON.stringify(updatedClinics));
+      setClinics(prev => [...prev, newClinic]);
+      await saveRecord('clinics', newClinic);
     } catch (error) {
       console.error('Error adding clinic:', error);
     }
@@ -77,16 +80,17 @@ export function ClinicProvider({ children }: { children: ReactNode }) {
 
   const updateClinic = async (id: string, updates: Partial<Clinic>) => {
     try {
-      const updatedClinics = clinics.map(clinic =>
-        clinic.id === id ? { ...clinic, ...updates } : clinic
-      );
-      setClinics(updatedClinics);
+      const existing = clinics.find(clinic => clinic.id === id);
+      if (!existing) return;
+
+      const updatedClinic = { ...existing, ...updates, updatedAt: new Date().toISOString() };
+      setClinics(prev => prev.map(clinic => (clinic.id === id ? updatedClinic : clinic)));
       
       if (activeClinic?.id === id) {
-        setActiveClinicState({ ...activeClinic, ...updates });
+        setActiveClinicState(updatedClinic);
       }
       
-      await AsyncStorage.setItem('clinics', JSON.stringify(updatedClinics));
+      await saveRecord('clinics', updatedClinic);
     } catch (error) {
       console.error('Error updating clinic:', error);
     }
@@ -110,6 +114,7 @@ export function ClinicProvider({ children }: { children: ReactNode }) {
     addClinic,
     updateClinic,
     setActiveClinic,
+    reloadClinics: loadClinics,
     loading,
   };
 
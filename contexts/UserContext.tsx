@@ -0,0 +1,232 @@
+import React, { createContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StaffUser } from '@/types';
+import { generateId } from '@/utils/ids';
+import { loadCollection, saveRecord } from '@/services/database';
+import { setAuditActor } from '@/services/audit';
+import {
+  createPinHash,
+  matchesPinHash,
+  loadLockoutState,
+  recordFailedAttempt,
+  resetFailedAttempts,
+  MAX_FAILED_ATTEMPTS,
+} from '@/services/appLock';
+import { PinAttemptResult } from './AppLockContext';
+import { Permission, roleHasPermission } from '@/constants/permissions';
+
+export type StaffUserInput = Pick<StaffUser, 'name' | 'role'> & {
+  // A new PIN, or null to remove the user's PIN. Left out to keep it unchanged.
+  pin?: string | null;
+};
+
+interface UserContextType {
+  users: StaffUser[];
+  activeUser: StaffUser | null;
+  can: (permission: Permission) => boolean;
+  addUser: (user: StaffUserInput) => Promise<void>;
+  updateUser: (id: string, updates: Partial<StaffUserInput>) => Promise<boolean>;
+  archiveUser: (id: string) => Promise<boolean>;
+  switchUser: (id: string, pin?: string) => Promise<PinAttemptResult>;
+  reloadUsers: () => Promise<void>;
+  loading: boolean;
+}
+
+export const UserContext = createContext<UserContextType | undefined>(undefined);
+
+const ACTIVE_USER_KEY = 'activeUserId';
+
+function isActiveAdmin(user: StaffUser) {
+  return user.role === 'admin' && !user.archivedAt;
+}
+
+export function UserProvider({ children }: { children: ReactNode }) {
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [activeUser, setActiveUserState] = useState<StaffUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  // New records and audit entries are attributed to whoever is active.
+  useEffect(() => {
+    setAuditActor(activeUser);
+  }, [activeUser]);
+
+  const loadUsers = async () => {
+    try {
+      const storedUsers = await loadCollection('staffUsers');
+      const activeUserId = await AsyncStorage.getItem(ACTIVE_USER_KEY);
+
+      if (storedUsers.length > 0) {
+        setUsers(storedUsers);
+
+        const selectable = storedUsers.filter(user => !user.archivedAt);
+        const active = selectable.find(user => user.id === activeUserId);
+        setActiveUserState(active || selectable.find(isActiveAdmin) || selectable[0] || null);
+      } else {
+        // Existing installs start with a single administrator, so nothing is locked away.
+        const defaultUser: StaffUser = {
+          id: generateId(),
+          name: 'Administrator',
+          role: 'admin',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+        setUsers([defaultUser]);
+        setActiveUserState(defaultUser);
+        await saveRecord('staffUsers', defaultUser);
+        await AsyncStorage.setItem(ACTIVE_USER_KEY, defaultUser.id);
+      }
+    } catch (error) {
+      console.error('Error loading staff users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const can = useCallback(
+    (permission: Permission) => !!activeUser && roleHasPermission(activeUser.role, permission),
+    [activeUser]
+  );
+
+  const applyInput = async (user: StaffUser, input: Partial<StaffUserInput>): Promise<StaffUser> => {
+    const { pin, ...fields } = input;
+    const updated: StaffUser = { ...user, ...fields };
+
+    if (pin) {
+      updated.pinHash = await createPinHash(pin);
+    } else if (pin === null) {
+      delete updated.pinHash;
+    }
+    return updated;
+  };
+
+  const addUser = async (input: StaffUserInput) => {
+    try {
+      const newUser = await applyInput(
+        {
+          id: generateId(),
+          name: input.name,
+          role: input.role,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+        input
+      );
+
+      setUsers(prev => [...prev, newUser]);
+      await saveRecord('staffUsers', newUser);
+    } catch (error) {
+      console.error('Error adding staff user:', error);
+    }
+  };
+
+  const saveUser = async (updatedUser: StaffUser) => {
+    setUsers(prev => prev.map(user => (user.id === updatedUser.id ? updatedUser : user)));
+
+    if (activeUser?.id === updatedUser.id) {
+      setActiveUserState(updatedUser);
+    }
+
+    await saveRecord('staffUsers', updatedUser);
+  };
+
+  /**
+   * Returns false if the change would leave no active administrator, since
+   * someone must always be able to manage users.
+   */
+  const updateUser = async (id: string, updates: Partial<StaffUserInput>) => {
+    const existing = users.find(user => user.id === id);
+    if (!existing) return false;
+    if (
+      isActiveAdmin(existing) && updates.role && updates.role !== 'admin' &&
+      !users.some(user => user.id !== id && isActiveAdmin(user))
+    ) {
+      return false;
+    }
+
+    try {
+      const updatedUser = await applyInput(existing, updates);
+      await saveUser({ ...updatedUser, updatedAt: new Date().toISOString() });
+      return true;
+    } catch (error) {
+      console.error('Error updating staff user:', error);
+      return false;
+    }
+  };
+
+  /**
+   * Archives a user so they can no longer be selected. Returns false if the
+   * user is the active user or the last administrator.
+   */
+  const archiveUser = async (id: string) => {
+    const existing = users.find(user => user.id === id);
+    if (!existing || existing.id === activeUser?.id) return false;
+    if (isActiveAdmin(existing) && !users.some(user => user.id !== id && isActiveAdmin(user))) {
+      return false;
+    }
+
+    try {
+      const now = new Date().toISOString();
+      await saveUser({ ...existing, archivedAt: now, updatedAt: now });
+      return true;
+    } catch (error) {
+      console.error('Error archiving staff user:', error);
+      return false;
+    }
+  };
+
+  /**
+   * Makes another user active. Users with a PIN must give it; wrong PINs
+   * lead to the same lockout as the app lock, counted per user.
+   */
+  const switchUser = async (id: string, pin?: string): Promise<PinAttemptResult> => {
+    const user = users.find(candidate => candidate.id === id && !candidate.archivedAt);
+    if (!user) return { success: false };
+
+    if (user.pinHash) {
+      const { lockedUntil } = await loadLockoutState(user.id);
+      if (lockedUntil && new Date(lockedUntil).getTime() > Date.now()) {
+        return { success: false, lockedUntil: new Date(lockedUntil) };
+      }
+
+      if (!(pin && (await matchesPinHash(pin, user.pinHash)))) {
+        const lockout = await recordFailedAttempt(user.id);
+        return {
+          success: false,
+          attemptsRemaining: Math.max(MAX_FAILED_ATTEMPTS - lockout.failedAttempts, 0),
+          lockedUntil: lockout.lockedUntil ? new Date(lockout.lockedUntil) : null,
+        };
+      }
+      await resetFailedAttempts(user.id);
+    }
+
+    try {
+      setActiveUserState(user);
+      await AsyncStorage.setItem(ACTIVE_USER_KEY, user.id);
+    } catch (error) {
+      console.error('Error switching staff user:', error);
+    }
+    return { success: true };
+  };
+
+  const value = {
+    users,
+    activeUser,
+    can,
+    addUser,
+    updateUser,
+    archiveUser,
+    switchUser,
+    reloadUsers: loadUsers,
+    loading,
+  };
+
+  return (
+    <UserContext.Provider value={value}>
+      {children}
+    </UserContext.Provider>
+  );
+}
@@ -0,0 +1,34 @@
+import { enqueueWrite } from '@/services/database';
+
+const mockDb = {};
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(() => Promise.resolve({ execAsync: jest.fn(() => Promise.resolve()), closeAsync: jest.fn() })),
+}));
+jest.mock('expo-crypto', () => ({ randomUUID: () => 'id' }));
+jest.mock('@/services/migrations', () => ({ runMigrations: jest.fn(() => Promise.resolve()) }));
+jest.mock('@/services/encryption', () => ({ loadEncryptionKey: jest.fn(() => Promise.resolve()) }));
+
+describe('enqueueWrite', () => {
+  it('runs writes one at a time in the order they were queued', async () => {
+    const events: string[] = [];
+    const write = (name: string, delay: number) => enqueueWrite(async () => {
+      events.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      events.push(`end ${name}`);
+      return name;
+    });
+
+    await expect(Promise.all([write('first', 20), write('second', 0)])).resolves.toEqual(['first', 'second']);
+    expect(events).toEqual(['start first', 'end first', 'start second', 'end second']);
+  });
+
+  it('keeps running queued writes after one rejects', async () => {
+    const failed = enqueueWrite(() => Promise.reject(new Error('constraint failed')));
+    const next = enqueueWrite(() => Promise.resolve('saved'));
+
+    await expect(failed).rejects.toThrow('constraint failed');
+    await expect(next).resolves.toBe('saved');
+    await expect(enqueueWrite(() => Promise.resolve(mockDb))).resolves.toBe(mockDb);
+  });
+});
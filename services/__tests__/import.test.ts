@@ -0,0 +1,83 @@
+import { buildImportPreview } from '@/services/import';
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from '@/services/export';
+import { LATEST_SCHEMA_VERSION } from '@/services/migrations';
+
+let mockFileText = '';
+const mockStored: Record<string, object[]> = {};
+
+jest.mock('expo-file-system', () => ({ readAsStringAsync: jest.fn(() => Promise.resolve(mockFileText)) }));
+jest.mock('expo-crypto', () => ({ randomUUID: () => 'id' }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@/services/export', () => ({ EXPORT_FORMAT: 'clinic-manager-export', EXPORT_FORMAT_VERSION: 1 }));
+jest.mock('@/services/database', () => ({
+  COLLECTIONS: ['clinics', 'staffUsers', 'patients'],
+  loadCollection: jest.fn((collection: string) => Promise.resolve(mockStored[collection] ?? [])),
+}));
+
+const clinic = { id: 'clinic-1', name: 'Main', createdAt: '2026-01-01T00:00:00.000Z' };
+const admin = { id: 'user-1', name: 'Admin', role: 'admin', createdAt: '2026-01-01T00:00:00.000Z' };
+
+const bundle = (schemaVersion: number, data: Record<string, object[]>) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_FORMAT_VERSION, schemaVersion, data });
+
+beforeEach(() => {
+  mockStored.clinics = [clinic];
+  mockStored.staffUsers = [];
+  mockStored.patients = [];
+});
+
+describe('buildImportPreview', () => {
+  it('rejects staff users without permission to manage users', async () => {
+    mockStored.staffUsers = [{ ...admin, pinHash: 'hash' }];
+    mockFileText = bundle(LATEST_SCHEMA_VERSION, { staffUsers: [{ ...admin, name: 'Renamed' }] });
+
+    const preview = await buildImportPreview('file', 'export.json', 'clinic-1', false);
+
+    expect(preview.rows).toHaveLength(0);
+    expect(preview.errors).toEqual([expect.objectContaining({ collection: 'staffUsers', row: 1 })]);
+  });
+
+  it('never adds a staff user without a PIN', async () => {
+    mockFileText = bundle(LATEST_SCHEMA_VERSION, { staffUsers: [admin] });
+
+    const preview = await buildImportPreview('file', 'export.json', 'clinic-1', true);
+
+    expect(preview.rows).toHaveLength(0);
+    expect(preview.errors).toHaveLength(1);
+  });
+
+  it('keeps the stored PIN when updating a staff user', async () => {
+    mockStored.staffUsers = [{ ...admin, pinHash: 'hash' }];
+    mockFileText = bundle(LATEST_SCHEMA_VERSION, { staffUsers: [{ ...admin, name: 'Renamed' }] });
+
+    const preview = await buildImportPreview('file', 'export.json', 'clinic-1', true);
+
+    expect(preview.rows.map(row => row.record)).toEqual([expect.objectContaining({ name: 'Renamed', pinHash: 'hash' })]);
+  });
+
+  it('upgrades patients from older exports like the migrations do', async () => {
+    mockFileText = bundle(8, {
+      patients: [{
+        id: 'patient-1',
+        name: 'Jane Doe',
+        age: 40,
+        sex: 'Female',
+        allergy: 'Penicillin',
+        clinicId: 'clinic-1',
+        createdAt: '2026-01-05T09:00:00.000Z',
+      }],
+    });
+
+    const preview = await buildImportPreview('file', 'export.json', 'clinic-1', false);
+    const patient = preview.rows[0].record;
+
+    expect(preview.errors).toEqual([]);
+    expect(patient).not.toHaveProperty('allergy');
+    expect(patient).toMatchObject({
+      allergies: [expect.objectContaining({ id: 'patient-1-allergy-0', substance: 'Penicillin' })],
+      dateOfBirth: '1986-01-05',
+      dateOfBirthApproximate: true,
+    });
+  });
+});
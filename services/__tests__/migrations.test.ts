@@ -0,0 +1,40 @@
+import { upgradeRecord, LATEST_SCHEMA_VERSION } from '@/services/migrations';
+
+jest.mock('expo-crypto', () => ({ randomUUID: () => 'id' }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+// A patient as stored before dates of birth and structured allergies.
+const version8Patient = {
+  id: 'patient-1',
+  name: 'Jane Doe',
+  age: 40,
+  sex: 'Female',
+  phoneNumber: '',
+  location: '',
+  allergy: 'Penicillin',
+  pastMedicalHistory: '',
+  clinicId: 'clinic-1',
+  createdAt: '2026-01-05T09:00:00.000Z',
+  updatedAt: '2026-01-05T09:00:00.000Z',
+};
+
+describe('upgradeRecord', () => {
+  it('upgrades patients from an older schema like the migrations do', () => {
+    const patient = upgradeRecord('patients', version8Patient, 8);
+
+    expect(patient).not.toHaveProperty('allergy');
+    expect(patient.allergies).toEqual([
+      expect.objectContaining({ id: 'patient-1-allergy-0', substance: 'Penicillin' }),
+    ]);
+    expect(patient.medications).toEqual([]);
+    expect(patient.dateOfBirth).toBe('1986-01-05');
+    expect(patient.dateOfBirthApproximate).toBe(true);
+  });
+
+  it('leaves records from the current schema unchanged', () => {
+    const patient = { ...version8Patient, allergy: undefined, allergies: [], medications: [] };
+
+    expect(upgradeRecord('patients', patient, LATEST_SCHEMA_VERSION)).toBe(patient);
+  });
+});
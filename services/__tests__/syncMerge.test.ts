@@ -0,0 +1,93 @@
+import { mergeRecords, RECORD_DELETED_FIELD } from '@/services/syncMerge';
+
+jest.mock('@/services/database', () => ({ getDatabase: jest.fn() }));
+jest.mock('@/services/schema', () => ({ AUDIT_TABLE: 'audit_log', decodeData: jest.fn() }));
+jest.mock('expo-crypto', () => ({ randomUUID: () => 'id' }));
+
+interface TestRecord {
+  id: string;
+  updatedAt?: string;
+  name?: string;
+  phoneNumber?: string;
+  location?: string;
+}
+
+const base: TestRecord = {
+  id: 'patient-1',
+  name: 'Jane Doe',
+  phoneNumber: '0911',
+  location: 'Yangon',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('mergeRecords', () => {
+  it('takes fields edited on only one side from that side', () => {
+    const local = { ...base, name: 'Jane Smith', updatedAt: '2026-01-02T00:00:00.000Z' };
+    const remote = { ...base, phoneNumber: '0922', updatedAt: '2026-01-03T00:00:00.000Z' };
+
+    expect(mergeRecords(base, local, remote)).toEqual({
+      merged: { ...base, name: 'Jane Smith', phoneNumber: '0922', updatedAt: '2026-01-03T00:00:00.000Z' },
+      conflicts: [],
+    });
+  });
+
+  it('reports fields edited differently on both sides and keeps the local value', () => {
+    const local = { ...base, name: 'Jane Smith' };
+    const remote = { ...base, name: 'Jane Brown', location: 'Mandalay' };
+
+    const { merged, conflicts } = mergeRecords(base, local, remote);
+
+    expect(conflicts).toEqual(['name']);
+    expect(merged).toMatchObject({ name: 'Jane Smith', location: 'Mandalay' });
+  });
+
+  it('does not report a field both sides changed to the same value', () => {
+    const local = { ...base, name: 'Jane Smith' };
+    const remote = { ...base, name: 'Jane Smith' };
+
+    expect(mergeRecords(base, local, remote).conflicts).toEqual([]);
+  });
+
+  it('removes a field the remote side removed', () => {
+    const { location, ...remote } = base;
+    const local = { ...base, name: 'Jane Smith' };
+
+    const { merged } = mergeRecords(base, local, remote);
+
+    expect(merged).not.toHaveProperty('location');
+    expect(merged).toMatchObject({ name: 'Jane Smith' });
+  });
+
+  it('keeps the later updatedAt whichever side has it', () => {
+    const local = { ...base, name: 'Jane Smith', updatedAt: '2026-01-05T00:00:00.000Z' };
+    const remote = { ...base, location: 'Mandalay', updatedAt: '2026-01-04T00:00:00.000Z' };
+
+    expect(mergeRecords(base, local, remote).merged?.updatedAt).toBe('2026-01-05T00:00:00.000Z');
+    expect(mergeRecords(base, { ...local, updatedAt: undefined }, remote).merged?.updatedAt)
+      .toBe('2026-01-04T00:00:00.000Z');
+  });
+
+  it('lets a deletion win over a record the other side left unchanged', () => {
+    expect(mergeRecords(base, { ...base }, null)).toEqual({ merged: null, conflicts: [] });
+    expect(mergeRecords(base, null, { ...base })).toEqual({ merged: null, conflicts: [] });
+  });
+
+  it('keeps the local edit and reports a conflict when the remote side deleted it', () => {
+    const local = { ...base, name: 'Jane Smith' };
+
+    expect(mergeRecords(base, local, null)).toEqual({ merged: local, conflicts: [RECORD_DELETED_FIELD] });
+  });
+
+  it('keeps the record deleted and reports a conflict when the remote side edited it', () => {
+    const remote = { ...base, name: 'Jane Smith' };
+
+    expect(mergeRecords(base, null, remote)).toEqual({ merged: null, conflicts: [RECORD_DELETED_FIELD] });
+  });
+
+  it('treats both sides as new when there is no base', () => {
+    const local = { ...base, name: 'Jane Smith' };
+
+    expect(mergeRecords(null, local, { ...base }).conflicts).toEqual(['name']);
+    expect(mergeRecords(null, null, null)).toEqual({ merged: null, conflicts: [] });
+  });
+});
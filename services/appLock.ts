@@ -0,0 +1,113 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+
+const SETTINGS_KEY = 'app_lock_settings';
+const PIN_KEY = 'app_lock_pin';
+const LOCKOUT_KEY = 'app_lock_lockout';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 30];
+
+// Wrong PINs allowed before unlocking is paused.
+export const MAX_FAILED_ATTEMPTS = 5;
+const MAX_LOCKOUT_MINUTES = 60;
+
+export interface AppLockSettings {
+  enabled: boolean;
+  biometricEnabled: boolean;
+  idleTimeoutMinutes: number;
+}
+
+export interface LockoutState {
+  failedAttempts: number;
+  // ISO time until which PIN entry is refused, if locked out.
+  lockedUntil: string | null;
+}
+
+export const DEFAULT_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricEnabled: false,
+  idleTimeoutMinutes: 5,
+};
+
+const NO_LOCKOUT: LockoutState = { failedAttempts: 0, lockedUntil: null };
+
+async function readJson<T>(key: string, fallback: T): Promise<T> {
+  const stored = await SecureStore.getItemAsync(key);
+  return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+}
+
+export function loadLockSettings() {
+  return readJson(SETTINGS_KEY, DEFAULT_LOCK_SETTINGS);
+}
+
+export async function saveLockSettings(settings: AppLockSettings) {
+  await SecureStore.setItemAsync(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+function hashPin(salt: string, pin: string) {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+/**
+ * Returns a salted hash of the PIN as "salt:hash", for storing in place of
+ * the PIN itself.
+ */
+export async function createPinHash(pin: string) {
+  const salt = Array.from(Crypto.getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${salt}:${await hashPin(salt, pin)}`;
+}
+
+export async function matchesPinHash(pin: string, stored: string) {
+  const [salt, hash] = stored.split(':');
+  return (await hashPin(salt, pin)) === hash;
+}
+
+export async function savePin(pin: string) {
+  await SecureStore.setItemAsync(PIN_KEY, await createPinHash(pin), {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+}
+
+export async function verifyPin(pin: string) {
+  const stored = await SecureStore.getItemAsync(PIN_KEY);
+  return stored ? matchesPinHash(pin, stored) : false;
+}
+
+export async function clearPin() {
+  await SecureStore.deleteItemAsync(PIN_KEY);
+}
+
+// Wrong PINs are counted separately for the app lock and for each staff
+// user's PIN, given as `scope`.
+function lockoutKey(scope?: string) {
+  return scope ? `${LOCKOUT_KEY}_${scope}` : LOCKOUT_KEY;
+}
+
+export function loadLockoutState(scope?: string) {
+  return readJson(lockoutKey(scope), NO_LOCKOUT);
+}
+
+/**
+ * Counts a wrong PIN. From MAX_FAILED_ATTEMPTS on, each further failure
+ * pauses PIN entry for twice as long as the last, starting at one minute.
+ */
+export async function recordFailedAttempt(scope?: string): Promise<LockoutState> {
+  const { failedAttempts } = await loadLockoutState(scope);
+  const attempts = failedAttempts + 1;
+
+  let lockedUntil: string | null = null;
+  if (attempts >= MAX_FAILED_ATTEMPTS) {
+    const minutes = Math.min(2 ** (attempts - MAX_FAILED_ATTEMPTS), MAX_LOCKOUT_MINUTES);
+    lockedUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+  }
+
+  const state = { failedAttempts: attempts, lockedUntil };
+  await SecureStore.setItemAsync(lockoutKey(scope), JSON.stringify(state));
+  return state;
+}
+
+export async function resetFailedAttempts(scope?: string) {
+  await SecureStore.deleteItemAsync(lockoutKey(scope));
+}
@@ -0,0 +1,122 @@
+import { AuditEntry, AuditFieldChange } from '@/types';
+import { generateId } from '@/utils/ids';
+import { getDatabase, RecordChange } from './database';
+import { AUDIT_TABLE, decodeData } from './schema';
+
+const DEFAULT_ACTOR = 'Device user';
+
+// Fields that change on every write and would only add noise to the history.
+const IGNORED_FIELDS = new Set(['id', 'updatedAt']);
+
+export interface AuditActor {
+  // Staff user id; absent for changes not made by a signed-in user.
+  id?: string;
+  name: string;
+}
+
+let currentActor: AuditActor = { name: DEFAULT_ACTOR };
+
+/**
+ * Sets the staff user recorded as the actor on subsequent audit entries and
+ * as the creator of new records.
+ */
+export function setAuditActor(actor: { id: string; name: string } | null) {
+  currentActor = actor ? { id: actor.id, name: actor.name } : { name: DEFAULT_ACTOR };
+}
+
+export function getAuditActor() {
+  return currentActor;
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level differences between two versions of a record. A missing
+ * version (creation or deletion) is treated as an empty record.
+ */
+export function diffRecords(before: object | null, after: object | null): AuditFieldChange[] {
+  const beforeValues = (before ?? {}) as Record<string, unknown>;
+  const afterValues = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field) && !isEqual(beforeValues[field], afterValues[field]))
+    .map(field => ({ field, before: beforeValues[field], after: afterValues[field] }));
+}
+
+export function buildAuditEntries(changes: RecordChange[], actor = currentActor): AuditEntry[] {
+  const timestamp = new Date().toISOString();
+
+  return changes
+    .map(change => {
+      const record = (change.after ?? change.before)!;
+      const action: AuditEntry['action'] = !change.before ? 'create' : !change.after ? 'delete' : 'update';
+
+      return {
+        id: generateId(),
+        entityType: change.collection,
+        entityId: record.id,
+        action,
+        changes: diffRecords(change.before, change.after),
+        timestamp,
+        actor: actor.name,
+        actorId: actor.id,
+      };
+    })
+    .filter(entry => entry.action !== 'update' || entry.changes.length > 0);
+}
+
+/**
+ * Entries recording that `merged` was merged into `kept`, one in the history
+ * of each patient. `moved` counts the re-pointed records by collection.
+ */
+export function buildMergeAuditEntries(
+  kept: { id: string; name: string },
+  merged: { id: string; name: string },
+  moved: Record<string, number>,
+  actor = currentActor
+): AuditEntry[] {
+  const timestamp = new Date().toISOString();
+  const movedChanges = Object.entries(moved).map(([collection, count]) => ({
+    field: `${collection}Moved`,
+    after: count,
+  }));
+  const entry = (entityId: string, changes: AuditFieldChange[]): AuditEntry => ({
+    id: generateId(),
+    entityType: 'patients',
+    entityId,
+    action: 'merge',
+    changes,
+    timestamp,
+    actor: actor.name,
+    actorId: actor.id,
+  });
+
+  return [
+    entry(kept.id, [
+      { field: 'mergedPatient', after: merged.name },
+      { field: 'mergedPatientId', after: merged.id },
+      ...movedChanges,
+    ]),
+    entry(merged.id, [
+      { field: 'mergedInto', after: kept.name },
+      { field: 'mergedIntoId', after: kept.id },
+      ...movedChanges,
+    ]),
+  ];
+}
+
+/**
+ * Returns the audit history of one record, newest first.
+ */
+export async function loadAuditHistory(entityType: string, entityId: string): Promise<AuditEntry[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ data: string }>(
+    `SELECT data FROM ${AUDIT_TABLE} WHERE entity_type = ? AND entity_id = ? ORDER BY timestamp DESC, rowid DESC`,
+    entityType,
+    entityId
+  );
+  return rows.map(row => decodeData<AuditEntry>(row.data));
+}
@@ -0,0 +1,217 @@
+import * as FileSystem from 'expo-file-system';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppData } from '@/types';
+import { loadCollection, COLLECTIONS, CollectionName, CollectionRecord, RecordChange } from './database';
+import { buildExportBundle, fileTimestamp } from './export';
+import { diffRecords } from './audit';
+import { encryptText, decryptText } from './encryption';
+import { LATEST_SCHEMA_VERSION, upgradeRecord } from './migrations';
+
+export const BACKUP_FORMAT = 'clinic-manager-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export const BACKUP_RETENTION_OPTIONS = [3, 7, 14, 30];
+
+// Automatic backups are taken at most once per interval.
+const BACKUP_INTERVAL = 24 * 60 * 60 * 1000;
+
+const BACKUP_DIRECTORY = `${FileSystem.documentDirectory}backups/`;
+const SETTINGS_KEY = 'backupSettings';
+
+export type BackupTrigger = 'automatic' | 'manual' | 'beforeRestore';
+
+export interface BackupSettings {
+  enabled: boolean;
+  // Number of backups kept of each trigger; older ones are deleted.
+  retentionCount: number;
+}
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  enabled: true,
+  retentionCount: 7,
+};
+
+/**
+ * A backup file. Everything needed to list backups is stored in the clear;
+ * the records themselves are encrypted with the same key as the database.
+ */
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  trigger: BackupTrigger;
+  schemaVersion: number;
+  recordCounts: Record<CollectionName, number>;
+  // Encrypted JSON of the AppData.
+  data: string;
+}
+
+export interface BackupSummary {
+  fileUri: string;
+  createdAt: string;
+  trigger: BackupTrigger;
+  schemaVersion: number;
+  recordCounts: Record<CollectionName, number>;
+}
+
+export async function loadBackupSettings(): Promise<BackupSettings> {
+  const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+  return stored ? { ...DEFAULT_BACKUP_SETTINGS, ...JSON.parse(stored) } : DEFAULT_BACKUP_SETTINGS;
+}
+
+export async function saveBackupSettings(settings: BackupSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+async function readBackupFile(fileUri: string): Promise<BackupFile> {
+  const backup = JSON.parse(await FileSystem.readAsStringAsync(fileUri));
+  if (backup?.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Clinic Manager backup.');
+  }
+  if (backup.version > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app first.');
+  }
+  return backup;
+}
+
+/**
+ * Lists the stored backups, newest first. Unreadable files are skipped.
+ */
+export async function listBackups(): Promise<BackupSummary[]> {
+  const directory = await FileSystem.getInfoAsync(BACKUP_DIRECTORY);
+  if (!directory.exists) return [];
+
+  const fileNames = await FileSystem.readDirectoryAsync(BACKUP_DIRECTORY);
+  const backups: BackupSummary[] = [];
+
+  for (const fileName of fileNames.filter(name => name.endsWith('.json'))) {
+    const fileUri = `${BACKUP_DIRECTORY}${fileName}`;
+    try {
+      const { createdAt, trigger, schemaVersion, recordCounts } = await readBackupFile(fileUri);
+      backups.push({ fileUri, createdAt, trigger, schemaVersion, recordCounts });
+    } catch (error) {
+      console.error(`Error reading backup ${fileName}:`, error);
+    }
+  }
+
+  return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Deletes the oldest backups of `trigger` beyond the retention count, so
+ * manual and pre-restore backups never push out the daily snapshots. The
+ * backup at `keepFileUri`, if any, is never deleted.
+ */
+async function pruneBackups(trigger: BackupTrigger, retentionCount: number, keepFileUri?: string) {
+  const backups = (await listBackups()).filter(backup => backup.trigger === trigger && backup.fileUri !== keepFileUri);
+  for (const backup of backups.slice(retentionCount)) {
+    await FileSystem.deleteAsync(backup.fileUri, { idempotent: true });
+  }
+}
+
+/**
+ * Writes a snapshot of every collection, clinics and staff users included,
+ * then applies the retention setting to backups of the same trigger, except
+ * the one at `keepFileUri`.
+ */
+export async function createBackup(trigger: BackupTrigger = 'manual', keepFileUri?: string): Promise<BackupSummary> {
+  const bundle = await buildExportBundle();
+  const recordCounts = Object.fromEntries(
+    COLLECTIONS.map(collection => [collection, bundle.data[collection].length])
+  ) as Record<CollectionName, number>;
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    createdAt: bundle.exportedAt,
+    trigger,
+    schemaVersion: bundle.schemaVersion,
+    recordCounts,
+    data: encryptText(JSON.stringify(bundle.data)),
+  };
+
+  await FileSystem.makeDirectoryAsync(BACKUP_DIRECTORY, { intermediates: true });
+  const fileUri = `${BACKUP_DIRECTORY}backup-${fileTimestamp(backup.createdAt)}.json`;
+  await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(backup));
+
+  const { retentionCount } = await loadBackupSettings();
+  await pruneBackups(trigger, retentionCount, keepFileUri);
+
+  return { fileUri, createdAt: backup.createdAt, trigger, schemaVersion: backup.schemaVersion, recordCounts };
+}
+
+let pendingScheduledBackup: Promise<BackupSummary | null> | null = null;
+
+/**
+ * Takes an automatic backup if they are enabled and the last automatic one
+ * is older than a day. Returns the new backup, if one was taken. Overlapping
+ * calls share one check.
+ */
+export function runScheduledBackup(): Promise<BackupSummary | null> {
+  if (!pendingScheduledBackup) {
+    pendingScheduledBackup = backUpIfDue().finally(() => {
+      pendingScheduledBackup = null;
+    });
+  }
+  return pendingScheduledBackup;
+}
+
+async function backUpIfDue() {
+  const settings = await loadBackupSettings();
+  if (!settings.enabled) return null;
+
+  const backups = await listBackups();
+  const lastAutomatic = backups.find(backup => backup.trigger === 'automatic');
+  if (lastAutomatic && Date.now() - new Date(lastAutomatic.createdAt).getTime() < BACKUP_INTERVAL) {
+    return null;
+  }
+
+  return createBackup('automatic');
+}
+
+// Returns a copy of the record marked as changed now.
+function touch<T extends object>(record: T): T {
+  return { ...record, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * The changes that bring stored data back to the state of a backup. Records
+ * from backups of older schema versions are upgraded first. Restored records
+ * get a fresh updatedAt so they count as new changes when syncing, and
+ * records created since the backup are deleted.
+ */
+export async function planRestore(fileUri: string): Promise<RecordChange[]> {
+  const backup = await readBackupFile(fileUri);
+  if (backup.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Please update the app first.');
+  }
+
+  const data: AppData = JSON.parse(decryptText(backup.data));
+  const changes: RecordChange[] = [];
+
+  for (const collection of COLLECTIONS) {
+    // Collections added after the backup was made are left as they are.
+    const restored: CollectionRecord<CollectionName>[] | undefined = data[collection];
+    if (!restored) continue;
+
+    const current = new Map<string, CollectionRecord<CollectionName>>(
+      (await loadCollection(collection)).map(record => [record.id, record])
+    );
+    const restoredIds = new Set(restored.map(record => record.id));
+
+    for (const backedUp of restored) {
+      const record = upgradeRecord(collection, backedUp, backup.schemaVersion);
+      const existing = current.get(record.id) ?? null;
+      if (!existing || diffRecords(existing, record).length > 0) {
+        changes.push({ collection, before: existing, after: touch(record) } as RecordChange);
+      }
+    }
+    for (const [id, record] of current) {
+      if (!restoredIds.has(id)) {
+        changes.push({ collection, before: record, after: null } as RecordChange);
+      }
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,118 @@
+import * as SQLite from 'expo-sqlite';
+import { AppData, AuditEntry } from '@/types';
+import {
+  TABLES,
+  CollectionName,
+  CollectionRecord,
+  writeRecord,
+  removeRecord,
+  insertAuditEntry,
+  recordOutboxChange,
+  decodeData,
+} from './schema';
+import { runMigrations } from './migrations';
+import { loadEncryptionKey } from './encryption';
+
+export type { CollectionName, CollectionRecord } from './schema';
+export { COLLECTIONS } from './schema';
+
+const DATABASE_NAME = 'clinic.db';
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+/**
+ * Opens the database and runs any pending migrations. Rejects with a
+ * MigrationError if the stored data could not be upgraded.
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch(error => {
+      // Allow the next caller to retry instead of caching the failure.
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function openDatabase() {
+  // Record data is encrypted, so the key is needed before migrations run.
+  await loadEncryptionKey();
+
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  try {
+    await db.execAsync('PRAGMA journal_mode = WAL;');
+    await runMigrations(db);
+  } catch (error) {
+    await db.closeAsync();
+    throw error;
+  }
+  return db;
+}
+
+export async function loadCollection<K extends CollectionName>(collection: K): Promise<AppData[K]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ data: string }>(
+    `SELECT data FROM ${TABLES[collection].table} ORDER BY rowid`
+  );
+  return rows.map(row => decodeData(row.data)) as AppData[K];
+}
+
+/**
+ * A single record being created (`before` is null), updated, or deleted
+ * (`after` is null).
+ */
+export type RecordChange = {
+  [K in CollectionName]: {
+    collection: K;
+    before: CollectionRecord<K> | null;
+    after: CollectionRecord<K> | null;
+  };
+}[CollectionName];
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `task` after every previously queued write has finished, so writes
+ * reach the database in the order they were made. A failed task rejects its
+ * own promise without blocking the ones queued after it.
+ */
+export function enqueueWrite<T>(task: (db: SQLite.SQLiteDatabase) => Promise<T>): Promise<T> {
+  const result = writeQueue.then(async () => {
+    const db = await getDatabase();
+    return task(db);
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Persists a group of changes and their audit entries atomically, in queue
+ * order, and marks the changed records for the next sync.
+ */
+export function persistChanges(changes: RecordChange[], auditEntries: AuditEntry[] = []) {
+  return enqueueWrite(db =>
+    db.withTransactionAsync(async () => {
+      for (const change of changes) {
+        if (change.after) {
+          await writeRecord<CollectionName>(db, change.collection, change.after);
+        } else if (change.before) {
+          await removeRecord(db, change.collection, change.before.id);
+        }
+        await recordOutboxChange(db, change.collection, (change.after ?? change.before)!.id);
+      }
+      for (const entry of auditEntries) {
+        await insertAuditEntry(db, entry);
+      }
+    })
+  );
+}
+
+export function saveRecord<K extends CollectionName>(collection: K, record: CollectionRecord<K>) {
+  return enqueueWrite(db =>
+    db.withTransactionAsync(async () => {
+      await writeRecord(db, collection, record);
+      await recordOutboxChange(db, collection, record.id);
+    })
+  );
+}
@@ -0,0 +1,97 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils';
+
+const KEY_STORE_NAME = 'clinic_data_key';
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+
+// Marks encrypted values. The version allows changing the cipher later while
+// still reading older values.
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+let dataKey: Uint8Array | null = null;
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string) {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Loads the data encryption key from the device's secure store, creating it
+ * on first launch. Must be called before any record is read or written.
+ */
+export async function loadEncryptionKey() {
+  if (dataKey) return;
+
+  if (!(await SecureStore.isAvailableAsync())) {
+    throw new Error('Secure storage is not available on this device, so patient data cannot be protected.');
+  }
+
+  const stored = await SecureStore.getItemAsync(KEY_STORE_NAME);
+  if (stored) {
+    dataKey = fromBase64(stored);
+    return;
+  }
+
+  const key = Crypto.getRandomBytes(KEY_LENGTH);
+  await SecureStore.setItemAsync(KEY_STORE_NAME, toBase64(key), {
+    keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+  });
+  dataKey = key;
+}
+
+function requireKey() {
+  if (!dataKey) {
+    throw new Error('The encryption key has not been loaded.');
+  }
+  return dataKey;
+}
+
+export function isEncrypted(value: string) {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypts text with XChaCha20-Poly1305 under a fresh random nonce.
+ */
+export function encryptText(plaintext: string) {
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const ciphertext = xchacha20poly1305(requireKey(), nonce).encrypt(utf8ToBytes(plaintext));
+
+  const payload = new Uint8Array(NONCE_LENGTH + ciphertext.length);
+  payload.set(nonce);
+  payload.set(ciphertext, NONCE_LENGTH);
+  return ENCRYPTED_PREFIX + toBase64(payload);
+}
+
+/**
+ * Decrypts a value written by encryptText. Values without the encrypted
+ * prefix were stored before encryption was added and are returned as-is.
+ */
+export function decryptText(value: string) {
+  if (!isEncrypted(value)) return value;
+
+  const key = requireKey();
+  const payload = fromBase64(value.slice(ENCRYPTED_PREFIX.length));
+  try {
+    const plaintext = xchacha20poly1305(key, payload.subarray(0, NONCE_LENGTH))
+      .decrypt(payload.subarray(NONCE_LENGTH));
+    return bytesToUtf8(plaintext);
+  } catch (error) {
+    throw new Error('Stored data could not be decrypted. The encryption key may have been lost.');
+  }
+}
@@ -0,0 +1,128 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { AppData } from '@/types';
+import { toCsv } from '@/utils/csv';
+import { loadCollection, COLLECTIONS, CollectionName } from './database';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+
+export const EXPORT_FORMAT = 'clinic-manager-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFileFormat = 'json' | 'csv';
+
+/**
+ * The JSON export file. `version` changes whenever the bundle layout does,
+ * so imports can tell which readers apply.
+ */
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Storage schema version the records were written with.
+  schemaVersion: number;
+  // Set when the export was limited to one clinic.
+  clinicId: string | null;
+  data: AppData;
+}
+
+export interface ExportResult {
+  fileUris: string[];
+  recordCount: number;
+}
+
+// Exports are plaintext, so they only stay on the device until they are shared.
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+// Where earlier versions kept every export.
+const LEGACY_EXPORT_DIRECTORY = `${FileSystem.documentDirectory}exports/`;
+
+const CSV_FILE_NAMES: Record<CollectionName, string> = {
+  patients: 'patients',
+  visits: 'visits',
+  appointments: 'appointments',
+  incomeRecords: 'income',
+  expenseRecords: 'expenses',
+  clinics: 'clinics',
+  staffUsers: 'staff',
+  visitTemplates: 'visit-templates',
+};
+
+/**
+ * Reads every collection from storage, keeping only records of `clinicId`
+ * when it is given.
+ */
+export async function buildExportBundle(clinicId: string | null = null): Promise<ExportBundle> {
+  const data = {} as Record<CollectionName, { id: string; clinicId?: string }[]>;
+
+  for (const collection of COLLECTIONS) {
+    const records: { id: string; clinicId?: string }[] = await loadCollection(collection);
+    data[collection] = clinicId
+      ? records.filter(record => (collection === 'clinics' ? record.id : record.clinicId) === clinicId)
+      : records;
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    clinicId,
+    data: data as unknown as AppData,
+  };
+}
+
+// 2024-05-01T09:30:15.123Z -> 2024-05-01-093015
+export function fileTimestamp(isoDate: string) {
+  return isoDate.slice(0, 19).replace('T', '-').replace(/:/g, '');
+}
+
+/**
+ * Writes an export of all data (or one clinic's data) to the app's cache
+ * folder. JSON produces a single bundle; CSV produces one file per collection.
+ */
+export async function writeExport(format: ExportFileFormat, clinicId: string | null = null): Promise<ExportResult> {
+  const bundle = await buildExportBundle(clinicId);
+  // Hashes of short PINs are quick to reverse, so they never leave the device.
+  bundle.data.staffUsers = bundle.data.staffUsers.map(({ pinHash: _pinHash, ...user }) => user);
+  const baseName = `clinic-export-${fileTimestamp(bundle.exportedAt)}`;
+  const recordCount = COLLECTIONS.reduce((total, collection) => total + bundle.data[collection].length, 0);
+
+  await FileSystem.deleteAsync(LEGACY_EXPORT_DIRECTORY, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, { intermediates: true });
+
+  if (format === 'json') {
+    const fileUri = `${EXPORT_DIRECTORY}${baseName}.json`;
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(bundle, null, 2));
+    return { fileUris: [fileUri], recordCount };
+  }
+
+  const fileUris: string[] = [];
+  for (const collection of COLLECTIONS) {
+    const fileUri = `${EXPORT_DIRECTORY}${baseName}-${CSV_FILE_NAMES[collection]}.csv`;
+    await FileSystem.writeAsStringAsync(fileUri, toCsv(bundle.data[collection]));
+    fileUris.push(fileUri);
+  }
+  return { fileUris, recordCount };
+}
+
+/**
+ * Opens the share sheet for each exported file in turn, then deletes the
+ * files. Returns false if sharing is not available on this device, in which
+ * case the files are kept so they can be copied off the device.
+ */
+export async function shareExport(result: ExportResult) {
+  if (!(await Sharing.isAvailableAsync())) return false;
+
+  try {
+    for (const fileUri of result.fileUris) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: fileUri.endsWith('.json') ? 'application/json' : 'text/csv',
+        dialogTitle: 'Export clinic data',
+      });
+    }
+  } finally {
+    for (const fileUri of result.fileUris) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    }
+  }
+  return true;
+}
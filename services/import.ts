@@ -0,0 +1,579 @@
+import * as FileSystem from 'expo-file-system';
+import { parseCsv } from '@/utils/csv';
+import { generateId } from '@/utils/ids';
+import { formatFieldName } from '@/utils/recordFields';
+import { ageInYearsFromDateOfBirth, toDateString } from '@/utils/age';
+import { matchPatient } from '@/utils/patientMatching';
+import { SOAP_SECTIONS } from '@/utils/soapNotes';
+import { loadCollection, COLLECTIONS, CollectionName, CollectionRecord, RecordChange } from './database';
+import { diffRecords } from './audit';
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from './export';
+import { LATEST_SCHEMA_VERSION, upgradeRecord } from './migrations';
+
+export type ImportSource = 'bundle' | 'patientCsv';
+
+export interface ImportIssue {
+  collection: CollectionName;
+  // 1-based position in the file: the array index for bundles, the line for CSVs.
+  row: number;
+  message: string;
+}
+
+export interface ImportDuplicate {
+  reason: string;
+  // The stored record (or earlier imported patient) this row duplicates.
+  existingId: string;
+  // The stored record with the same id, which the row would overwrite.
+  existing: CollectionRecord<CollectionName> | null;
+}
+
+export interface ImportRow {
+  collection: CollectionName;
+  row: number;
+  record: CollectionRecord<CollectionName>;
+  duplicate?: ImportDuplicate;
+}
+
+export interface ImportPreview {
+  fileName: string;
+  source: ImportSource;
+  // Rows that passed validation, including likely duplicates.
+  rows: ImportRow[];
+  // Rows that failed validation and will not be imported.
+  errors: ImportIssue[];
+  // Rows identical to records already stored.
+  unchanged: number;
+}
+
+interface FieldRule {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'record' | 'list';
+  optional?: boolean;
+  // Stored when an optional field is missing.
+  defaultValue?: unknown;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  // The fields of a record, or of each entry of a list.
+  fields?: Record<string, FieldRule>;
+}
+
+const requiredString: FieldRule = { type: 'string' };
+const optionalText: FieldRule = { type: 'string', optional: true, defaultValue: '' };
+const requiredDate: FieldRule = { type: 'date' };
+const optionalDate: FieldRule = { type: 'date', optional: true };
+const optionalString: FieldRule = { type: 'string', optional: true };
+const optionalList = (fields: Record<string, FieldRule>): FieldRule => ({ type: 'list', optional: true, defaultValue: [], fields });
+const optionalNumber = (min: number, max: number): FieldRule => ({ type: 'number', optional: true, min, max });
+
+const SOAP_RULES: Record<string, FieldRule> = Object.fromEntries(
+  SOAP_SECTIONS.flatMap(section => section.fields.map(({ field }) => [field, optionalText]))
+);
+
+const VITALS_RULES: Record<string, FieldRule> = {
+  systolic: optionalNumber(0, 400),
+  diastolic: optionalNumber(0, 300),
+  pulse: optionalNumber(0, 400),
+  temperature: optionalNumber(0, 50),
+  respiratoryRate: optionalNumber(0, 150),
+  oxygenSaturation: optionalNumber(0, 100),
+  weight: optionalNumber(0, 1000),
+  height: optionalNumber(0, 300),
+};
+
+/**
+ * The fields each imported record must have. Fields not listed here are kept
+ * as they are.
+ */
+const FIELD_RULES: { [K in CollectionName]: Record<string, FieldRule> } = {
+  patients: {
+    id: requiredString,
+    name: requiredString,
+    age: { type: 'number', min: 0, max: 150 },
+    dateOfBirth: optionalDate,
+    dateOfBirthApproximate: { type: 'boolean', optional: true },
+    sex: { type: 'string', values: ['Male', 'Female', 'Other'] },
+    phoneNumber: optionalText,
+    location: optionalText,
+    allergies: optionalList({
+      id: requiredString,
+      substance: requiredString,
+      reaction: optionalText,
+      severity: { type: 'string', values: ['mild', 'moderate', 'severe', 'unknown'] },
+    }),
+    medications: optionalList({
+      id: requiredString,
+      name: requiredString,
+      dose: optionalText,
+      frequency: optionalText,
+    }),
+    pastMedicalHistory: optionalText,
+    createdAt: requiredDate,
+    updatedAt: optionalDate,
+    clinicId: requiredString,
+    archivedAt: optionalDate,
+    createdBy: optionalString,
+  },
+  visits: {
+    id: requiredString,
+    patientId: requiredString,
+    patientName: requiredString,
+    complaints: optionalText,
+    diagnosis: optionalText,
+    treatment: optionalText,
+    soap: { type: 'record', optional: true, fields: SOAP_RULES },
+    diagnosisCodes: optionalList({
+      code: requiredString,
+      title: optionalText,
+    }),
+    prescription: optionalList({
+      id: requiredString,
+      drug: requiredString,
+      strength: optionalText,
+      dose: optionalText,
+      frequency: optionalText,
+      duration: optionalText,
+      quantity: optionalText,
+      instructions: optionalText,
+    }),
+    interactionOverride: {
+      type: 'record',
+      optional: true,
+      fields: {
+        warnings: {
+          type: 'list',
+          fields: {
+            severity: { type: 'string', values: ['major', 'moderate', 'minor'] },
+            message: requiredString,
+          },
+        },
+        reason: requiredString,
+        overriddenAt: requiredDate,
+        overriddenBy: optionalString,
+      },
+    },
+    vitals: { type: 'record', optional: true, fields: VITALS_RULES },
+    fee: { type: 'number', min: 0 },
+    followUpDate: optionalDate,
+    visitDate: requiredDate,
+    clinicId: requiredString,
+    updatedAt: optionalDate,
+    createdBy: optionalString,
+  },
+  appointments: {
+    id: requiredString,
+    patientId: requiredString,
+    patientName: requiredString,
+    phoneNumber: optionalText,
+    date: requiredDate,
+    time: requiredString,
+    status: { type: 'string', values: ['scheduled', 'completed', 'cancelled', 'failed'] },
+    notes: optionalString,
+    clinicId: requiredString,
+    updatedAt: optionalDate,
+    createdBy: optionalString,
+  },
+  incomeRecords: {
+    id: requiredString,
+    visitId: requiredString,
+    patientName: optionalText,
+    amount: { type: 'number', min: 0 },
+    date: requiredDate,
+    description: optionalText,
+    clinicId: requiredString,
+    updatedAt: optionalDate,
+    createdBy: optionalString,
+  },
+  expenseRecords: {
+    id: requiredString,
+    amount: { type: 'number', min: 0 },
+    date: requiredDate,
+    description: optionalText,
+    category: requiredString,
+    clinicId: requiredString,
+    updatedAt: optionalDate,
+    createdBy: optionalString,
+  },
+  clinics: {
+    id: requiredString,
+    name: requiredString,
+    address: optionalText,
+    phoneNumber: optionalText,
+    isActive: { type: 'boolean', optional: true, defaultValue: true },
+    createdAt: requiredDate,
+    updatedAt: optionalDate,
+  },
+  staffUsers: {
+    id: requiredString,
+    name: requiredString,
+    role: { type: 'string', values: ['admin', 'doctor', 'nurse', 'reception', 'accountant'] },
+    pinHash: optionalString,
+    createdAt: requiredDate,
+    updatedAt: optionalDate,
+    archivedAt: optionalDate,
+  },
+  visitTemplates: {
+    id: requiredString,
+    name: requiredString,
+    complaints: optionalText,
+    diagnosis: optionalText,
+    treatment: optionalText,
+    fee: { type: 'number', optional: true, min: 0 },
+    followUpDays: optionalNumber(1, 365),
+    clinicId: requiredString,
+    createdAt: requiredDate,
+    updatedAt: optionalDate,
+    createdBy: optionalString,
+  },
+};
+
+// Accepted CSV headers for each patient field, compared without case, spaces or punctuation.
+const PATIENT_CSV_HEADERS: Record<string, string[]> = {
+  name: ['name', 'patientname', 'fullname'],
+  age: ['age'],
+  dateOfBirth: ['dateofbirth', 'dob', 'birthdate', 'birthday'],
+  sex: ['sex', 'gender'],
+  phoneNumber: ['phone', 'phonenumber', 'mobile', 'contact'],
+  location: ['location', 'address', 'town', 'city'],
+  allergy: ['allergy', 'allergies'],
+  pastMedicalHistory: ['pastmedicalhistory', 'medicalhistory', 'history', 'pmh'],
+};
+
+// Patient CSVs have a free-text allergy note and may leave out the date of
+// birth, like patients stored before schema version 9.
+const PATIENT_CSV_SCHEMA_VERSION = 8;
+
+const SEX_VALUES: Record<string, string> = {
+  m: 'Male',
+  male: 'Male',
+  f: 'Female',
+  female: 'Female',
+  o: 'Other',
+  other: 'Other',
+};
+
+function checkField(field: string, rule: FieldRule, value: unknown): string | null {
+  const label = formatFieldName(field);
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${label} must be text`;
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${label} must be a number`;
+      if (rule.min !== undefined && value < rule.min) return `${label} must be at least ${rule.min}`;
+      if (rule.max !== undefined && value > rule.max) return `${label} must be at most ${rule.max}`;
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${label} must be true or false`;
+      break;
+    case 'date':
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) return `${label} must be a valid date`;
+      break;
+    case 'record': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${label} must be a record`;
+      const error = checkNestedFields(rule.fields ?? {}, value);
+      if (error) return `${label}: ${error}`;
+      break;
+    }
+    case 'list':
+      if (!Array.isArray(value)) return `${label} must be a list`;
+      for (const item of value) {
+        if (typeof item !== 'object' || item === null) return `${label} must contain records`;
+        const error = checkNestedFields(rule.fields ?? {}, item);
+        if (error) return `${label}: ${error}`;
+      }
+      break;
+  }
+
+  if (rule.values && !rule.values.includes(value as string)) {
+    return `${label} must be one of ${rule.values.join(', ')}`;
+  }
+  return null;
+}
+
+// The first problem with a nested record, e.g. one allergy of a patient.
+function checkNestedFields(rules: Record<string, FieldRule>, record: object) {
+  for (const [field, rule] of Object.entries(rules)) {
+    const value = (record as Record<string, unknown>)[field];
+    if (rule.optional && (value === undefined || value === '')) continue;
+    const error = checkField(field, rule, value);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Upgrades a raw record saved under `schemaVersion`, checks it against the
+ * collection's field rules and fills in defaults. Returns the messages for
+ * every invalid field.
+ */
+function validateRecord(collection: CollectionName, raw: unknown, schemaVersion: number) {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { record: null, errors: ['Not a record'] };
+  }
+
+  const record: Record<string, unknown> = { ...upgradeRecord(collection, raw, schemaVersion) };
+  const errors: string[] = [];
+
+  Object.entries(FIELD_RULES[collection]).forEach(([field, rule]) => {
+    const value = record[field];
+    if (value === undefined || value === null || value === '') {
+      if (!rule.optional) {
+        errors.push(`${formatFieldName(field)} is required`);
+      } else if (rule.defaultValue !== undefined) {
+        record[field] = rule.defaultValue;
+      } else {
+        delete record[field];
+      }
+      return;
+    }
+
+    const error = checkField(field, rule, value);
+    if (error) errors.push(error);
+  });
+
+  if (!record.updatedAt) {
+    record.updatedAt = (record.createdAt as string | undefined) ?? new Date().toISOString();
+  }
+
+  if (collection === 'patients' && errors.length === 0) {
+    record.dateOfBirth = normalizeDate(record.dateOfBirth as string);
+  }
+
+  return { record: record as unknown as CollectionRecord<CollectionName>, errors };
+}
+
+// Keeps YYYY-MM-DD dates as written; other formats are read as local dates.
+function normalizeDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : toDateString(new Date(value));
+}
+
+function normalizeHeader(header: string) {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Reads patients from a CSV with a header row. Every patient gets a new id
+ * and is added to `clinicId`.
+ */
+function readPatientCsv(text: string, clinicId: string) {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new Error('The file is empty.');
+  }
+
+  const normalized = header.map(normalizeHeader);
+  const columns: Record<string, number> = {};
+  Object.entries(PATIENT_CSV_HEADERS).forEach(([field, aliases]) => {
+    const index = normalized.findIndex(name => aliases.includes(name));
+    if (index !== -1) columns[field] = index;
+  });
+
+  if (columns.name === undefined) {
+    throw new Error('The CSV file needs a "name" column.');
+  }
+
+  const now = new Date().toISOString();
+  return lines.map(cells => {
+    const raw: Record<string, unknown> = {
+      id: generateId(),
+      clinicId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    Object.entries(columns).forEach(([field, index]) => {
+      raw[field] = (cells[index] ?? '').trim();
+    });
+
+    // The app's own CSV export writes the allergy list as JSON.
+    if (typeof raw.allergy === 'string' && raw.allergy.startsWith('[')) {
+      try {
+        raw.allergies = JSON.parse(raw.allergy);
+      } catch (error) {
+        // Not JSON after all; read it as a free-text note.
+      }
+    }
+
+    if (raw.age !== '' && !isNaN(Number(raw.age))) {
+      raw.age = Number(raw.age);
+    } else if (raw.dateOfBirth && !isNaN(Date.parse(String(raw.dateOfBirth)))) {
+      raw.age = ageInYearsFromDateOfBirth(normalizeDate(String(raw.dateOfBirth)));
+    }
+    raw.sex = SEX_VALUES[String(raw.sex).toLowerCase()] ?? raw.sex;
+    return raw;
+  });
+}
+
+function readBundle(text: string) {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (bundle?.format !== EXPORT_FORMAT || typeof bundle.data !== 'object' || bundle.data === null) {
+    throw new Error('The file is not a Clinic Manager export.');
+  }
+  if (
+    typeof bundle.version !== 'number' || bundle.version > EXPORT_FORMAT_VERSION ||
+    typeof bundle.schemaVersion !== 'number' || bundle.schemaVersion > LATEST_SCHEMA_VERSION
+  ) {
+    throw new Error('The file was exported by a newer version of the app. Please update the app and try again.');
+  }
+  return { schemaVersion: bundle.schemaVersion as number, data: bundle.data as Record<string, unknown> };
+}
+
+/**
+ * Reads and validates an import file without changing any stored data.
+ * Accepts the app's JSON export or a CSV of patients, which are added to
+ * `activeClinicId`. Staff users are only imported when `canManageUsers` is
+ * set, and never without a PIN. Throws if the file cannot be read at all;
+ * problems with individual rows are reported in the preview.
+ */
+export async function buildImportPreview(
+  fileUri: string,
+  fileName: string,
+  activeClinicId: string,
+  canManageUsers: boolean
+): Promise<ImportPreview> {
+  const text = await FileSystem.readAsStringAsync(fileUri);
+  const source: ImportSource = text.trimStart().startsWith('{') ? 'bundle' : 'patientCsv';
+
+  const { schemaVersion, data: rawData } = source === 'bundle'
+    ? readBundle(text)
+    : { schemaVersion: PATIENT_CSV_SCHEMA_VERSION, data: { patients: readPatientCsv(text, activeClinicId) } as Record<string, unknown> };
+
+  const stored = {} as { [K in CollectionName]: Map<string, CollectionRecord<K>> };
+  for (const collection of COLLECTIONS) {
+    const records: CollectionRecord<CollectionName>[] = await loadCollection(collection);
+    (stored as Record<CollectionName, Map<string, unknown>>)[collection] = new Map(records.map(record => [record.id, record]));
+  }
+
+  const preview: ImportPreview = { fileName, source, rows: [], errors: [], unchanged: 0 };
+  const valid = {} as Record<CollectionName, ImportRow[]>;
+
+  // CSV rows start after the header line.
+  const firstRow = source === 'bundle' ? 1 : 2;
+
+  for (const collection of COLLECTIONS) {
+    valid[collection] = [];
+    const raw = rawData[collection];
+    if (raw === undefined) continue;
+    if (!Array.isArray(raw)) {
+      preview.errors.push({ collection, row: 0, message: 'Expected a list of records' });
+      continue;
+    }
+
+    const seenIds = new Set<string>();
+    raw.forEach((item, index) => {
+      const row = index + firstRow;
+      const { record, errors } = validateRecord(collection, item, schemaVersion);
+      if (record && seenIds.has(record.id)) {
+        errors.push('Appears more than once in the file');
+      }
+      if (!record || errors.length > 0) {
+        preview.errors.push({ collection, row, message: errors.join('; ') });
+        return;
+      }
+      seenIds.add(record.id);
+      valid[collection].push({ collection, row, record });
+    });
+  }
+
+  // References must point at a record in the file or already stored.
+  const knownIds = (collection: CollectionName) =>
+    new Set([...stored[collection].keys(), ...valid[collection].map(item => item.record.id)]);
+  const clinicIds = knownIds('clinics');
+  const patientIds = knownIds('patients');
+
+  const importedPatients: CollectionRecord<'patients'>[] = [];
+
+  for (const collection of COLLECTIONS) {
+    for (const item of valid[collection]) {
+      const record = item.record as Record<string, any>;
+      const missing =
+        'clinicId' in FIELD_RULES[collection] && !clinicIds.has(record.clinicId) ? 'Clinic not found' :
+        (collection === 'visits' || collection === 'appointments') && !patientIds.has(record.patientId) ? 'Patient not found' :
+        null;
+      if (missing) {
+        preview.errors.push({ collection, row: item.row, message: missing });
+        continue;
+      }
+
+      const existing = (stored[collection] as Map<string, CollectionRecord<CollectionName>>).get(record.id) ?? null;
+      if (collection === 'staffUsers') {
+        // A user without a PIN could be switched to by anyone, so exports
+        // (which leave out PIN hashes) can only update users already stored.
+        const message =
+          !canManageUsers ? 'Importing staff users needs permission to manage users' :
+          !existing && !record.pinHash ? 'New staff users must be added in Settings so they get a PIN' :
+          null;
+        if (message) {
+          preview.errors.push({ collection, row: item.row, message });
+          continue;
+        }
+        if (existing && !record.pinHash && 'pinHash' in existing) {
+          item.record = { ...item.record, pinHash: existing.pinHash } as CollectionRecord<'staffUsers'>;
+        }
+      }
+      if (existing) {
+        if (diffRecords(existing, item.record).length === 0) {
+          preview.unchanged++;
+          continue;
+        }
+        item.duplicate = { reason: 'A record with the same id already exists', existingId: existing.id, existing };
+      } else if (collection === 'patients') {
+        const patient = item.record as CollectionRecord<'patients'>;
+        for (const other of [...stored.patients.values(), ...importedPatients]) {
+          const reason = matchPatient(patient, other);
+          if (reason) {
+            item.duplicate = { reason, existingId: other.id, existing: null };
+            break;
+          }
+        }
+        importedPatients.push(patient);
+      }
+
+      preview.rows.push(item);
+    }
+  }
+
+  return preview;
+}
+
+/**
+ * Turns a preview into the changes to store. Duplicates are skipped unless
+ * `includeDuplicates` is set, in which case a record with a stored id
+ * replaces it and a likely duplicate patient is added as a new patient.
+ * Visits and appointments of a skipped duplicate patient are attached to the
+ * patient it duplicates.
+ */
+export function planImport(preview: ImportPreview, includeDuplicates: boolean): RecordChange[] {
+  const replacedPatientIds = new Map<string, string>();
+  const changes: RecordChange[] = [];
+
+  preview.rows.forEach(({ collection, record, duplicate }) => {
+    if (duplicate && !includeDuplicates) {
+      if (collection === 'patients' && duplicate.existingId !== record.id) {
+        replacedPatientIds.set(record.id, duplicate.existingId);
+      }
+      return;
+    }
+    changes.push({ collection, before: duplicate?.existing ?? null, after: record } as RecordChange);
+  });
+
+  // A skipped patient may duplicate another skipped patient from the same file.
+  const resolvePatientId = (id: string): string => {
+    const replacement = replacedPatientIds.get(id);
+    return replacement ? resolvePatientId(replacement) : id;
+  };
+
+  return changes.map(change => {
+    if (change.collection !== 'visits' && change.collection !== 'appointments') return change;
+
+    const record = change.after!;
+    const patientId = resolvePatientId(record.patientId);
+    return patientId === record.patientId ? change : ({ ...change, after: { ...record, patientId } } as RecordChange);
+  });
+}
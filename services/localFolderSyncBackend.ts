@@ -0,0 +1,44 @@
+import * as FileSystem from 'expo-file-system';
+import type { SyncBackend, SyncChange } from './sync';
+
+const LOG_FILE = 'changes.json';
+
+/**
+ * A sync backend that keeps the shared change feed in a folder on the
+ * device. It stands in for a remote server during development and testing:
+ * point two app instances at the same folder (or copy the folder between
+ * devices) to exchange changes. The token is the number of feed entries
+ * already seen.
+ *
+ * The feed is plain JSON so that other installs can read it; the database key
+ * is unique to each device. It holds full records, so it is kept in the cache
+ * directory, out of device backups, and is only meant for test data. A real
+ * backend must encrypt the feed in transit and at rest.
+ */
+export function createLocalFolderBackend(
+  directoryUri = `${FileSystem.cacheDirectory}sync/`
+): SyncBackend {
+  const logUri = `${directoryUri}${LOG_FILE}`;
+
+  const readLog = async (): Promise<SyncChange[]> => {
+    const info = await FileSystem.getInfoAsync(logUri);
+    if (!info.exists) return [];
+    return JSON.parse(await FileSystem.readAsStringAsync(logUri));
+  };
+
+  return {
+    name: 'Local folder',
+
+    pull: async (sinceToken) => {
+      const log = await readLog();
+      const start = sinceToken ? Number(sinceToken) : 0;
+      return { changes: log.slice(start), token: String(log.length) };
+    },
+
+    push: async (changes) => {
+      await FileSystem.makeDirectoryAsync(directoryUri, { intermediates: true });
+      const log = await readLog();
+      await FileSystem.writeAsStringAsync(logUri, JSON.stringify([...log, ...changes]));
+    },
+  };
+}
@@ -0,0 +1,475 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  TABLES,
+  AUDIT_TABLE,
+  SYNC_OUTBOX_TABLE,
+  SYNC_BASE_TABLE,
+  SYNC_CONFLICTS_TABLE,
+  CollectionName,
+  CollectionRecord,
+  getMetaValue,
+  setMetaValue,
+  insertRecord,
+  updateRow,
+  rewriteCollection,
+  decodeData,
+} from './schema';
+import { encryptText, ENCRYPTED_PREFIX } from './encryption';
+import { generateId } from '@/utils/ids';
+import { estimateDateOfBirth } from '@/utils/age';
+import { parseAllergyText } from '@/utils/medicalLists';
+
+export interface Migration {
+  version: number;
+  name: string;
+  migrate: (db: SQLiteDatabase) => Promise<void>;
+  // Runs once the migration has been committed, e.g. to clean up old storage.
+  afterCommit?: (db: SQLiteDatabase) => Promise<void>;
+}
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly failedMigration?: Migration,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+// The collections that existed when versioning was introduced. Earlier
+// migrations use this list rather than COLLECTIONS, whose later tables are
+// only created by the migrations that added them.
+const INITIAL_COLLECTIONS: CollectionName[] = [
+  'patients',
+  'visits',
+  'appointments',
+  'incomeRecords',
+  'expenseRecords',
+  'clinics',
+];
+
+// Legacy AsyncStorage keys match the collection names.
+let importedLegacyKeys: string[] = [];
+
+interface RecordUpgrade {
+  version: number;
+  collection: CollectionName;
+  upgrade: (record: any) => any;
+}
+
+/**
+ * The per-record part of migrations that reshape records. Migrations apply
+ * them to stored rows; restores apply them to records from older backups.
+ */
+const RECORD_UPGRADES: RecordUpgrade[] = [
+  {
+    version: 9,
+    collection: 'patients',
+    upgrade: patient =>
+      patient.dateOfBirth
+        ? patient
+        : {
+            ...patient,
+            dateOfBirth: estimateDateOfBirth(patient.age ?? 0, patient.createdAt),
+            dateOfBirthApproximate: true,
+          },
+  },
+  {
+    version: 10,
+    collection: 'patients',
+    upgrade: ({ allergy, ...patient }) => ({
+      ...patient,
+      allergies: patient.allergies ?? parseAllergyText(allergy ?? '', index => `${patient.id}-allergy-${index}`),
+      medications: patient.medications ?? [],
+    }),
+  },
+];
+
+function getRecordUpgrade(version: number) {
+  return RECORD_UPGRADES.find(upgrade => upgrade.version === version)!;
+}
+
+/**
+ * Brings a record saved under `fromVersion` up to the latest schema.
+ */
+export function upgradeRecord<K extends CollectionName>(
+  collection: K,
+  record: any,
+  fromVersion: number
+): CollectionRecord<K> {
+  return RECORD_UPGRADES
+    .filter(upgrade => upgrade.version > fromVersion && upgrade.collection === collection)
+    .reduce((upgraded, { upgrade }) => upgrade(upgraded), record);
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create tables',
+    migrate: async (db) => {
+      const statements: string[] = [];
+
+      INITIAL_COLLECTIONS.forEach(collection => {
+        const { table, columns } = TABLES[collection];
+        const extraColumns = Object.keys(columns).map(column => `${column} TEXT`);
+
+        // `id` is indexed but not unique: legacy ids were generated with
+        // Date.now() and may already contain duplicates.
+        statements.push(
+          `CREATE TABLE IF NOT EXISTS ${table} (${['id TEXT NOT NULL', ...extraColumns, 'data TEXT NOT NULL'].join(', ')});`,
+          `CREATE INDEX IF NOT EXISTS idx_${table}_id ON ${table} (id);`,
+          ...Object.keys(columns).map(
+            column => `CREATE INDEX IF NOT EXISTS idx_${table}_${column} ON ${table} (${column});`
+          )
+        );
+      });
+
+      await db.execAsync(statements.join('\n'));
+    },
+  },
+  {
+    version: 2,
+    name: 'Import AsyncStorage data',
+    migrate: async (db) => {
+      importedLegacyKeys = [];
+
+      // Installs that already imported before versioning recorded it with this flag.
+      if (await getMetaValue(db, 'legacy_import_completed')) {
+        return;
+      }
+
+      const results = await AsyncStorage.multiGet(INITIAL_COLLECTIONS);
+      for (const [key, value] of results) {
+        if (!value) continue;
+
+        const records: CollectionRecord<CollectionName>[] = JSON.parse(value);
+        for (const record of records) {
+          await insertRecord(db, key as CollectionName, record);
+        }
+        importedLegacyKeys.push(key);
+      }
+
+      await setMetaValue(db, 'legacy_import_completed', new Date().toISOString());
+    },
+    afterCommit: async () => {
+      if (importedLegacyKeys.length > 0) {
+        await AsyncStorage.multiRemove(importedLegacyKeys);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'Replace duplicate ids',
+    migrate: async (db) => {
+      const renamedPatients = await replaceDuplicateIds(db, 'patients');
+      const renamedVisits = await replaceDuplicateIds(db, 'visits');
+      for (const collection of ['appointments', 'incomeRecords', 'expenseRecords', 'clinics'] as const) {
+        await replaceDuplicateIds(db, collection);
+      }
+
+      // Records that shared an id are told apart by the denormalised fields
+      // copied onto the records that reference them.
+      for (const { oldId, original, record } of renamedPatients) {
+        if (original.name === record.name) continue;
+        await repointReferences(
+          db, 'visits', 'patient_id', oldId,
+          visit => visit.patientName === record.name,
+          visit => ({ ...visit, patientId: record.id })
+        );
+        await repointReferences(
+          db, 'appointments', 'patient_id', oldId,
+          appointment => appointment.patientName === record.name,
+          appointment => ({ ...appointment, patientId: record.id })
+        );
+      }
+
+      for (const { oldId, original, record } of renamedVisits) {
+        if (
+          original.fee === record.fee &&
+          original.visitDate === record.visitDate &&
+          original.patientName === record.patientName
+        ) continue;
+        await repointReferences(
+          db, 'incomeRecords', 'visit_id', oldId,
+          income =>
+            income.amount === record.fee &&
+            income.date === record.visitDate &&
+            income.patientName === record.patientName,
+          income => ({ ...income, visitId: record.id })
+        );
+      }
+
+      for (const collection of INITIAL_COLLECTIONS) {
+        const { table } = TABLES[collection];
+        await db.execAsync(
+          `DROP INDEX IF EXISTS idx_${table}_id; CREATE UNIQUE INDEX idx_${table}_id ON ${table} (id);`
+        );
+      }
+    },
+  },
+  {
+    version: 4,
+    name: 'Create audit log',
+    migrate: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_${AUDIT_TABLE}_entity ON ${AUDIT_TABLE} (entity_type, entity_id);
+        CREATE INDEX IF NOT EXISTS idx_${AUDIT_TABLE}_timestamp ON ${AUDIT_TABLE} (timestamp);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'Create sync outbox',
+    migrate: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${SYNC_OUTBOX_TABLE} (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          collection TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          changed_at TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_${SYNC_OUTBOX_TABLE}_record ON ${SYNC_OUTBOX_TABLE} (collection, record_id);
+      `);
+
+      // Everything stored so far has never been synced.
+      const now = new Date().toISOString();
+      for (const collection of INITIAL_COLLECTIONS) {
+        await db.runAsync(
+          `INSERT INTO ${SYNC_OUTBOX_TABLE} (collection, record_id, changed_at)
+           SELECT ?, id, ? FROM ${TABLES[collection].table} ORDER BY rowid`,
+          collection, now
+        );
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'Track record versions for merging',
+    migrate: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${SYNC_BASE_TABLE} (
+          collection TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          data TEXT NOT NULL,
+          PRIMARY KEY (collection, record_id)
+        );
+        CREATE TABLE IF NOT EXISTS ${SYNC_CONFLICTS_TABLE} (
+          id TEXT PRIMARY KEY NOT NULL,
+          collection TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          detected_at TEXT NOT NULL,
+          data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_${SYNC_CONFLICTS_TABLE}_record ON ${SYNC_CONFLICTS_TABLE} (collection, record_id);
+      `);
+
+      const now = new Date().toISOString();
+      for (const collection of INITIAL_COLLECTIONS) {
+        await rewriteCollection(db, collection, record => ({
+          ...record,
+          updatedAt: record.updatedAt ?? record.createdAt ?? now,
+        }));
+
+        // Records with no pending change were last synced as they are now,
+        // so they are the base for merging the next remote change.
+        const { table } = TABLES[collection];
+        await db.runAsync(
+          `INSERT INTO ${SYNC_BASE_TABLE} (collection, record_id, data)
+           SELECT ?, id, data FROM ${table}
+           WHERE id NOT IN (SELECT record_id FROM ${SYNC_OUTBOX_TABLE} WHERE collection = ?)`,
+          collection, collection
+        );
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'Encrypt stored records',
+    migrate: async (db) => {
+      const tables = [
+        ...INITIAL_COLLECTIONS.map(collection => TABLES[collection].table),
+        AUDIT_TABLE,
+        SYNC_BASE_TABLE,
+        SYNC_CONFLICTS_TABLE,
+      ];
+
+      for (const table of tables) {
+        const rows = await db.getAllAsync<{ rowid: number; data: string }>(
+          `SELECT rowid, data FROM ${table} WHERE data NOT LIKE ?`,
+          `${ENCRYPTED_PREFIX}%`
+        );
+        for (const row of rows) {
+          await db.runAsync(`UPDATE ${table} SET data = ? WHERE rowid = ?`, encryptText(row.data), row.rowid);
+        }
+      }
+    },
+    afterCommit: async (db) => {
+      // The plaintext versions linger in free pages and the WAL until both are rewritten.
+      await db.execAsync('VACUUM; PRAGMA wal_checkpoint(TRUNCATE);');
+    },
+  },
+  {
+    version: 8,
+    name: 'Create staff users',
+    migrate: async (db) => {
+      const { table } = TABLES.staffUsers;
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${table} (id TEXT NOT NULL, data TEXT NOT NULL);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_id ON ${table} (id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'Estimate dates of birth',
+    migrate: async (db) => {
+      // Derived from fields every device already has, so each device reaches
+      // the same result and the change does not need to be synced.
+      await rewriteCollection(db, 'patients', getRecordUpgrade(9).upgrade);
+    },
+  },
+  {
+    version: 10,
+    name: 'Structure allergies and medications',
+    migrate: async (db) => {
+      // Ids are derived from the patient id so every device produces the same
+      // lists; like version 9, the change is not synced.
+      await rewriteCollection(db, 'patients', getRecordUpgrade(10).upgrade);
+    },
+  },
+  {
+    version: 11,
+    name: 'Create visit templates',
+    migrate: async (db) => {
+      const { table } = TABLES.visitTemplates;
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS ${table} (id TEXT NOT NULL, clinic_id TEXT, data TEXT NOT NULL);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_id ON ${table} (id);
+        CREATE INDEX IF NOT EXISTS idx_${table}_clinic_id ON ${table} (clinic_id);
+      `);
+    },
+  },
+];
+
+interface RenamedRecord {
+  oldId: string;
+  // The record that kept the old id.
+  original: any;
+  record: any;
+}
+
+/**
+ * Gives every row that repeats an earlier row's id a fresh id. The first row
+ * keeps the original id so existing references stay valid for it.
+ */
+async function replaceDuplicateIds(db: SQLiteDatabase, collection: CollectionName) {
+  const { table } = TABLES[collection];
+  const rows = await db.getAllAsync<{ rowid: number; id: string; data: string }>(
+    `SELECT rowid, id, data FROM ${table}
+     WHERE id IN (SELECT id FROM ${table} GROUP BY id HAVING COUNT(*) > 1)
+     ORDER BY rowid`
+  );
+
+  const originals = new Map<string, any>();
+  const renamed: RenamedRecord[] = [];
+
+  for (const row of rows) {
+    const data = decodeData<any>(row.data);
+    if (!originals.has(row.id)) {
+      originals.set(row.id, data);
+      continue;
+    }
+
+    const record = { ...data, id: generateId() };
+    await updateRow(db, collection, row.rowid, record);
+    renamed.push({ oldId: row.id, original: originals.get(row.id), record });
+  }
+
+  return renamed;
+}
+
+async function repointReferences(
+  db: SQLiteDatabase,
+  collection: CollectionName,
+  column: string,
+  oldId: string,
+  belongsToRenamed: (record: any) => boolean,
+  repoint: (record: any) => any
+) {
+  const rows = await db.getAllAsync<{ rowid: number; data: string }>(
+    `SELECT rowid, data FROM ${TABLES[collection].table} WHERE ${column} = ?`,
+    oldId
+  );
+
+  for (const row of rows) {
+    const record = decodeData<any>(row.data);
+    if (belongsToRenamed(record)) {
+      await updateRow(db, collection, row.rowid, repoint(record));
+    }
+  }
+}
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(db: SQLiteDatabase) {
+  const value = await getMetaValue(db, SCHEMA_VERSION_KEY);
+  return value ? Number(value) : 0;
+}
+
+/**
+ * Brings the stored data up to LATEST_SCHEMA_VERSION. All pending migrations
+ * run in a single transaction, so a failure leaves the data exactly as it was.
+ */
+export async function runMigrations(db: SQLiteDatabase) {
+  await db.execAsync('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL);');
+
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Stored data uses schema version ${currentVersion}, but this app only supports up to version ${LATEST_SCHEMA_VERSION}. Please update the app.`,
+      currentVersion
+    );
+  }
+
+  const pending = MIGRATIONS.filter(migration => migration.version > currentVersion);
+  if (pending.length === 0) return;
+
+  let running: Migration | undefined;
+  try {
+    await db.withTransactionAsync(async () => {
+      for (const migration of pending) {
+        running = migration;
+        await migration.migrate(db);
+        await setMetaValue(db, SCHEMA_VERSION_KEY, String(migration.version));
+      }
+    });
+  } catch (error) {
+    throw new MigrationError(
+      `Migration ${running?.version} (${running?.name}) failed: ${error instanceof Error ? error.message : String(error)}`,
+      currentVersion,
+      running,
+      error
+    );
+  }
+
+  for (const migration of pending) {
+    try {
+      await migration.afterCommit?.(db);
+    } catch (error) {
+      console.error(`Error cleaning up after migration ${migration.version}:`, error);
+    }
+  }
+}
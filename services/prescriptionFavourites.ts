@@ -0,0 +1,14 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PrescriptionTemplate } from '@/utils/prescriptions';
+
+// Kept on this device only, like other per-device preferences.
+const FAVOURITES_KEY = 'prescriptionFavourites';
+
+export async function loadPrescriptionFavourites(): Promise<PrescriptionTemplate[]> {
+  const stored = await AsyncStorage.getItem(FAVOURITES_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+export async function savePrescriptionFavourites(favourites: PrescriptionTemplate[]) {
+  await AsyncStorage.setItem(FAVOURITES_KEY, JSON.stringify(favourites));
+}
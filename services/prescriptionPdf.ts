@@ -0,0 +1,116 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Clinic, Patient, PrescriptionItem } from '@/types';
+import { formatAge } from '@/utils/age';
+import { formatAllergy } from '@/utils/medicalLists';
+import { formatDrug, formatDirections } from '@/utils/prescriptions';
+
+export interface PrescriptionDocument {
+  clinic: Clinic;
+  patient: Patient;
+  items: PrescriptionItem[];
+  // ISO date the prescription was written.
+  date: string;
+  diagnosis?: string;
+  // Name of the staff user writing the prescription.
+  prescriber?: string;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderItem(item: PrescriptionItem, index: number) {
+  const directions = formatDirections(item);
+  return `
+    <li>
+      <div class="drug">${index + 1}. ${escapeHtml(formatDrug(item))}</div>
+      ${directions ? `<div>${escapeHtml(directions)}</div>` : ''}
+      ${item.quantity ? `<div class="muted">Quantity: ${escapeHtml(item.quantity)}</div>` : ''}
+      ${item.instructions ? `<div class="muted">${escapeHtml(item.instructions)}</div>` : ''}
+    </li>`;
+}
+
+/**
+ * The prescription as an A4 page on the clinic's letterhead.
+ */
+export function buildPrescriptionHtml({ clinic, patient, items, date, diagnosis, prescriber }: PrescriptionDocument) {
+  const allergies = patient.allergies?.length
+    ? patient.allergies.map(formatAllergy).join('; ')
+    : 'None recorded';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; font-size: 12pt; color: #222; }
+  .letterhead { border-bottom: 2px solid #222; padding-bottom: 8px; margin-bottom: 16px; text-align: center; }
+  .letterhead h1 { margin: 0 0 4px; font-size: 20pt; }
+  .muted { color: #555; font-size: 10.5pt; }
+  .details { display: flex; justify-content: space-between; margin-bottom: 8px; }
+  .allergies { margin-bottom: 16px; }
+  .rx { font-size: 24pt; font-weight: bold; margin: 8px 0; }
+  ol { list-style: none; padding: 0; }
+  li { margin-bottom: 12px; }
+  .drug { font-weight: bold; }
+  .signature { margin-top: 64px; width: 240px; border-top: 1px solid #222; padding-top: 4px; }
+</style>
+</head>
+<body>
+  <div class="letterhead">
+    <h1>${escapeHtml(clinic.name)}</h1>
+    ${clinic.address ? `<div class="muted">${escapeHtml(clinic.address)}</div>` : ''}
+    ${clinic.phoneNumber ? `<div class="muted">Tel: ${escapeHtml(clinic.phoneNumber)}</div>` : ''}
+  </div>
+
+  <div class="details">
+    <div>
+      <div><strong>${escapeHtml(patient.name)}</strong></div>
+      <div class="muted">${escapeHtml(formatAge(patient))} • ${escapeHtml(patient.sex)}</div>
+    </div>
+    <div>Date: ${new Date(date).toLocaleDateString()}</div>
+  </div>
+  ${diagnosis ? `<div class="muted">Diagnosis: ${escapeHtml(diagnosis)}</div>` : ''}
+  <div class="allergies muted">Allergies: ${escapeHtml(allergies)}</div>
+
+  <div class="rx">&#8478;</div>
+  <ol>${items.map(renderItem).join('')}</ol>
+
+  <div class="signature">
+    ${prescriber ? escapeHtml(prescriber) : 'Signature'}
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Renders the prescription to a PDF and opens the share sheet, from which it
+ * can also be printed. On web, where PDFs cannot be written, the browser's
+ * print dialog opens instead.
+ */
+export async function sharePrescription(prescription: PrescriptionDocument) {
+  const html = buildPrescriptionHtml(prescription);
+
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, {
+      mimeType: 'application/pdf',
+      UTI: 'com.adobe.pdf',
+      dialogTitle: 'Share prescription',
+    });
+  } else {
+    await Print.printAsync({ uri });
+  }
+}
@@ -0,0 +1,209 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { AppData, AuditEntry } from '@/types';
+import { encryptText, decryptText } from './encryption';
+
+export type CollectionName = keyof AppData;
+export type CollectionRecord<K extends CollectionName> = AppData[K][number];
+
+interface TableDefinition<T> {
+  table: string;
+  // Columns extracted from the record so they can be indexed and queried.
+  columns: Record<string, (record: T) => string | null>;
+}
+
+type TableDefinitions = { [K in CollectionName]: TableDefinition<CollectionRecord<K>> };
+
+export const TABLES: TableDefinitions = {
+  patients: {
+    table: 'patients',
+    columns: {
+      clinic_id: patient => patient.clinicId,
+    },
+  },
+  visits: {
+    table: 'visits',
+    columns: {
+      clinic_id: visit => visit.clinicId,
+      patient_id: visit => visit.patientId,
+      date: visit => visit.visitDate,
+    },
+  },
+  appointments: {
+    table: 'appointments',
+    columns: {
+      clinic_id: appointment => appointment.clinicId,
+      patient_id: appointment => appointment.patientId,
+      date: appointment => appointment.date,
+    },
+  },
+  incomeRecords: {
+    table: 'income_records',
+    columns: {
+      clinic_id: record => record.clinicId,
+      visit_id: record => record.visitId,
+      date: record => record.date,
+    },
+  },
+  expenseRecords: {
+    table: 'expense_records',
+    columns: {
+      clinic_id: record => record.clinicId,
+      date: record => record.date,
+    },
+  },
+  clinics: {
+    table: 'clinics',
+    columns: {},
+  },
+  staffUsers: {
+    table: 'staff_users',
+    columns: {},
+  },
+  visitTemplates: {
+    table: 'visit_templates',
+    columns: {
+      clinic_id: template => template.clinicId,
+    },
+  },
+};
+
+export const COLLECTIONS = Object.keys(TABLES) as CollectionName[];
+
+export const AUDIT_TABLE = 'audit_log';
+export const SYNC_OUTBOX_TABLE = 'sync_outbox';
+export const SYNC_BASE_TABLE = 'sync_base';
+export const SYNC_CONFLICTS_TABLE = 'sync_conflicts';
+
+export async function getMetaValue(db: SQLiteDatabase, key: string) {
+  const row = await db.getFirstAsync<{ value: string }>('SELECT value FROM meta WHERE key = ?', key);
+  return row ? row.value : null;
+}
+
+export async function setMetaValue(db: SQLiteDatabase, key: string, value: string) {
+  await db.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', key, value);
+}
+
+/**
+ * Serializes a value for a `data` column. Data columns hold clinical
+ * details, so they are always encrypted; only the indexed columns are plain.
+ */
+export function encodeData(value: unknown) {
+  return encryptText(JSON.stringify(value));
+}
+
+export function decodeData<T>(data: string): T {
+  return JSON.parse(decryptText(data));
+}
+
+function columnValues<K extends CollectionName>(collection: K, record: CollectionRecord<K>) {
+  const { columns } = TABLES[collection] as TableDefinition<CollectionRecord<K>>;
+  return Object.keys(columns).map(column => columns[column](record));
+}
+
+export async function insertRecord<K extends CollectionName>(
+  db: SQLiteDatabase,
+  collection: K,
+  record: CollectionRecord<K>
+) {
+  const { table, columns } = TABLES[collection];
+  const names = ['id', ...Object.keys(columns), 'data'];
+  await db.runAsync(
+    `INSERT INTO ${table} (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`,
+    [record.id, ...columnValues(collection, record), encodeData(record)]
+  );
+}
+
+/**
+ * Updates the row holding `record`, inserting it if no row has its id yet.
+ */
+export async function writeRecord<K extends CollectionName>(
+  db: SQLiteDatabase,
+  collection: K,
+  record: CollectionRecord<K>
+) {
+  const { table, columns } = TABLES[collection];
+  const assignments = [...Object.keys(columns), 'data'].map(column => `${column} = ?`);
+
+  const result = await db.runAsync(
+    `UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`,
+    [...columnValues(collection, record), encodeData(record), record.id]
+  );
+
+  if (result.changes === 0) {
+    await insertRecord(db, collection, record);
+  }
+}
+
+/**
+ * Overwrites the row with the given rowid. Migrations address rows by rowid so
+ * records sharing a legacy id are handled individually.
+ */
+export async function updateRow<K extends CollectionName>(
+  db: SQLiteDatabase,
+  collection: K,
+  rowid: number,
+  record: CollectionRecord<K>
+) {
+  const { table, columns } = TABLES[collection];
+  const assignments = ['id', ...Object.keys(columns), 'data'].map(column => `${column} = ?`);
+  await db.runAsync(
+    `UPDATE ${table} SET ${assignments.join(', ')} WHERE rowid = ?`,
+    [record.id, ...columnValues(collection, record), encodeData(record), rowid]
+  );
+}
+
+/**
+ * Rewrites every row of a collection in place. Used by migrations.
+ */
+export async function rewriteCollection<K extends CollectionName>(
+  db: SQLiteDatabase,
+  collection: K,
+  transform: (record: any) => CollectionRecord<K>
+) {
+  const rows = await db.getAllAsync<{ rowid: number; data: string }>(
+    `SELECT rowid, data FROM ${TABLES[collection].table} ORDER BY rowid`
+  );
+
+  for (const row of rows) {
+    await updateRow(db, collection, row.rowid, transform(decodeData(row.data)));
+  }
+}
+
+/**
+ * Appends an entry to the audit log. Entries are never updated or deleted.
+ */
+export async function insertAuditEntry(db: SQLiteDatabase, entry: AuditEntry) {
+  await db.runAsync(
+    `INSERT INTO ${AUDIT_TABLE} (id, entity_type, entity_id, timestamp, data) VALUES (?, ?, ?, ?, ?)`,
+    entry.id, entry.entityType, entry.entityId, entry.timestamp, encodeData(entry)
+  );
+}
+
+/**
+ * Marks a record as changed locally so the next sync pushes it.
+ */
+export async function recordOutboxChange(db: SQLiteDatabase, collection: CollectionName, recordId: string) {
+  await db.runAsync(
+    `INSERT INTO ${SYNC_OUTBOX_TABLE} (collection, record_id, changed_at) VALUES (?, ?, ?)`,
+    collection, recordId, new Date().toISOString()
+  );
+}
+
+/**
+ * Reads a single record by id, or null if it does not exist.
+ */
+export async function readRecord<K extends CollectionName>(
+  db: SQLiteDatabase,
+  collection: K,
+  id: string
+): Promise<CollectionRecord<K> | null> {
+  const row = await db.getFirstAsync<{ data: string }>(
+    `SELECT data FROM ${TABLES[collection].table} WHERE id = ?`,
+    id
+  );
+  return row ? decodeData<CollectionRecord<K>>(row.data) : null;
+}
+
+export async function removeRecord(db: SQLiteDatabase, collection: CollectionName, id: string) {
+  await db.runAsync(`DELETE FROM ${TABLES[collection].table} WHERE id = ?`, id);
+}
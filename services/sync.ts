@@ -0,0 +1,408 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { generateId } from '@/utils/ids';
+import { getDatabase, enqueueWrite, RecordChange } from './database';
+import {
+  CollectionName,
+  CollectionRecord,
+  SYNC_OUTBOX_TABLE,
+  SYNC_BASE_TABLE,
+  SYNC_CONFLICTS_TABLE,
+  getMetaValue,
+  setMetaValue,
+  readRecord,
+  writeRecord,
+  removeRecord,
+  insertAuditEntry,
+  recordOutboxChange,
+  encodeData,
+  decodeData,
+} from './schema';
+import { buildAuditEntries, diffRecords } from './audit';
+import { mergeRecords, RECORD_DELETED_FIELD } from './syncMerge';
+import { createLocalFolderBackend } from './localFolderSyncBackend';
+import { LATEST_SCHEMA_VERSION, upgradeRecord } from './migrations';
+
+/**
+ * The latest state of one record as exchanged with a sync backend. A null
+ * `record` means the record was deleted.
+ */
+export interface SyncChange {
+  collection: CollectionName;
+  id: string;
+  record: CollectionRecord<CollectionName> | null;
+  changedAt: string;
+  deviceId: string;
+  // Schema version of the device that pushed the change. Missing from
+  // changes pushed before it was recorded.
+  schemaVersion?: number;
+}
+
+export interface PullResult {
+  changes: SyncChange[];
+  // Opaque position in the backend's change feed, passed to the next pull.
+  token: string;
+}
+
+/**
+ * A place changes are exchanged through. Backends only store and replay
+ * changes; merging happens in runSync.
+ */
+export interface SyncBackend {
+  name: string;
+  // Changes pushed by any device since `sinceToken` (everything if null).
+  pull: (sinceToken: string | null) => Promise<PullResult>;
+  push: (changes: SyncChange[]) => Promise<void>;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  // New conflicts waiting for review.
+  conflicts: number;
+  syncedAt: string;
+  // Remote changes applied to local storage, for updating in-memory state.
+  applied: RecordChange[];
+}
+
+export type ConflictSide = 'local' | 'remote';
+
+/**
+ * A record edited differently on this device and another one. `local` and
+ * `remote` are the two versions when the conflict was found; either is null
+ * if that side deleted the record.
+ */
+export interface SyncConflict {
+  id: string;
+  collection: CollectionName;
+  recordId: string;
+  base: CollectionRecord<CollectionName> | null;
+  local: CollectionRecord<CollectionName> | null;
+  remote: CollectionRecord<CollectionName> | null;
+  // Conflicting fields, or RECORD_DELETED_FIELD if one side deleted the record.
+  fields: string[];
+  detectedAt: string;
+}
+
+export interface SyncStatus {
+  lastSyncedAt: string | null;
+  pendingChanges: number;
+  conflicts: number;
+  backendName: string;
+}
+
+const SYNC_ACTOR = { name: 'Sync' };
+
+let backend: SyncBackend = createLocalFolderBackend();
+
+export function getSyncBackend() {
+  return backend;
+}
+
+export function setSyncBackend(nextBackend: SyncBackend) {
+  backend = nextBackend;
+}
+
+async function getDeviceId(db: SQLiteDatabase) {
+  let deviceId = await getMetaValue(db, 'device_id');
+  if (!deviceId) {
+    deviceId = generateId();
+    await setMetaValue(db, 'device_id', deviceId);
+  }
+  return deviceId;
+}
+
+interface OutboxEntry {
+  seq: number;
+  collection: CollectionName;
+  record_id: string;
+  changed_at: string;
+}
+
+function recordKey(collection: CollectionName, recordId: string) {
+  return `${collection}:${recordId}`;
+}
+
+async function readOutbox(db: SQLiteDatabase) {
+  const rows = await db.getAllAsync<OutboxEntry>(
+    `SELECT seq, collection, record_id, changed_at FROM ${SYNC_OUTBOX_TABLE} ORDER BY seq`
+  );
+
+  // Only the latest change per record matters; the record's current state is pushed.
+  const latest = new Map<string, OutboxEntry>();
+  rows.forEach(row => latest.set(recordKey(row.collection, row.record_id), row));
+  return latest;
+}
+
+async function clearOutbox(db: SQLiteDatabase, collection: CollectionName, recordId: string, upToSeq?: number) {
+  await db.runAsync(
+    `DELETE FROM ${SYNC_OUTBOX_TABLE} WHERE collection = ? AND record_id = ? AND seq <= ?`,
+    collection,
+    recordId,
+    upToSeq ?? Number.MAX_SAFE_INTEGER
+  );
+}
+
+/**
+ * The version of a record last exchanged with the backend, used as the
+ * common ancestor when merging.
+ */
+async function readSyncBase(db: SQLiteDatabase, collection: CollectionName, recordId: string) {
+  const row = await db.getFirstAsync<{ data: string }>(
+    `SELECT data FROM ${SYNC_BASE_TABLE} WHERE collection = ? AND record_id = ?`,
+    collection,
+    recordId
+  );
+  return row ? decodeData<CollectionRecord<CollectionName>>(row.data) : null;
+}
+
+async function writeSyncBase(
+  db: SQLiteDatabase,
+  collection: CollectionName,
+  recordId: string,
+  record: CollectionRecord<CollectionName> | null
+) {
+  if (record) {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO ${SYNC_BASE_TABLE} (collection, record_id, data) VALUES (?, ?, ?)`,
+      collection, recordId, encodeData(record)
+    );
+  } else {
+    await db.runAsync(
+      `DELETE FROM ${SYNC_BASE_TABLE} WHERE collection = ? AND record_id = ?`,
+      collection,
+      recordId
+    );
+  }
+}
+
+async function readConflictKeys(db: SQLiteDatabase) {
+  const rows = await db.getAllAsync<{ collection: CollectionName; record_id: string }>(
+    `SELECT collection, record_id FROM ${SYNC_CONFLICTS_TABLE}`
+  );
+  return new Set(rows.map(row => recordKey(row.collection, row.record_id)));
+}
+
+// A record has at most one open conflict; a newer one replaces it.
+async function saveConflict(db: SQLiteDatabase, conflict: SyncConflict) {
+  await db.runAsync(
+    `DELETE FROM ${SYNC_CONFLICTS_TABLE} WHERE collection = ? AND record_id = ?`,
+    conflict.collection,
+    conflict.recordId
+  );
+  await db.runAsync(
+    `INSERT INTO ${SYNC_CONFLICTS_TABLE} (id, collection, record_id, detected_at, data) VALUES (?, ?, ?, ?, ?)`,
+    conflict.id, conflict.collection, conflict.recordId, conflict.detectedAt, encodeData(conflict)
+  );
+}
+
+async function storeRecord(
+  db: SQLiteDatabase,
+  collection: CollectionName,
+  recordId: string,
+  record: CollectionRecord<CollectionName> | null
+) {
+  if (record) {
+    await writeRecord(db, collection, record);
+  } else {
+    await removeRecord(db, collection, recordId);
+  }
+}
+
+/**
+ * Pulls remote changes, applies them locally and pushes local changes made
+ * since the last sync. Runs in the write queue so no local write interleaves.
+ *
+ * When a record was changed both locally and remotely, the two versions are
+ * merged field by field. Fields edited differently on both sides are kept
+ * local and recorded as a conflict; the record is not pushed until the
+ * conflict is resolved.
+ */
+export function runSync(syncBackend = backend): Promise<SyncResult> {
+  return enqueueWrite(async db => {
+    const deviceId = await getDeviceId(db);
+    const token = await getMetaValue(db, 'sync_token');
+    const pulled = await syncBackend.pull(token);
+    if (pulled.changes.some(change => (change.schemaVersion ?? 0) > LATEST_SCHEMA_VERSION)) {
+      throw new Error('Another device uses a newer version of the app. Please update the app to sync.');
+    }
+    const outbox = await readOutbox(db);
+    const openConflicts = await readConflictKeys(db);
+    const applied: RecordChange[] = [];
+    let conflicts = 0;
+
+    await db.withTransactionAsync(async () => {
+      for (const change of pulled.changes) {
+        if (change.deviceId === deviceId) continue;
+
+        const key = recordKey(change.collection, change.id);
+        const local = await readRecord(db, change.collection, change.id);
+        // Records from devices on an older schema are upgraded before merging, as
+        // restores do. The upgrades leave current records as they are, so changes
+        // without a version are upgraded from the start.
+        const remote = change.record && upgradeRecord(change.collection, change.record, change.schemaVersion ?? 0);
+        let result = remote;
+
+        if (outbox.has(key) || openConflicts.has(key)) {
+          const base = await readSyncBase(db, change.collection, change.id);
+          const merge = mergeRecords(base, local, remote);
+          result = merge.merged;
+
+          if (merge.conflicts.length > 0) {
+            await saveConflict(db, {
+              id: generateId(),
+              collection: change.collection,
+              recordId: change.id,
+              base,
+              local,
+              remote,
+              fields: merge.conflicts,
+              detectedAt: new Date().toISOString(),
+            });
+            openConflicts.add(key);
+            conflicts++;
+          }
+
+          // Nothing is left to push if the merge matches the remote version.
+          if (merge.conflicts.length > 0 || diffRecords(result, remote).length === 0) {
+            await clearOutbox(db, change.collection, change.id);
+            outbox.delete(key);
+          }
+        }
+
+        if (JSON.stringify(local) !== JSON.stringify(result)) {
+          await storeRecord(db, change.collection, change.id, result);
+          applied.push({ collection: change.collection, before: local, after: result } as RecordChange);
+        }
+        await writeSyncBase(db, change.collection, change.id, remote);
+      }
+
+      for (const entry of buildAuditEntries(applied, SYNC_ACTOR)) {
+        await insertAuditEntry(db, entry);
+      }
+      await setMetaValue(db, 'sync_token', pulled.token);
+    });
+
+    const outgoing: SyncChange[] = [];
+    const pushedEntries: OutboxEntry[] = [];
+    for (const [key, entry] of outbox) {
+      if (openConflicts.has(key)) continue;
+
+      const record = await readRecord(db, entry.collection, entry.record_id);
+      outgoing.push({
+        collection: entry.collection,
+        id: entry.record_id,
+        record,
+        changedAt: record?.updatedAt ?? entry.changed_at,
+        deviceId,
+        schemaVersion: LATEST_SCHEMA_VERSION,
+      });
+      pushedEntries.push(entry);
+    }
+
+    if (outgoing.length > 0) {
+      await syncBackend.push(outgoing);
+    }
+
+    const syncedAt = new Date().toISOString();
+    await db.withTransactionAsync(async () => {
+      for (let i = 0; i < outgoing.length; i++) {
+        const entry = pushedEntries[i];
+        await clearOutbox(db, entry.collection, entry.record_id, entry.seq);
+        await writeSyncBase(db, entry.collection, entry.record_id, outgoing[i].record);
+      }
+      await setMetaValue(db, 'last_synced_at', syncedAt);
+    });
+
+    return { pushed: outgoing.length, pulled: applied.length, conflicts, syncedAt, applied };
+  });
+}
+
+/**
+ * Open conflicts, oldest first.
+ */
+export async function loadSyncConflicts(): Promise<SyncConflict[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ data: string }>(
+    `SELECT data FROM ${SYNC_CONFLICTS_TABLE} ORDER BY detected_at, rowid`
+  );
+  return rows.map(row => decodeData<SyncConflict>(row.data));
+}
+
+/**
+ * Resolves a conflict by taking each conflicting field from the chosen side
+ * (local by default). The result is saved as a local change and pushed on
+ * the next sync. Returns the change applied to storage, or null if the
+ * record stays deleted.
+ */
+export function resolveSyncConflict(
+  conflictId: string,
+  choices: Record<string, ConflictSide>
+): Promise<RecordChange | null> {
+  return enqueueWrite(async db => {
+    const row = await db.getFirstAsync<{ data: string }>(
+      `SELECT data FROM ${SYNC_CONFLICTS_TABLE} WHERE id = ?`,
+      conflictId
+    );
+    if (!row) {
+      throw new Error('This conflict has already been resolved.');
+    }
+
+    const conflict = decodeData<SyncConflict>(row.data);
+    const current = await readRecord(db, conflict.collection, conflict.recordId);
+    let resolved: CollectionRecord<CollectionName> | null;
+
+    if (conflict.fields.includes(RECORD_DELETED_FIELD)) {
+      resolved = choices[RECORD_DELETED_FIELD] === 'remote' ? conflict.remote : current;
+    } else {
+      const values: Record<string, unknown> = { ...(current ?? conflict.local) };
+      const remoteValues = (conflict.remote ?? {}) as Record<string, unknown>;
+      conflict.fields
+        .filter(field => choices[field] === 'remote')
+        .forEach(field => {
+          if (remoteValues[field] === undefined) {
+            delete values[field];
+          } else {
+            values[field] = remoteValues[field];
+          }
+        });
+      resolved = values as unknown as CollectionRecord<CollectionName>;
+    }
+
+    if (resolved) {
+      resolved = { ...resolved, updatedAt: new Date().toISOString() };
+    }
+    const change = current || resolved
+      ? ({ collection: conflict.collection, before: current, after: resolved } as RecordChange)
+      : null;
+
+    await db.withTransactionAsync(async () => {
+      if (change) {
+        await storeRecord(db, conflict.collection, conflict.recordId, resolved);
+        for (const entry of buildAuditEntries([change])) {
+          await insertAuditEntry(db, entry);
+        }
+      }
+      await recordOutboxChange(db, conflict.collection, conflict.recordId);
+      await db.runAsync(`DELETE FROM ${SYNC_CONFLICTS_TABLE} WHERE id = ?`, conflictId);
+    });
+
+    return change;
+  });
+}
+
+export function getSyncStatus(): Promise<SyncStatus> {
+  return enqueueWrite(async db => {
+    const pending = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(DISTINCT collection || ':' || record_id) AS count FROM ${SYNC_OUTBOX_TABLE}`
+    );
+    const conflicts = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ${SYNC_CONFLICTS_TABLE}`
+    );
+    return {
+      lastSyncedAt: await getMetaValue(db, 'last_synced_at'),
+      pendingChanges: pending?.count ?? 0,
+      conflicts: conflicts?.count ?? 0,
+      backendName: backend.name,
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { diffRecords } from './audit';
+
+// Pseudo-field reported when one side deleted a record the other side edited.
+export const RECORD_DELETED_FIELD = '_deleted';
+
+export interface MergeResult<T> {
+  // The merged record, or null if it stays deleted. Conflicting fields keep
+  // the local value until the conflict is resolved.
+  merged: T | null;
+  // Fields changed differently on both sides since `base`.
+  conflicts: string[];
+}
+
+function changedFields(base: object | null, record: object | null) {
+  return new Set(diffRecords(base, record).map(change => change.field));
+}
+
+function latestTimestamp(a?: string, b?: string) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Three-way merge of a record changed both locally and remotely since the
+ * last version both sides agreed on (`base`, null if there is none). Fields
+ * edited on only one side are merged automatically.
+ */
+export function mergeRecords<T extends { id: string; updatedAt?: string }>(
+  base: T | null,
+  local: T | null,
+  remote: T | null
+): MergeResult<T> {
+  if (!local && !remote) return { merged: null, conflicts: [] };
+
+  if (!local || !remote) {
+    // A deletion wins over a record the other side left unchanged.
+    const editedChanges = changedFields(base, local ?? remote);
+    return editedChanges.size === 0
+      ? { merged: null, conflicts: [] }
+      : { merged: local, conflicts: [RECORD_DELETED_FIELD] };
+  }
+
+  const localChanges = changedFields(base, local);
+  const remoteChanges = changedFields(base, remote);
+
+  const merged: Record<string, unknown> = { ...local };
+  const conflicts: string[] = [];
+  const remoteValues = remote as Record<string, unknown>;
+
+  diffRecords(local, remote).forEach(({ field }) => {
+    if (!remoteChanges.has(field)) return;
+
+    if (localChanges.has(field)) {
+      conflicts.push(field);
+    } else if (remoteValues[field] === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = remoteValues[field];
+    }
+  });
+
+  merged.updatedAt = latestTimestamp(local.updatedAt, remote.updatedAt);
+  return { merged: merged as T, conflicts };
+}
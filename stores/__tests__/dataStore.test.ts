@@ -0,0 +1,155 @@
+import { useDataStore } from '@/stores/dataStore';
+import { persistChanges, RecordChange } from '@/services/database';
+import { Appointment, Visit } from '@/types';
+
+jest.mock('expo-sqlite', () => ({ openDatabaseAsync: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-crypto', () => {
+  let nextId = 0;
+  return { randomUUID: () => `id-${++nextId}` };
+});
+jest.mock('@/services/database', () => ({
+  ...jest.requireActual('@/services/database'),
+  persistChanges: jest.fn(),
+  loadCollection: jest.fn(),
+}));
+
+const mockPersistChanges = persistChanges as jest.MockedFunction<typeof persistChanges>;
+
+// Writes that finish only when the test says so, so mutations overlap.
+let pendingWrites: (() => void)[] = [];
+
+function finishWrites() {
+  pendingWrites.forEach(resolve => resolve());
+  pendingWrites = [];
+}
+
+function persistedCollections() {
+  return mockPersistChanges.mock.calls.map(([changes]) => changes.map((change: RecordChange) => change.collection));
+}
+
+const visitData: Omit<Visit, 'id' | 'updatedAt'> = {
+  patientId: 'patient-1',
+  patientName: 'Jane Doe',
+  complaints: 'Cough',
+  diagnosis: '',
+  treatment: 'Rest',
+  fee: 20,
+  visitDate: '2026-01-05T09:00:00.000Z',
+  clinicId: 'clinic-1',
+};
+
+const appointmentData: Omit<Appointment, 'id' | 'updatedAt'> = {
+  patientId: 'patient-1',
+  patientName: 'Jane Doe',
+  phoneNumber: '',
+  date: '2026-01-12',
+  time: '10:00 AM',
+  status: 'scheduled',
+  clinicId: 'clinic-1',
+};
+
+const appointment = (id: string, time: string): Appointment => ({
+  ...appointmentData,
+  id,
+  time,
+  updatedAt: '2026-01-05T09:00:00.000Z',
+});
+
+beforeEach(() => {
+  pendingWrites = [];
+  mockPersistChanges.mockReset();
+  mockPersistChanges.mockImplementation(() => new Promise<void>(resolve => pendingWrites.push(resolve)));
+  useDataStore.setState({
+    patients: [],
+    visits: [],
+    appointments: [],
+    incomeRecords: [],
+    expenseRecords: [],
+    visitTemplates: [],
+    lastUndo: null,
+  });
+});
+
+describe('back-to-back mutations', () => {
+  it('keeps a visit and an appointment added before either is saved', async () => {
+    const { addVisit, addAppointment } = useDataStore.getState();
+
+    const saves = Promise.all([
+      addVisit(visitData),
+      addAppointment(appointmentData),
+    ]);
+
+    const state = useDataStore.getState();
+    expect(state.visits).toHaveLength(1);
+    expect(state.incomeRecords).toHaveLength(1);
+    expect(state.appointments).toHaveLength(1);
+
+    finishWrites();
+    await saves;
+
+    expect(persistedCollections()).toEqual([['visits', 'incomeRecords'], ['appointments']]);
+    expect(useDataStore.getState().visits).toHaveLength(1);
+    expect(useDataStore.getState().appointments).toHaveLength(1);
+  });
+
+  it('keeps updates to two appointments made before either is saved', async () => {
+    useDataStore.setState({ appointments: [appointment('a', '09:00 AM'), appointment('b', '11:00 AM')] });
+    const { updateAppointment } = useDataStore.getState();
+
+    const saves = Promise.all([
+      updateAppointment('a', { status: 'completed' }),
+      updateAppointment('b', { time: '12:00 PM' }),
+    ]);
+    finishWrites();
+    await saves;
+
+    const [first, second] = useDataStore.getState().appointments;
+    expect(first).toMatchObject({ id: 'a', status: 'completed', time: '09:00 AM' });
+    expect(second).toMatchObject({ id: 'b', status: 'scheduled', time: '12:00 PM' });
+
+    const persisted = mockPersistChanges.mock.calls.map(([changes]) => changes[0].after);
+    expect(persisted).toEqual([
+      expect.objectContaining({ id: 'a', status: 'completed' }),
+      expect.objectContaining({ id: 'b', time: '12:00 PM' }),
+    ]);
+  });
+
+  it('reverts only the mutation whose write failed', async () => {
+    useDataStore.setState({ appointments: [appointment('a', '09:00 AM'), appointment('b', '11:00 AM')] });
+    mockPersistChanges
+      .mockImplementationOnce(() => Promise.reject(new Error('disk full')))
+      .mockImplementationOnce(() => Promise.resolve());
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { updateAppointment } = useDataStore.getState();
+
+    const results = await Promise.allSettled([
+      updateAppointment('a', { status: 'completed' }),
+      updateAppointment('b', { time: '12:00 PM' }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    const [first, second] = useDataStore.getState().appointments;
+    expect(first).toMatchObject({ id: 'a', status: 'scheduled' });
+    expect(second).toMatchObject({ id: 'b', time: '12:00 PM' });
+  });
+});
+
+describe('undo', () => {
+  it('removes a visit together with its income record and follow-up', async () => {
+    mockPersistChanges.mockImplementation(() => Promise.resolve());
+    await useDataStore.getState().addVisit(visitData, appointmentData);
+
+    const { lastUndo, undo } = useDataStore.getState();
+    expect(lastUndo?.label).toBe('Visit recorded');
+    expect(persistedCollections()).toEqual([['visits', 'incomeRecords', 'appointments']]);
+
+    await undo(lastUndo!.id);
+
+    const state = useDataStore.getState();
+    expect(state.visits).toHaveLength(0);
+    expect(state.incomeRecords).toHaveLength(0);
+    expect(state.appointments).toHaveLength(0);
+  });
+});
@@ -0,0 +1,467 @@
+import { create } from 'zustand';
+import { Patient, Visit, Appointment, IncomeRecord, ExpenseRecord, VisitTemplate, AuditEntry } from '@/types';
+import { generateId } from '@/utils/ids';
+import { combinePatientDetails } from '@/utils/patientMatching';
+import { loadCollection, persistChanges, RecordChange } from '@/services/database';
+import { buildAuditEntries, buildMergeAuditEntries, getAuditActor } from '@/services/audit';
+import { runSync, resolveSyncConflict, SyncResult, ConflictSide } from '@/services/sync';
+
+export interface PatientDeletionOptions {
+  // Income records are kept by default so financial history stays intact.
+  deleteIncomeRecords?: boolean;
+}
+
+export interface DataState {
+  patients: Patient[];
+  visits: Visit[];
+  appointments: Appointment[];
+  incomeRecords: IncomeRecord[];
+  expenseRecords: ExpenseRecord[];
+  visitTemplates: VisitTemplate[];
+  loading: boolean;
+
+  loadData: () => Promise<void>;
+
+  // Patient methods
+  addPatient: (patient: Omit<Patient, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updatePatient: (id: string, updates: Partial<Patient>) => Promise<void>;
+  archivePatient: (id: string) => Promise<void>;
+  unarchivePatient: (id: string) => Promise<void>;
+  deletePatient: (id: string, options?: PatientDeletionOptions) => Promise<void>;
+  mergePatients: (keepId: string, duplicateId: string) => Promise<void>;
+
+  // Visit methods
+  // A follow-up appointment is saved with the visit, so one undo removes both.
+  addVisit: (visit: Omit<Visit, 'id' | 'updatedAt'>, followUp?: Omit<Appointment, 'id' | 'updatedAt'>) => Promise<void>;
+  updateVisit: (id: string, updates: Partial<Visit>) => Promise<void>;
+  deleteVisit: (id: string) => Promise<void>;
+
+  // Appointment methods
+  addAppointment: (appointment: Omit<Appointment, 'id' | 'updatedAt'>) => Promise<void>;
+  updateAppointment: (id: string, updates: Partial<Appointment>) => Promise<void>;
+
+  // Financial methods
+  addExpense: (expense: Omit<ExpenseRecord, 'id' | 'updatedAt'>) => Promise<void>;
+  updateExpense: (id: string, updates: Partial<ExpenseRecord>) => Promise<void>;
+  deleteExpense: (id: string) => Promise<void>;
+
+  // Visit template methods
+  addVisitTemplate: (template: Omit<VisitTemplate, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
+  updateVisitTemplate: (id: string, updates: Partial<VisitTemplate>) => Promise<void>;
+  deleteVisitTemplate: (id: string) => Promise<void>;
+
+  // Undo
+  lastUndo: UndoEntry | null;
+  undo: (id: string) => Promise<void>;
+  dismissUndo: (id: string) => void;
+
+  // Data management
+  syncData: () => Promise<SyncResult>;
+  resolveConflict: (conflictId: string, choices: Record<string, ConflictSide>) => Promise<RecordChange | null>;
+  importData: (changes: RecordChange[]) => Promise<void>;
+}
+
+type DataCollection = 'patients' | 'visits' | 'appointments' | 'incomeRecords' | 'expenseRecords' | 'visitTemplates';
+type DataChange = Extract<RecordChange, { collection: DataCollection }>;
+
+const DATA_COLLECTIONS = new Set<string>(['patients', 'visits', 'appointments', 'incomeRecords', 'expenseRecords', 'visitTemplates']);
+
+// Clinics and staff users are held by their own contexts, not this store.
+function isDataChange(change: RecordChange): change is DataChange {
+  return DATA_COLLECTIONS.has(change.collection);
+}
+
+export interface UndoEntry {
+  id: string;
+  // Describes the mutation, e.g. "Expense deleted".
+  label: string;
+  changes: DataChange[];
+}
+type Collections = Pick<DataState, DataCollection>;
+
+/**
+ * Returns the collections with `changes` applied. Pure, so it can be used
+ * inside a functional `set` and always sees the latest state.
+ */
+function applyChanges(state: Collections, changes: DataChange[]): Partial<Collections> {
+  const next: Partial<Collections> = {};
+
+  changes.forEach(change => {
+    const records: { id: string }[] = next[change.collection] ?? state[change.collection];
+    const id = (change.after ?? change.before)!.id;
+    let updated: { id: string }[];
+
+    if (!change.after) {
+      updated = records.filter(record => record.id !== id);
+    } else if (records.some(record => record.id === id)) {
+      updated = records.map(record => (record.id === id ? change.after! : record));
+    } else {
+      updated = [...records, change.after];
+    }
+
+    (next as Record<DataCollection, { id: string }[]>)[change.collection] = updated;
+  });
+
+  return next;
+}
+
+// Returns a copy of the record marked as changed now.
+function touch<T extends { updatedAt: string }>(record: T): T {
+  return { ...record, updatedAt: new Date().toISOString() };
+}
+
+function invertChanges(changes: DataChange[]): DataChange[] {
+  return changes
+    .map(change => ({ ...change, before: change.after, after: change.before }) as DataChange)
+    .reverse();
+}
+
+export const useDataStore = create<DataState>()((set, get) => {
+  /**
+   * Applies changes to the in-memory state immediately and queues them for
+   * persistence together with their audit entries. Each call reads the current state, so back-to-back
+   * mutations never overwrite each other. If the write fails the changes
+   * are reverted and the error is rethrown to the caller.
+   *
+   * Passing an `undoLabel` makes the mutation the one offered for undo.
+   * `extraAuditEntries` are stored alongside the per-record entries.
+   */
+  const commit = async (changes: DataChange[], undoLabel?: string, extraAuditEntries: AuditEntry[] = []) => {
+    if (changes.length === 0) return;
+
+    set(state => applyChanges(state, changes));
+    try {
+      await persistChanges(changes, [...buildAuditEntries(changes), ...extraAuditEntries]);
+    } catch (error) {
+      console.error('Error saving data:', error);
+      set(state => applyChanges(state, invertChanges(changes)));
+      throw error;
+    }
+
+    if (undoLabel) {
+      set({ lastUndo: { id: generateId(), label: undoLabel, changes } });
+    }
+  };
+
+  const commitPatientUpdate = async (id: string, updates: Partial<Patient>, undoLabel: string) => {
+    const existing = get().patients.find(patient => patient.id === id);
+    if (!existing) return;
+
+    const updatedPatient = touch({ ...existing, ...updates });
+    await commit([{ collection: 'patients', before: existing, after: updatedPatient }], undoLabel);
+  };
+
+  return {
+    patients: [],
+    visits: [],
+    appointments: [],
+    incomeRecords: [],
+    expenseRecords: [],
+    visitTemplates: [],
+    loading: true,
+
+    loadData: async () => {
+      try {
+        const [patients, visits, appointments, incomeRecords, expenseRecords, visitTemplates] = await Promise.all([
+          loadCollection('patients'),
+          loadCollection('visits'),
+          loadCollection('appointments'),
+          loadCollection('incomeRecords'),
+          loadCollection('expenseRecords'),
+          loadCollection('visitTemplates'),
+        ]);
+        set({ patients, visits, appointments, incomeRecords, expenseRecords, visitTemplates });
+      } catch (error) {
+        console.error('Error loading data:', error);
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    addPatient: async (patientData) => {
+      const newPatient: Patient = {
+        ...patientData,
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        createdBy: getAuditActor().id,
+      };
+      await commit([{ collection: 'patients', before: null, after: newPatient }], 'Patient added');
+    },
+
+    updatePatient: async (id, updates) => {
+      await commitPatientUpdate(id, updates, 'Patient updated');
+    },
+
+    archivePatient: async (id) => {
+      await commitPatientUpdate(id, { archivedAt: new Date().toISOString() }, 'Patient archived');
+    },
+
+    unarchivePatient: async (id) => {
+      await commitPatientUpdate(id, { archivedAt: undefined }, 'Patient restored');
+    },
+
+    deletePatient: async (id, options = {}) => {
+      const state = get();
+      const existing = state.patients.find(patient => patient.id === id);
+      if (!existing) return;
+
+      const patientVisits = state.visits.filter(visit => visit.patientId === id);
+      const visitIds = new Set(patientVisits.map(visit => visit.id));
+      const changes: DataChange[] = [
+        { collection: 'patients', before: existing, after: null },
+        ...patientVisits.map(visit => ({ collection: 'visits', before: visit, after: null }) as DataChange),
+        ...state.appointments
+          .filter(appointment => appointment.patientId === id)
+          .map(appointment => ({ collection: 'appointments', before: appointment, after: null }) as DataChange),
+      ];
+
+      if (options.deleteIncomeRecords) {
+        state.incomeRecords
+          .filter(record => visitIds.has(record.visitId))
+          .forEach(record => changes.push({ collection: 'incomeRecords', before: record, after: null }));
+      }
+
+      await commit(changes, 'Patient deleted');
+    },
+
+    mergePatients: async (keepId, duplicateId) => {
+      const state = get();
+      const kept = state.patients.find(patient => patient.id === keepId);
+      const duplicate = state.patients.find(patient => patient.id === duplicateId);
+      if (!kept || !duplicate || keepId === duplicateId) return;
+
+      const mergedPatient = touch(combinePatientDetails(kept, duplicate));
+      const { name, updatedAt } = mergedPatient;
+      const duplicateVisits = state.visits.filter(visit => visit.patientId === duplicateId);
+      const visitIds = new Set(duplicateVisits.map(visit => visit.id));
+      const duplicateAppointments = state.appointments.filter(appointment => appointment.patientId === duplicateId);
+      const duplicateIncome = state.incomeRecords.filter(record => visitIds.has(record.visitId));
+
+      // The duplicate's records move to the kept patient and take its name.
+      const changes: DataChange[] = [
+        { collection: 'patients', before: kept, after: mergedPatient },
+        { collection: 'patients', before: duplicate, after: null },
+        ...duplicateVisits.map(visit => ({
+          collection: 'visits',
+          before: visit,
+          after: { ...visit, patientId: keepId, patientName: name, updatedAt },
+        }) as DataChange),
+        ...duplicateAppointments.map(appointment => ({
+          collection: 'appointments',
+          before: appointment,
+          after: { ...appointment, patientId: keepId, patientName: name, phoneNumber: mergedPatient.phoneNumber, updatedAt },
+        }) as DataChange),
+        ...duplicateIncome.map(record => ({
+          collection: 'incomeRecords',
+          before: record,
+          after: { ...record, patientName: name, description: `Visit fee - ${name}`, updatedAt },
+        }) as DataChange),
+      ];
+
+      await commit(changes, 'Patients merged', buildMergeAuditEntries(kept, duplicate, {
+        visits: duplicateVisits.length,
+        appointments: duplicateAppointments.length,
+        incomeRecords: duplicateIncome.length,
+      }));
+    },
+
+    addVisit: async (visitData, followUpData) => {
+      const newVisit: Visit = {
+        ...visitData,
+        id: generateId(),
+        updatedAt: new Date().toISOString(),
+        createdBy: getAuditActor().id,
+      };
+
+      const incomeRecord: IncomeRecord = {
+        id: generateId(),
+        visitId: newVisit.id,
+        patientName: visitData.patientName,
+        amount: visitData.fee,
+        date: visitData.visitDate,
+        description: `Visit fee - ${visitData.patientName}`,
+        clinicId: visitData.clinicId,
+        updatedAt: newVisit.updatedAt,
+        createdBy: newVisit.createdBy,
+      };
+
+      const changes: DataChange[] = [
+        { collection: 'visits', before: null, after: newVisit },
+        { collection: 'incomeRecords', before: null, after: incomeRecord },
+      ];
+      if (followUpData) {
+        const followUp: Appointment = {
+          ...followUpData,
+          id: generateId(),
+          updatedAt: newVisit.updatedAt,
+          createdBy: newVisit.createdBy,
+        };
+        changes.push({ collection: 'appointments', before: null, after: followUp });
+      }
+
+      await commit(changes, 'Visit recorded');
+    },
+
+    updateVisit: async (id, updates) => {
+      const state = get();
+      const existing = state.visits.find(visit => visit.id === id);
+      if (!existing) return;
+
+      const updatedVisit = touch({ ...existing, ...updates, id });
+      const changes: DataChange[] = [{ collection: 'visits', before: existing, after: updatedVisit }];
+
+      // Keep the visit's income record in step with the fee, date and patient.
+      state.incomeRecords
+        .filter(record => record.visitId === id)
+        .forEach(record => changes.push({
+          collection: 'incomeRecords',
+          before: record,
+          after: {
+            ...record,
+            patientName: updatedVisit.patientName,
+            amount: updatedVisit.fee,
+            date: updatedVisit.visitDate,
+            description: `Visit fee - ${updatedVisit.patientName}`,
+            clinicId: updatedVisit.clinicId,
+            updatedAt: updatedVisit.updatedAt,
+          },
+        }));
+
+      await commit(changes, 'Visit updated');
+    },
+
+    deleteVisit: async (id) => {
+      const state = get();
+      const existing = state.visits.find(visit => visit.id === id);
+      if (!existing) return;
+
+      await commit([
+        { collection: 'visits', before: existing, after: null },
+        ...state.incomeRecords
+          .filter(record => record.visitId === id)
+          .map(record => ({ collection: 'incomeRecords', before: record, after: null }) as DataChange),
+      ], 'Visit deleted');
+    },
+
+    addAppointment: async (appointmentData) => {
+      const newAppointment: Appointment = {
+        ...appointmentData,
+        id: generateId(),
+        updatedAt: new Date().toISOString(),
+        createdBy: getAuditActor().id,
+      };
+      await commit([{ collection: 'appointments', before: null, after: newAppointment }], 'Appointment added');
+    },
+
+    updateAppointment: async (id, updates) => {
+      const existing = get().appointments.find(appointment => appointment.id === id);
+      if (!existing) return;
+
+      const label = updates.status && updates.status !== existing.status
+        ? `Appointment marked ${updates.status}`
+        : 'Appointment updated';
+      await commit([{ collection: 'appointments', before: existing, after: touch({ ...existing, ...updates }) }], label);
+    },
+
+    addExpense: async (expenseData) => {
+      const newExpense: ExpenseRecord = {
+        ...expenseData,
+        id: generateId(),
+        updatedAt: new Date().toISOString(),
+        createdBy: getAuditActor().id,
+      };
+      await commit([{ collection: 'expenseRecords', before: null, after: newExpense }], 'Expense added');
+    },
+
+    updateExpense: async (id, updates) => {
+      const existing = get().expenseRecords.find(expense => expense.id === id);
+      if (!existing) return;
+
+      await commit([{ collection: 'expenseRecords', before: existing, after: touch({ ...existing, ...updates }) }], 'Expense updated');
+    },
+
+    deleteExpense: async (id) => {
+      const existing = get().expenseRecords.find(expense => expense.id === id);
+      if (!existing) return;
+
+      await commit([{ collection: 'expenseRecords', before: existing, after: null }], 'Expense deleted');
+    },
+
+    addVisitTemplate: async (templateData) => {
+      const newTemplate: VisitTemplate = {
+        ...templateData,
+        id: generateId(),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        createdBy: getAuditActor().id,
+      };
+      await commit([{ collection: 'visitTemplates', before: null, after: newTemplate }], 'Visit template added');
+    },
+
+    updateVisitTemplate: async (id, updates) => {
+      const existing = get().visitTemplates.find(template => template.id === id);
+      if (!existing) return;
+
+      await commit([{ collection: 'visitTemplates', before: existing, after: touch({ ...existing, ...updates }) }], 'Visit template updated');
+    },
+
+    deleteVisitTemplate: async (id) => {
+      const existing = get().visitTemplates.find(template => template.id === id);
+      if (!existing) return;
+
+      await commit([{ collection: 'visitTemplates', before: existing, after: null }], 'Visit template deleted');
+    },
+
+    lastUndo: null,
+
+    undo: async (id) => {
+      const entry = get().lastUndo;
+      if (!entry || entry.id !== id) return;
+
+      // Restores every record touched by the mutation, linked ones included,
+      // to its previous version. The restore is itself a new change, so it
+      // gets a fresh updatedAt and wins over the undone version when syncing.
+      set({ lastUndo: null });
+      await commit(
+        invertChanges(entry.changes).map(change =>
+          change.after ? ({ ...change, after: touch(change.after) } as DataChange) : change
+        )
+      );
+    },
+
+    dismissUndo: (id) => {
+      if (get().lastUndo?.id === id) {
+        set({ lastUndo: null });
+      }
+    },
+
+    syncData: async () => {
+      const result = await runSync();
+      const dataChanges = result.applied.filter(isDataChange);
+
+      if (dataChanges.length > 0) {
+        // The undo entry may no longer describe the stored records.
+        set(state => ({ ...applyChanges(state, dataChanges), lastUndo: null }));
+      }
+      return result;
+    },
+
+    resolveConflict: async (conflictId, choices) => {
+      const change = await resolveSyncConflict(conflictId, choices);
+      if (change && isDataChange(change)) {
+        set(state => ({ ...applyChanges(state, [change]), lastUndo: null }));
+      }
+      return change;
+    },
+
+    importData: async (changes) => {
+      // Stored first, in one transaction, so a failed import leaves both the
+      // database and the screen as they were.
+      await persistChanges(changes, buildAuditEntries(changes));
+
+      const dataChanges = changes.filter(isDataChange);
+      set(state => ({ ...applyChanges(state, dataChanges), lastUndo: null }));
+    },
+  };
+});
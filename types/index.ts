@@ -1,15 +1,112 @@
 export interface Patient {
   id: string;
   name: string;
+  // Age in years when the record was last saved. Use utils/age to show the current age.
   age: number;
+  // YYYY-MM-DD.
+  dateOfBirth?: string;
+  // Set when the date of birth was estimated from an age rather than known.
+  dateOfBirthApproximate?: boolean;
   sex: 'Male' | 'Female' | 'Other';
   phoneNumber: string;
   location: string;
-  allergy: string;
+  allergies?: Allergy[];
+  medications?: Medication[];
   pastMedicalHistory: string;
   createdAt: string;
   updatedAt: string;
   clinicId: string;
+  // Id of the staff user who created the record.
+  createdBy?: string;
+  // Set when the patient is archived; archived patients are hidden from lists and search.
+  archivedAt?: string;
+}
+
+// 'unknown' is used for allergies migrated from free text.
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'unknown';
+
+export interface Allergy {
+  id: string;
+  substance: string;
+  reaction: string;
+  severity: AllergySeverity;
+}
+
+// A medication the patient currently takes.
+export interface Medication {
+  id: string;
+  name: string;
+  dose: string;
+  frequency: string;
+}
+
+// Vital signs taken at a visit. Every reading is optional.
+export interface Vitals {
+  // Blood pressure, mmHg.
+  systolic?: number;
+  diastolic?: number;
+  // Beats per minute.
+  pulse?: number;
+  // Degrees Celsius.
+  temperature?: number;
+  // Breaths per minute.
+  respiratoryRate?: number;
+  // SpO2, percent.
+  oxygenSaturation?: number;
+  // Kilograms.
+  weight?: number;
+  // Centimetres.
+  height?: number;
+}
+
+// One drug on a visit's prescription. Everything but the drug is free text
+// as written on the prescription, e.g. dose "1 tablet", duration "5 days".
+export interface PrescriptionItem {
+  id: string;
+  drug: string;
+  strength: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  quantity: string;
+  instructions: string;
+}
+
+export type InteractionSeverity = 'major' | 'moderate' | 'minor';
+
+// Prescription warnings the prescriber saw and chose to prescribe through.
+export interface InteractionOverride {
+  warnings: {
+    severity: InteractionSeverity;
+    message: string;
+  }[];
+  reason: string;
+  overriddenAt: string;
+  // Id of the staff user who overrode the warnings.
+  overriddenBy?: string;
+}
+
+// An ICD-10 code given to a visit, with its title as it read when coded.
+export interface DiagnosisCode {
+  code: string;
+  title: string;
+}
+
+// Visit notes in SOAP format (Subjective, Objective, Assessment, Plan).
+export interface SoapNote {
+  // Subjective
+  chiefComplaint: string;
+  historyOfPresentIllness: string;
+  reviewOfSystems: string;
+  // Objective; vital signs are stored on the visit.
+  examinationFindings: string;
+  investigationResults: string;
+  // Assessment
+  assessment: string;
+  differentialDiagnosis: string;
+  // Plan
+  plan: string;
+  patientInstructions: string;
 }
 
 export interface Visit {
@@ -19,10 +116,21 @@ export interface Visit {
   complaints: string;
   diagnosis: string;
   treatment: string;
+  // Set for visits noted in SOAP format. Complaints, diagnosis and treatment
+  // then hold the chief complaint, assessment and plan.
+  soap?: SoapNote;
+  // Coded alongside the free-text diagnosis, which stays the clinician's note.
+  diagnosisCodes?: DiagnosisCode[];
+  prescription?: PrescriptionItem[];
+  // Set when the prescription was saved despite interaction warnings.
+  interactionOverride?: InteractionOverride;
+  vitals?: Vitals;
   fee: number;
   followUpDate?: string;
   visitDate: string;
   clinicId: string;
+  updatedAt: string;
+  createdBy?: string;
 }
 
 export interface Appointment {
@@ -35,6 +143,8 @@ export interface Appointment {
   status: 'scheduled' | 'completed' | 'cancelled' | 'failed';
   notes?: string;
   clinicId: string;
+  updatedAt: string;
+  createdBy?: string;
 }
 
 export interface IncomeRecord {
@@ -45,6 +155,8 @@ export interface IncomeRecord {
   date: string;
   description: string;
   clinicId: string;
+  updatedAt: string;
+  createdBy?: string;
 }
 
 export interface ExpenseRecord {
@@ -54,6 +166,8 @@ export interface ExpenseRecord {
   description: string;
   category: string;
   clinicId: string;
+  updatedAt: string;
+  createdBy?: string;
 }
 
 export interface Clinic {
@@ -63,6 +177,37 @@ export interface Clinic {
   phoneNumber: string;
   isActive: boolean;
   createdAt: string;
+  updatedAt: string;
+}
+
+// Defaults a visit can be prefilled with in one tap. Templates belong to a clinic.
+export interface VisitTemplate {
+  id: string;
+  name: string;
+  complaints: string;
+  diagnosis: string;
+  treatment: string;
+  fee?: number;
+  // Days from the visit to the follow-up, when one is usually booked.
+  followUpDays?: number;
+  clinicId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export type StaffRole = 'admin' | 'doctor' | 'nurse' | 'reception' | 'accountant';
+
+export interface StaffUser {
+  id: string;
+  name: string;
+  role: StaffRole;
+  // Salted hash of the user's PIN, when one is required to switch to them.
+  pinHash?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Archived users can no longer be selected but stay on the records they created.
+  archivedAt?: string;
 }
 
 export interface AppData {
@@ -72,4 +217,28 @@ export interface AppData {
   incomeRecords: IncomeRecord[];
   expenseRecords: ExpenseRecord[];
   clinics: Clinic[];
-}
\ No newline at end of file
+  staffUsers: StaffUser[];
+  visitTemplates: VisitTemplate[];
+}
+
+// 'merge' entries summarize a patient merge; the record changes it made have their own entries.
+export type AuditAction = 'create' | 'update' | 'delete' | 'merge';
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  // The AppData collection the record belongs to, e.g. 'patients'.
+  entityType: string;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  timestamp: string;
+  actor: string;
+  // Id of the staff user named by `actor`, when one was active.
+  actorId?: string;
+}
@@ -0,0 +1,103 @@
+import { checkPrescription, requiresOverride, isCoveredByOverride, InteractionWarning } from '@/utils/interactions';
+import { Patient, PrescriptionItem } from '@/types';
+
+const patient = (overrides: Partial<Patient> = {}): Patient => ({
+  id: 'patient-1',
+  name: 'Jane Doe',
+  age: 40,
+  sex: 'Female',
+  phoneNumber: '',
+  location: '',
+  allergies: [],
+  medications: [],
+  pastMedicalHistory: '',
+  createdAt: '2026-01-05T09:00:00.000Z',
+  updatedAt: '2026-01-05T09:00:00.000Z',
+  clinicId: 'clinic-1',
+  ...overrides,
+});
+
+const item = (drug: string): PrescriptionItem => ({
+  id: drug,
+  drug,
+  strength: '',
+  dose: '',
+  frequency: '',
+  duration: '',
+  quantity: '',
+  instructions: '',
+});
+
+const allergy = (substance: string) => ({ id: substance, substance, reaction: '', severity: 'severe' as const });
+const medication = (name: string) => ({ id: name, name, dose: '', frequency: '' });
+
+describe('checkPrescription', () => {
+  it('warns about a drug in the class of a recorded allergy', () => {
+    const warnings = checkPrescription([item('Amoxicillin 500 mg')], patient({ allergies: [allergy('Penicillin')] }));
+
+    expect(warnings).toEqual([expect.objectContaining({ severity: 'major' })]);
+  });
+
+  it('warns about cross-reactions with a lower severity', () => {
+    const warnings = checkPrescription([item('Cefalexin')], patient({ allergies: [allergy('Penicillin')] }));
+
+    expect(warnings.map(warning => warning.severity)).toEqual(['moderate']);
+  });
+
+  it('does not match part of a word', () => {
+    expect(checkPrescription([item('Ferrous sulfate')], patient({ allergies: [allergy('Sulfa')] }))).toEqual([]);
+  });
+
+  it('checks prescribed drugs against each other and current medications, most severe first', () => {
+    const warnings = checkPrescription(
+      [item('Ibuprofen'), item('Ciprofloxacin'), item('Ferrous sulfate')],
+      patient({ medications: [medication('Warfarin')] })
+    );
+
+    expect(warnings.map(warning => warning.severity)).toEqual(['major', 'moderate', 'minor']);
+    expect(warnings[0].message).toContain('Warfarin (current medication)');
+  });
+
+  it('gives the same key to the same conflict each time', () => {
+    const first = checkPrescription([item('Warfarin'), item('Aspirin')], patient());
+    const second = checkPrescription([item('aspirin'), item('warfarin')], patient());
+
+    expect(second.map(warning => warning.key)).toEqual(first.map(warning => warning.key));
+  });
+
+  it('ignores unnamed drugs', () => {
+    expect(checkPrescription([item('  ')], patient({ allergies: [allergy('Penicillin')] }))).toEqual([]);
+  });
+});
+
+const warning = (severity: InteractionWarning['severity'], message: string): InteractionWarning =>
+  ({ key: message, severity, message });
+
+describe('requiresOverride', () => {
+  it('needs an override for major and moderate warnings only', () => {
+    expect(requiresOverride([warning('minor', 'Take apart')])).toBe(false);
+    expect(requiresOverride([warning('minor', 'Take apart'), warning('moderate', 'Monitor')])).toBe(true);
+    expect(requiresOverride([warning('major', 'Bleeding')])).toBe(true);
+    expect(requiresOverride([])).toBe(false);
+  });
+});
+
+describe('isCoveredByOverride', () => {
+  const override = {
+    warnings: [{ severity: 'major' as const, message: 'Bleeding' }],
+    reason: 'Discussed with the patient',
+    overriddenAt: '2026-01-05T09:00:00.000Z',
+  };
+
+  it('is not covered without an override', () => {
+    expect(isCoveredByOverride([warning('major', 'Bleeding')])).toBe(false);
+  });
+
+  it('is covered when every serious warning was overridden, ignoring minor ones', () => {
+    expect(isCoveredByOverride([warning('major', 'Bleeding'), warning('minor', 'Take apart')], override)).toBe(true);
+  });
+
+  it('is not covered once a new serious warning appears', () => {
+    expect(isCoveredByOverride([warning('major', 'Bleeding'), warning('moderate', 'Monitor')], override)).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { normalizeName, isSimilarName } from '@/utils/patientMatching';
+
+describe('normalizeName', () => {
+  it('drops accents, punctuation and repeated spaces', () => {
+    expect(normalizeName('  José   O\'Brien-Díaz ')).toBe('jose o brien diaz');
+  });
+
+  it('keeps names written in other scripts', () => {
+    expect(normalizeName('မောင် မောင်')).not.toBe('');
+    expect(normalizeName('Иван Петров')).toBe('иван петров');
+  });
+});
+
+describe('isSimilarName', () => {
+  it('matches the same Burmese name spaced differently', () => {
+    expect(isSimilarName('အောင်  အောင်', 'အောင် အောင်')).toBe(true);
+  });
+
+  it('does not match different Burmese names', () => {
+    expect(isSimilarName('အောင် အောင်', 'မောင် ကျော်')).toBe(false);
+  });
+
+  it('matches reordered and misspelled Latin names', () => {
+    expect(isSimilarName('Doe Jane', 'Jane Doe')).toBe(true);
+    expect(isSimilarName('Jane Doe', 'Jayne Doe')).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { getVitalFlag, getBmiFlag, parseVitalsInput, toVitalsInput } from '@/utils/vitals';
+
+describe('getVitalFlag', () => {
+  it('flags adult readings outside the normal range', () => {
+    expect(getVitalFlag('pulse', 120, 40)).toBe('high');
+    expect(getVitalFlag('oxygenSaturation', 90, 18)).toBe('low');
+    expect(getVitalFlag('pulse', 80, 40)).toBeNull();
+  });
+
+  it('does not flag children against adult ranges', () => {
+    expect(getVitalFlag('pulse', 120, 2)).toBeNull();
+    expect(getVitalFlag('respiratoryRate', 30, 0)).toBeNull();
+    expect(getBmiFlag(15, 10)).toBeNull();
+  });
+
+  it('does not flag signs without a range', () => {
+    expect(getVitalFlag('weight', 300, 40)).toBeNull();
+  });
+});
+
+describe('parseVitalsInput', () => {
+  it('reads typed readings and leaves blanks out', () => {
+    const input = { ...toVitalsInput(undefined), pulse: ' 72 ', temperature: '37,2' };
+
+    expect(parseVitalsInput(input)).toEqual({ vitals: { pulse: 72, temperature: 37.2 } });
+    expect(parseVitalsInput(toVitalsInput(undefined))).toEqual({ vitals: undefined });
+  });
+
+  it('rejects readings outside the valid range', () => {
+    expect(parseVitalsInput({ ...toVitalsInput(undefined), pulse: '400' }).error).toBe('Pulse must be between 20 and 250 bpm');
+  });
+});
@@ -0,0 +1,71 @@
+import { Patient } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Parses a YYYY-MM-DD date as local midnight, so day arithmetic ignores time zones.
+function parseDate(value: string) {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// 2024-05-01 -> "2024-05-01", using local date parts.
+export function toDateString(date: Date) {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * Whole calendar months between the date of birth and `on`.
+ */
+function monthsBetween(birth: Date, on: Date) {
+  let months = (on.getFullYear() - birth.getFullYear()) * 12 + on.getMonth() - birth.getMonth();
+  if (on.getDate() < birth.getDate()) months--;
+  return Math.max(months, 0);
+}
+
+export function ageInYearsFromDateOfBirth(dateOfBirth: string, on = new Date()) {
+  return Math.floor(monthsBetween(parseDate(dateOfBirth), on) / 12);
+}
+
+/**
+ * The patient's age in whole years today. Falls back to the stored age for
+ * records without a date of birth.
+ */
+export function getAgeInYears(patient: Pick<Patient, 'age' | 'dateOfBirth'>, on = new Date()) {
+  return patient.dateOfBirth ? ageInYearsFromDateOfBirth(patient.dateOfBirth, on) : patient.age;
+}
+
+/**
+ * A display age: weeks under two months, months under two years, years
+ * after that. Approximate dates of birth are shown with a "~".
+ */
+export function formatAge(
+  patient: Pick<Patient, 'age' | 'dateOfBirth' | 'dateOfBirthApproximate'>,
+  on = new Date()
+) {
+  if (!patient.dateOfBirth) return `${patient.age} years`;
+
+  const birth = parseDate(patient.dateOfBirth);
+  const months = monthsBetween(birth, on);
+  const prefix = patient.dateOfBirthApproximate ? '~' : '';
+
+  if (months < 2) {
+    const days = Math.max(Math.floor((on.getTime() - birth.getTime()) / DAY), 0);
+    return days < 7 ? `${prefix}${days} days` : `${prefix}${Math.floor(days / 7)} weeks`;
+  }
+  if (months < 24) return `${prefix}${months} months`;
+  return `${prefix}${Math.floor(months / 12)} years`;
+}
+
+/**
+ * Estimates a date of birth from an age recorded on `asOf`, assuming the
+ * patient had just had their birthday.
+ */
+export function estimateDateOfBirth(age: number, asOf: string | Date = new Date()) {
+  const date = typeof asOf === 'string' ? new Date(asOf) : asOf;
+  const reference = isNaN(date.getTime()) ? new Date() : date;
+  return toDateString(new Date(reference.getFullYear() - Math.floor(age), reference.getMonth(), reference.getDate()));
+}
@@ -0,0 +1,73 @@
+function escapeCsvValue(value: unknown) {
+  if (value === undefined || value === null) return '';
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts records to CSV with one column per field. Fields missing from a
+ * record are left empty; nested values are written as JSON.
+ */
+export function toCsv(records: object[]) {
+  const columns: string[] = [];
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+
+  const rows = records.map(record =>
+    columns.map(column => escapeCsvValue((record as Record<string, unknown>)[column])).join(',')
+  );
+  return [columns.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing commas,
+ * quotes and line breaks. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Skip a byte order mark left by spreadsheet apps.
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
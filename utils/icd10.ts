@@ -0,0 +1,62 @@
+import { DiagnosisCode } from '@/types';
+import { ICD10_CATALOGUE } from '@/constants/icd10';
+
+interface CatalogueEntry extends DiagnosisCode {
+  // Lower-cased title and search words, without punctuation.
+  searchText: string;
+}
+
+const ENTRIES: CatalogueEntry[] = ICD10_CATALOGUE.map(([code, title, keywords]) => ({
+  code,
+  title,
+  searchText: normalize(`${title} ${keywords ?? ''}`),
+}));
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// "i10", "J45", "e11.9" and "E119" all look like codes.
+function normalizeCode(text: string) {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+const CODE_PATTERN = /^[A-Z]\d{0,3}$/;
+
+/**
+ * Catalogue entries matching a code or keywords, best matches first.
+ * A query shaped like a code matches codes starting with it; otherwise
+ * every word of the query must start a word of the title or search words.
+ */
+export function searchIcd10(query: string, limit = 8): DiagnosisCode[] {
+  const code = normalizeCode(query);
+  if (!code) return [];
+
+  if (CODE_PATTERN.test(code)) {
+    const byCode = ENTRIES.filter(entry => normalizeCode(entry.code).startsWith(code));
+    if (byCode.length > 0) return byCode.slice(0, limit).map(toDiagnosisCode);
+  }
+
+  const words = normalize(query).split(' ');
+  const scored = ENTRIES
+    .map(entry => {
+      const entryWords = entry.searchText.split(' ');
+      if (!words.every(word => entryWords.some(entryWord => entryWord.startsWith(word)))) return null;
+      // Titles that start with the query read as the closest match.
+      const score = entry.searchText.startsWith(words.join(' ')) ? 0 : 1;
+      return { entry, score };
+    })
+    .filter((match): match is { entry: CatalogueEntry; score: number } => match !== null)
+    .sort((a, b) => a.score - b.score || a.entry.code.localeCompare(b.entry.code));
+
+  return scored.slice(0, limit).map(({ entry }) => toDiagnosisCode(entry));
+}
+
+function toDiagnosisCode({ code, title }: CatalogueEntry): DiagnosisCode {
+  return { code, title };
+}
+
+// "I10 Essential (primary) hypertension"
+export function formatDiagnosisCode(diagnosis: DiagnosisCode) {
+  return `${diagnosis.code} ${diagnosis.title}`;
+}
@@ -0,0 +1,10 @@
+import * as Crypto from 'expo-crypto';
+
+/**
+ * Generates a random (v4) UUID for a new record. Unlike timestamp ids these
+ * do not collide when records are created in the same millisecond or on
+ * different devices.
+ */
+export function generateId(): string {
+  return Crypto.randomUUID();
+}
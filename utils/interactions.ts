@@ -0,0 +1,147 @@
+import { InteractionOverride, InteractionSeverity, Patient, PrescriptionItem } from '@/types';
+import {
+  DrugClass,
+  DRUG_CLASSES,
+  CROSS_REACTION_RULES,
+  INTERACTION_RULES,
+} from '@/constants/drugInteractions';
+import { formatAllergy } from './medicalLists';
+
+export interface InteractionWarning {
+  // The same for the same conflict each time a prescription is checked.
+  key: string;
+  severity: InteractionSeverity;
+  message: string;
+}
+
+export const INTERACTION_SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  major: 'Major',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const SEVERITY_ORDER: InteractionSeverity[] = ['major', 'moderate', 'minor'];
+
+// " co trimoxazole 480 mg " - padded so whole words can be found with includes.
+function normalize(name: string) {
+  return ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+function containsWords(name: string, words: string) {
+  const target = normalize(words).trim();
+  return !!target && (name.includes(` ${target} `) || name.includes(` ${target}s `));
+}
+
+function drugClasses(name: string) {
+  const normalized = normalize(name);
+  return (Object.keys(DRUG_CLASSES) as DrugClass[])
+    .filter(drugClass => DRUG_CLASSES[drugClass].some(keyword => containsWords(normalized, keyword)));
+}
+
+interface CheckedDrug {
+  name: string;
+  classes: DrugClass[];
+  // Taken already rather than on this prescription.
+  current: boolean;
+}
+
+function describe(drug: CheckedDrug) {
+  return drug.current ? `${drug.name} (current medication)` : drug.name;
+}
+
+/**
+ * Checks a prescription against the patient's recorded allergies, their
+ * current medications and the other drugs prescribed with it. Warnings are
+ * returned most severe first.
+ */
+export function checkPrescription(items: PrescriptionItem[], patient: Patient): InteractionWarning[] {
+  const prescribed: CheckedDrug[] = items
+    .filter(item => item.drug.trim())
+    .map(item => ({ name: item.drug.trim(), classes: drugClasses(item.drug), current: false }));
+  const current: CheckedDrug[] = (patient.medications ?? [])
+    .filter(medication => medication.name.trim())
+    .map(medication => ({ name: medication.name.trim(), classes: drugClasses(medication.name), current: true }));
+
+  const warnings = new Map<string, InteractionWarning>();
+  const warn = (warning: InteractionWarning) => {
+    if (!warnings.has(warning.key)) warnings.set(warning.key, warning);
+  };
+
+  prescribed.forEach(drug => {
+    (patient.allergies ?? []).forEach(allergy => {
+      const allergyClasses = drugClasses(allergy.substance);
+      const key = `allergy:${normalize(drug.name).trim()}:${normalize(allergy.substance).trim()}`;
+
+      if (
+        containsWords(normalize(drug.name), allergy.substance)
+        || drug.classes.some(drugClass => allergyClasses.includes(drugClass))
+      ) {
+        warn({
+          key,
+          severity: 'major',
+          message: `${drug.name} may trigger the recorded allergy: ${formatAllergy(allergy)}.`,
+        });
+        return;
+      }
+
+      const crossReaction = CROSS_REACTION_RULES.find(rule =>
+        allergyClasses.includes(rule.allergy) && drug.classes.includes(rule.drug));
+      if (crossReaction) {
+        warn({
+          key,
+          severity: crossReaction.severity,
+          message: `${drug.name} and the recorded allergy to ${formatAllergy(allergy)}: ${crossReaction.message}`,
+        });
+      }
+    });
+  });
+
+  prescribed.forEach((drug, index) => {
+    // Each pair once: later prescribed drugs, then everything the patient takes.
+    const others = [...prescribed.slice(index + 1), ...current];
+
+    others.forEach(other => {
+      const pairKey = [drug.name, other.name].map(name => normalize(name).trim()).sort().join('+');
+
+      if (normalize(drug.name) === normalize(other.name)) {
+        warn({
+          key: `duplicate:${pairKey}`,
+          severity: 'minor',
+          message: other.current
+            ? `${drug.name} is already among the patient's current medications.`
+            : `${drug.name} is prescribed more than once.`,
+        });
+        return;
+      }
+
+      INTERACTION_RULES.forEach(rule => {
+        const [first, second] = rule.classes;
+        const matches = (drug.classes.includes(first) && other.classes.includes(second))
+          || (drug.classes.includes(second) && other.classes.includes(first));
+        if (!matches) return;
+
+        warn({
+          key: `interaction:${pairKey}:${first}+${second}`,
+          severity: rule.severity,
+          message: `${describe(drug)} with ${describe(other)}: ${rule.message}`,
+        });
+      });
+    });
+  });
+
+  return Array.from(warnings.values())
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+// Minor warnings are advice; anything more serious needs an override reason.
+export function requiresOverride(warnings: InteractionWarning[]) {
+  return warnings.some(warning => warning.severity !== 'minor');
+}
+
+// Whether an override recorded earlier still covers these warnings.
+export function isCoveredByOverride(warnings: InteractionWarning[], override?: InteractionOverride) {
+  if (!override) return false;
+  return warnings
+    .filter(warning => warning.severity !== 'minor')
+    .every(warning => override.warnings.some(overridden => overridden.message === warning.message));
+}
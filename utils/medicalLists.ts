@@ -0,0 +1,47 @@
+import { Allergy, AllergySeverity, Medication } from '@/types';
+import { generateId } from './ids';
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  unknown: 'Unknown',
+};
+
+// Free-text entries that mean the patient has no known allergies.
+const NO_ALLERGY_TEXT = new Set(['none', 'nil', 'no', 'n/a', 'na', 'nka', 'nkda', 'no known allergies', 'no known drug allergies']);
+
+/**
+ * Turns a free-text allergy note into allergy entries. Entries are separated
+ * by commas, semicolons or new lines; "Penicillin (rash)" records the rash
+ * as the reaction. The severity of parsed entries is unknown.
+ */
+export function parseAllergyText(text: string, makeId: (index: number) => string = () => generateId()): Allergy[] {
+  return text
+    .split(/[,;\n]/)
+    .map(part => part.trim())
+    .filter(part => part && !NO_ALLERGY_TEXT.has(part.toLowerCase().replace(/\.$/, '')))
+    .map((part, index) => {
+      const match = part.match(/^(.*?)\s*\((.*)\)$/);
+      return {
+        id: makeId(index),
+        substance: match ? match[1] : part,
+        reaction: match ? match[2] : '',
+        severity: 'unknown' as const,
+      };
+    });
+}
+
+// "Penicillin – rash (severe)"
+export function formatAllergy(allergy: Allergy) {
+  const reaction = allergy.reaction ? ` – ${allergy.reaction}` : '';
+  const severity = allergy.severity !== 'unknown' ? ` (${ALLERGY_SEVERITY_LABELS[allergy.severity].toLowerCase()})` : '';
+  return `${allergy.substance}${reaction}${severity}`;
+}
+
+// "Metformin 500 mg, twice daily"
+export function formatMedication(medication: Medication) {
+  const dose = medication.dose ? ` ${medication.dose}` : '';
+  const frequency = medication.frequency ? `, ${medication.frequency}` : '';
+  return `${medication.name}${dose}${frequency}`;
+}
@@ -0,0 +1,133 @@
+import { Patient } from '@/types';
+import { getAgeInYears } from './age';
+
+type MatchablePatient = Pick<Patient, 'name' | 'phoneNumber' | 'age' | 'dateOfBirth'>;
+
+export interface PatientMatch<T> {
+  patient: T;
+  // Why the two records look like the same person, e.g. "Same phone number and similar name".
+  reason: string;
+}
+
+// Lower case, without accents, punctuation or repeated spaces. Letters of
+// every script are kept, along with the marks that scripts such as Burmese
+// write vowels with.
+export function normalizeName(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The last nine digits, so "+44 7700 900123" and "07700-900123" compare equal.
+export function normalizePhone(phone: string) {
+  return phone.replace(/\D/g, '').slice(-9);
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether two names are probably spellings of the same name: equal once
+ * normalized, the same words in another order, or a couple of typos apart.
+ */
+export function isSimilarName(a: string, b: string) {
+  const first = normalizeName(a);
+  const second = normalizeName(b);
+  if (!first || !second) return false;
+  if (first === second) return true;
+
+  const sortedWords = (name: string) => name.split(' ').sort().join(' ');
+  if (sortedWords(first) === sortedWords(second)) return true;
+
+  const allowedTypos = Math.min(first.length, second.length) >= 8 ? 2 : 1;
+  return editDistance(first, second) <= allowedTypos;
+}
+
+/**
+ * Returns why `candidate` is probably the same person as `patient`, or null.
+ * A similar name alone is not enough; the phone number or age must match too.
+ */
+export function matchPatient(candidate: MatchablePatient, patient: MatchablePatient) {
+  if (!isSimilarName(candidate.name, patient.name)) return null;
+
+  const phone = normalizePhone(candidate.phoneNumber);
+  if (phone.length >= 7 && phone === normalizePhone(patient.phoneNumber)) {
+    return `Same phone number and similar name as ${patient.name}`;
+  }
+  if (Math.abs(getAgeInYears(candidate) - getAgeInYears(patient)) <= 1) {
+    return `Similar name and age to ${patient.name}`;
+  }
+  return null;
+}
+
+/**
+ * The patients in `patients` that look like duplicates of `candidate`.
+ * Pass `excludeId` to skip the candidate's own stored record.
+ */
+export function findDuplicatePatients<T extends MatchablePatient & { id: string }>(
+  candidate: MatchablePatient,
+  patients: T[],
+  excludeId?: string
+): PatientMatch<T>[] {
+  const matches: PatientMatch<T>[] = [];
+  patients.forEach(patient => {
+    if (patient.id === excludeId) return;
+    const reason = matchPatient(candidate, patient);
+    if (reason) matches.push({ patient, reason });
+  });
+  return matches;
+}
+
+// Joins two free-text values, dropping blanks and repeats.
+function combineText(first: string, second: string) {
+  const values = [first.trim(), second.trim()].filter(Boolean);
+  return [...new Set(values)].join('\n');
+}
+
+// Joins two lists, dropping entries of the second whose key is already present.
+function combineList<T>(first: T[] = [], second: T[] = [], key: (item: T) => string) {
+  const keys = new Set(first.map(key));
+  return [...first, ...second.filter(item => !keys.has(key(item)))];
+}
+
+/**
+ * The kept patient's details after merging `duplicate` into it. The kept
+ * record wins, except that blanks are filled from the duplicate, allergies,
+ * medications and history from both are kept, and a known date of birth
+ * replaces an estimate.
+ */
+export function combinePatientDetails(kept: Patient, duplicate: Patient): Patient {
+  const useDuplicateBirth = !!duplicate.dateOfBirth && !duplicate.dateOfBirthApproximate &&
+    (!kept.dateOfBirth || !!kept.dateOfBirthApproximate);
+
+  return {
+    ...kept,
+    phoneNumber: kept.phoneNumber.trim() || duplicate.phoneNumber,
+    location: kept.location.trim() || duplicate.location,
+    allergies: combineList(kept.allergies, duplicate.allergies, allergy => allergy.substance.trim().toLowerCase()),
+    medications: combineList(kept.medications, duplicate.medications, medication => medication.name.trim().toLowerCase()),
+    pastMedicalHistory: combineText(kept.pastMedicalHistory, duplicate.pastMedicalHistory),
+    ...(useDuplicateBirth && {
+      age: duplicate.age,
+      dateOfBirth: duplicate.dateOfBirth,
+      dateOfBirthApproximate: false,
+    }),
+  };
+}
@@ -0,0 +1,83 @@
+import { PrescriptionItem } from '@/types';
+import { DRUG_CATALOGUE } from '@/constants/drugs';
+import { generateId } from './ids';
+
+// A prescription line saved for reuse; everything but the id.
+export type PrescriptionTemplate = Omit<PrescriptionItem, 'id'>;
+
+export const EMPTY_PRESCRIPTION_TEMPLATE: PrescriptionTemplate = {
+  drug: '',
+  strength: '',
+  dose: '',
+  frequency: '',
+  duration: '',
+  quantity: '',
+  instructions: '',
+};
+
+export function newPrescriptionItem(template: Partial<PrescriptionTemplate> = {}): PrescriptionItem {
+  return { id: generateId(), ...EMPTY_PRESCRIPTION_TEMPLATE, ...template };
+}
+
+export function isBlankPrescriptionItem(item: PrescriptionItem) {
+  return (Object.keys(EMPTY_PRESCRIPTION_TEMPLATE) as (keyof PrescriptionTemplate)[])
+    .every(field => !item[field].trim());
+}
+
+// The same drug at the same strength, however it was capitalised.
+export function isSameDrug(a: PrescriptionTemplate, b: PrescriptionTemplate) {
+  return a.drug.trim().toLowerCase() === b.drug.trim().toLowerCase()
+    && a.strength.trim().toLowerCase() === b.strength.trim().toLowerCase();
+}
+
+/**
+ * Catalogue drug names in which every word of the query starts a word,
+ * names starting with the query first.
+ */
+export function searchDrugCatalogue(query: string, limit = 6): string[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const rank = (name: string) => (name.toLowerCase().startsWith(words[0]) ? 0 : 1);
+
+  return DRUG_CATALOGUE
+    .map(([name]) => name)
+    .filter(name => {
+      const nameWords = name.toLowerCase().split(/[\s(),+/-]+/);
+      return words.every(word => nameWords.some(nameWord => nameWord.startsWith(word)));
+    })
+    .sort((a, b) => rank(a) - rank(b))
+    .slice(0, limit);
+}
+
+function findCatalogueDrug(name: string) {
+  const key = name.trim().toLowerCase();
+  return DRUG_CATALOGUE.find(([drug]) => drug.toLowerCase() === key);
+}
+
+// Usual strengths of a catalogue drug; empty for drugs not in the catalogue.
+export function getDrugStrengths(name: string): readonly string[] {
+  return findCatalogueDrug(name)?.[2] ?? [];
+}
+
+// "tablet", "syrup"...; empty for drugs not in the catalogue.
+export function getDrugForm(name: string) {
+  return findCatalogueDrug(name)?.[1] ?? '';
+}
+
+// "Amoxicillin 500 mg"
+export function formatDrug(item: PrescriptionTemplate) {
+  return [item.drug, item.strength].filter(Boolean).join(' ');
+}
+
+// "1 capsule three times daily for 5 days"
+export function formatDirections(item: PrescriptionTemplate) {
+  const duration = item.duration ? `for ${item.duration}` : '';
+  return [item.dose, item.frequency, duration].filter(Boolean).join(' ');
+}
+
+// "Amoxicillin 500 mg – 1 capsule three times daily for 5 days"
+export function formatPrescriptionItem(item: PrescriptionTemplate) {
+  const directions = formatDirections(item);
+  return directions ? `${formatDrug(item)} – ${directions}` : formatDrug(item);
+}
@@ -0,0 +1,61 @@
+import { AppData } from '@/types';
+
+// Singular display name of the record type stored in each collection.
+export const COLLECTION_LABELS: Record<keyof AppData, string> = {
+  patients: 'Patient',
+  visits: 'Visit',
+  appointments: 'Appointment',
+  incomeRecords: 'Income',
+  expenseRecords: 'Expense',
+  clinics: 'Clinic',
+  staffUsers: 'Staff user',
+  visitTemplates: 'Visit template',
+};
+
+// "pastMedicalHistory" -> "Past medical history"
+export function formatFieldName(field: string) {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Renders a stored field value for display in history and conflict views.
+ */
+export function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    // Lists such as allergies: one entry per item, without ids or blank fields.
+    if (value.length === 0) return '—';
+    return value
+      .map(item => typeof item === 'object' && item !== null
+        ? Object.entries(item)
+            .filter(([key, itemValue]) => key !== 'id' && itemValue !== '' && itemValue !== undefined)
+            .map(([, itemValue]) => String(itemValue))
+            .join(' ')
+        : String(item))
+      .join('; ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * A short human-readable name for a record, e.g. the patient's name.
+ */
+export function describeRecord(collection: keyof AppData, record: object): string {
+  const values = record as Record<string, any>;
+
+  switch (collection) {
+    case 'patients':
+    case 'clinics':
+    case 'staffUsers':
+    case 'visitTemplates':
+      return values.name;
+    case 'visits':
+      return `${values.patientName} • ${new Date(values.visitDate).toLocaleDateString()}`;
+    case 'appointments':
+      return `${values.patientName} • ${values.date} ${values.time}`;
+    default:
+      return values.description;
+  }
+}
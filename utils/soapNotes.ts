@@ -0,0 +1,71 @@
+import { SoapNote } from '@/types';
+
+export type VisitNoteFormat = 'simple' | 'soap';
+
+interface SoapField {
+  field: keyof SoapNote;
+  label: string;
+  placeholder: string;
+  required?: boolean;
+}
+
+export interface SoapSection {
+  title: string;
+  fields: SoapField[];
+}
+
+export const SOAP_SECTIONS: SoapSection[] = [
+  {
+    title: 'Subjective',
+    fields: [
+      { field: 'chiefComplaint', label: 'Chief Complaint', placeholder: 'Main reason for the visit...', required: true },
+      { field: 'historyOfPresentIllness', label: 'History of Present Illness', placeholder: 'Onset, duration, severity, aggravating factors...' },
+      { field: 'reviewOfSystems', label: 'Review of Systems', placeholder: 'Other symptoms reported...' },
+    ],
+  },
+  {
+    title: 'Objective',
+    fields: [
+      { field: 'examinationFindings', label: 'Examination Findings', placeholder: 'General appearance, systems examined...' },
+      { field: 'investigationResults', label: 'Investigation Results', placeholder: 'Lab or imaging results available today...' },
+    ],
+  },
+  {
+    title: 'Assessment',
+    fields: [
+      { field: 'assessment', label: 'Assessment', placeholder: 'Working diagnosis...' },
+      { field: 'differentialDiagnosis', label: 'Differential Diagnosis', placeholder: 'Other possible diagnoses...' },
+    ],
+  },
+  {
+    title: 'Plan',
+    fields: [
+      { field: 'plan', label: 'Plan', placeholder: 'Treatment, tests ordered, follow-up...' },
+      { field: 'patientInstructions', label: 'Patient Instructions', placeholder: 'Advice given, warning signs, when to return...' },
+    ],
+  },
+];
+
+export const EMPTY_SOAP_NOTE: SoapNote = {
+  chiefComplaint: '',
+  historyOfPresentIllness: '',
+  reviewOfSystems: '',
+  examinationFindings: '',
+  investigationResults: '',
+  assessment: '',
+  differentialDiagnosis: '',
+  plan: '',
+  patientInstructions: '',
+};
+
+/**
+ * The simple-format fields a SOAP note fills, so lists, search and exports
+ * that only know complaints, diagnosis and treatment still show the visit.
+ */
+export function summarizeSoapNote(soap: SoapNote) {
+  return {
+    complaints: soap.chiefComplaint,
+    diagnosis: soap.assessment,
+    treatment: soap.plan,
+  };
+}
@@ -0,0 +1,106 @@
+import { Vitals } from '@/types';
+
+export type VitalSign = keyof Vitals;
+
+interface VitalSignDefinition {
+  label: string;
+  unit: string;
+  decimals: number;
+  // Readings outside this range are rejected as typing mistakes.
+  valid: { min: number; max: number };
+  // Adult reference range; readings outside it are flagged.
+  normal?: { min: number; max: number };
+}
+
+export const VITAL_SIGNS: Record<VitalSign, VitalSignDefinition> = {
+  systolic: { label: 'Systolic BP', unit: 'mmHg', decimals: 0, valid: { min: 50, max: 260 }, normal: { min: 90, max: 139 } },
+  diastolic: { label: 'Diastolic BP', unit: 'mmHg', decimals: 0, valid: { min: 30, max: 160 }, normal: { min: 60, max: 89 } },
+  pulse: { label: 'Pulse', unit: 'bpm', decimals: 0, valid: { min: 20, max: 250 }, normal: { min: 60, max: 100 } },
+  temperature: { label: 'Temperature', unit: '°C', decimals: 1, valid: { min: 30, max: 45 }, normal: { min: 36.1, max: 37.8 } },
+  respiratoryRate: { label: 'Respiratory rate', unit: '/min', decimals: 0, valid: { min: 4, max: 80 }, normal: { min: 12, max: 20 } },
+  oxygenSaturation: { label: 'SpO2', unit: '%', decimals: 0, valid: { min: 50, max: 100 }, normal: { min: 95, max: 100 } },
+  weight: { label: 'Weight', unit: 'kg', decimals: 1, valid: { min: 0.5, max: 400 } },
+  height: { label: 'Height', unit: 'cm', decimals: 1, valid: { min: 30, max: 250 } },
+};
+
+export const BMI_NORMAL_RANGE = { min: 18.5, max: 24.9 };
+
+// The reference ranges are for adults, so younger patients' readings are not flagged.
+export const ADULT_AGE = 18;
+
+export type VitalFlag = 'low' | 'high';
+
+function flagFor(value: number, ageInYears: number, range?: { min: number; max: number }): VitalFlag | null {
+  if (!range || ageInYears < ADULT_AGE) return null;
+  if (value < range.min) return 'low';
+  if (value > range.max) return 'high';
+  return null;
+}
+
+// `ageInYears` is the patient's age when the reading was taken.
+export function getVitalFlag(sign: VitalSign, value: number, ageInYears: number) {
+  return flagFor(value, ageInYears, VITAL_SIGNS[sign].normal);
+}
+
+export function getBmiFlag(bmi: number, ageInYears: number) {
+  return flagFor(bmi, ageInYears, BMI_NORMAL_RANGE);
+}
+
+/**
+ * Body mass index from weight in kg and height in cm, to one decimal.
+ * Returns null unless both are recorded.
+ */
+export function calculateBmi(vitals: Pick<Vitals, 'weight' | 'height'> | undefined) {
+  if (!vitals?.weight || !vitals.height) return null;
+  const metres = vitals.height / 100;
+  return Math.round((vitals.weight / (metres * metres)) * 10) / 10;
+}
+
+export function hasVitals(vitals: Vitals | undefined): vitals is Vitals {
+  return !!vitals && Object.values(vitals).some(value => value !== undefined);
+}
+
+// 37.25 -> "37.3 °C"
+export function formatVital(sign: VitalSign, value: number) {
+  const { unit, decimals } = VITAL_SIGNS[sign];
+  return `${value.toFixed(decimals)} ${unit}`;
+}
+
+// Form values for each vital sign, as typed.
+export type VitalsInput = Record<VitalSign, string>;
+
+export function toVitalsInput(vitals: Vitals | undefined): VitalsInput {
+  return Object.fromEntries(
+    (Object.keys(VITAL_SIGNS) as VitalSign[]).map(sign => [sign, vitals?.[sign]?.toString() ?? ''])
+  ) as VitalsInput;
+}
+
+/**
+ * Reads typed vital signs. Blank fields are left out; the result is
+ * undefined when nothing was entered. Returns an error message for the
+ * first reading that is not a number within the valid range.
+ */
+export function parseVitalsInput(input: VitalsInput): { vitals?: Vitals; error?: string } {
+  const vitals: Vitals = {};
+
+  for (const sign of Object.keys(VITAL_SIGNS) as VitalSign[]) {
+    const text = input[sign].trim().replace(',', '.');
+    if (!text) continue;
+
+    const value = Number(text);
+    const { label, unit, valid } = VITAL_SIGNS[sign];
+    if (isNaN(value) || value < valid.min || value > valid.max) {
+      return { error: `${label} must be between ${valid.min} and ${valid.max} ${unit}` };
+    }
+    vitals[sign] = value;
+  }
+
+  if ((vitals.systolic === undefined) !== (vitals.diastolic === undefined)) {
+    return { error: 'Enter both systolic and diastolic blood pressure' };
+  }
+  if (vitals.systolic !== undefined && vitals.diastolic !== undefined && vitals.diastolic >= vitals.systolic) {
+    return { error: 'Diastolic blood pressure must be lower than systolic' };
+  }
+
+  return { vitals: hasVitals(vitals) ? vitals : undefined };
+}